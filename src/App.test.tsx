@@ -2,8 +2,22 @@ import  { act } from 'react';
 import { render, screen } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import App from './App';
+import { createMockServer } from './test-utils/mockServer';
 
 describe('App Component', () => {
+  const server = createMockServer('http://localhost:11434');
+
+  beforeEach(() => {
+    window.localStorage.clear();
+    server.install().on('GET', '/api/tags', {
+      json: { models: [{ name: 'llama3.2' }, { name: 'mistral' }] }
+    });
+  });
+
+  afterEach(() => {
+    server.restore();
+  });
+
   it('renders the app header and title', async () => {
     await act(async () => {
       render(<App />);
@@ -12,16 +26,28 @@ describe('App Component', () => {
     expect(screen.getByText('AI Voice Chat')).toBeInTheDocument();
   });
 
-  it('renders the model selector with default options', async () => {
+  it('renders the model selector with the backend models', async () => {
     await act(async () => {
       render(<App />);
     });
     
-    const selector = screen.getByRole('combobox');
+    const selector = screen.getByRole('combobox', { name: 'Model' });
     expect(selector).toBeInTheDocument();
     
-    expect(screen.getByText('GPT-3.5 Turbo')).toBeInTheDocument();
-    expect(screen.getByText('GPT-4')).toBeInTheDocument();
+    expect(await screen.findByText('mistral')).toBeInTheDocument();
+    expect(screen.getByText('llama3.2')).toBeInTheDocument();
+    expect(selector).toHaveValue('llama3.2');
+  });
+
+  it('restores the previously selected model', async () => {
+    window.localStorage.setItem('voice-chat:selectedModel', JSON.stringify('mistral'));
+
+    await act(async () => {
+      render(<App />);
+    });
+
+    expect(await screen.findByText('llama3.2')).toBeInTheDocument();
+    expect(screen.getByRole('combobox', { name: 'Model' })).toHaveValue('mistral');
   });
 
   it('renders the voice button', async () => {
@@ -29,7 +55,7 @@ describe('App Component', () => {
       render(<App />);
     });
     
-    const voiceButton = screen.getByRole('button');
+    const voiceButton = screen.getByRole('button', { name: 'Start voice input' });
     expect(voiceButton).toBeInTheDocument();
     expect(voiceButton.querySelector('svg')).toBeInTheDocument();
   });
@@ -1,225 +1,626 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { FaBars, FaCog, FaTimes } from 'react-icons/fa';
 import './App.css';
-import VoiceButton from './components/VoiceButton';
+import VoiceButton, { InputMode, VoiceButtonHandle } from './components/VoiceButton';
+import AlternativeChooser from './components/AlternativeChooser';
 import ChatMessage from './components/ChatMessage';
+import ConnectionSettingsSection from './components/ConnectionSettingsSection';
+import ConversationSidebar from './components/ConversationSidebar';
+import ConversationModeButton from './components/ConversationModeButton';
+import GenerationSettingsSection from './components/GenerationSettingsSection';
+import InputModeSelector from './components/InputModeSelector';
+import InputSettingsSection from './components/InputSettingsSection';
+import LanguageSelector from './components/LanguageSelector';
+import MessageComposer from './components/MessageComposer';
+import ModelSelector from './components/ModelSelector';
+import PersonaSelector from './components/PersonaSelector';
+import PersonaSettingsSection from './components/PersonaSettingsSection';
+import SettingsPanel from './components/SettingsPanel';
+import SpeechControls from './components/SpeechControls';
+import TranscriptSettingsSection from './components/TranscriptSettingsSection';
+import TranscriptReview from './components/TranscriptReview';
+import VoiceSettingsSection from './components/VoiceSettingsSection';
+import { useConfig } from './hooks/useConfig';
+import { useConversationMode } from './hooks/useConversationMode';
+import { useConversations } from './hooks/useConversations';
+import { useModels } from './hooks/useModels';
+import { usePersistentState } from './hooks/usePersistentState';
+import { useSpeechController, useSpeechStatus } from './hooks/useSpeechController';
+import { useVoices } from './hooks/useVoices';
+import { isRecordingSupported, RecordedAudio } from './services/audio';
+import { chatWithRetry, createChatBackend, mergeParameters, ModelParameters, toChatError } from './services/chat';
+import {
+  buildContext,
+  Conversation,
+  ConversationImportError,
+  createMessage,
+  EXPORT_FORMATS,
+  ExportFormat,
+  exportFileName,
+  Message,
+  MessageSource,
+  parseConversationExport
+} from './services/conversations';
+import { DEFAULT_PERSONAS, findPersona, Persona } from './services/personas';
+import { createRecognitionEngine, mapTranscripts, needsDisambiguation, RecognitionResult } from './services/recognition';
+import { DEFAULT_VOICE_SETTINGS, toSpeakOptions, VoiceSettings } from './services/speech';
+import { detectLanguage } from './utils/detectLanguage';
+import { downloadFile, readFileText } from './utils/files';
+import { isSameLanguage, matchSupportedLanguage } from './utils/languages';
+import { createSpokenMarkdownChunker } from './utils/spokenMarkdown';
+import { DEFAULT_NORMALIZER_OPTIONS, NormalizerOptions, normalizeTranscript } from './utils/transcriptNormalizer';
 
-interface Message {
+interface SendOptions {
+  // Read the reply aloud; defaults to true
+  speakReply?: boolean;
+  source?: MessageSource;
+  confidence?: number;
+  // Attached to the message once it is ready
+  recording?: Promise<RecordedAudio | null>;
+}
+
+interface Generation {
+  systemPrompt?: string;
+  parameters: ModelParameters;
+}
+
+interface PendingTranscript {
+  id: number;
   text: string;
-  isUser: boolean;
+  confidence: number;
+  recording?: Promise<RecordedAudio | null>;
 }
 
-const speakText = async (speakText: string, voices: SpeechSynthesisVoice[]) => {
-  if (!window.speechSynthesis) {
-    console.error('Speech synthesis not available');
-    return;
-  }
+interface PendingChoice extends RecognitionResult {
+  recording?: Promise<RecordedAudio | null>;
+}
 
-  // Cancel any ongoing speech
-  window.speechSynthesis.cancel();
+const VOICE_PREVIEW_TEXT = 'Hello! This is how I will sound when I read replies to you.';
 
-  // Wait for voices to load if they haven't already
-  if (voices.length === 0) {
-    try {
-      voices = await new Promise((resolve) => {
-        const voicesChanged = () => {
-          const availableVoices = window.speechSynthesis.getVoices();
-          if (availableVoices.length > 0) {
-            window.speechSynthesis.removeEventListener('voiceschanged', voicesChanged);
-            resolve(availableVoices);
-          }
-        };
-        window.speechSynthesis.addEventListener('voiceschanged', voicesChanged);
-        // Also try getting voices immediately
-        const availableVoices = window.speechSynthesis.getVoices();
-        if (availableVoices.length > 0) {
-          window.speechSynthesis.removeEventListener('voiceschanged', voicesChanged);
-          resolve(availableVoices);
+function App() {
+  const { config, base, overrides, setOverrides } = useConfig();
+  const conversations = useConversations();
+  const messages = conversations.active.messages;
+  const [sidebarOpen, setSidebarOpen] = usePersistentState('sidebarOpen', false);
+  const [selectedModel, setSelectedModel] = usePersistentState('selectedModel', config.defaultModel);
+  const speech = useSpeechController();
+  const speakingMessageId = useSpeechStatus().currentItem?.options.sourceId;
+  const voices = useVoices();
+  const [voiceSettings, setVoiceSettings] = usePersistentState<VoiceSettings>('voiceSettings', {
+    ...DEFAULT_VOICE_SETTINGS,
+    voiceId: config.defaultVoice,
+  });
+  const [language, setLanguage] = usePersistentState(
+    'language',
+    config.defaultLanguage ?? matchSupportedLanguage(navigator.language)
+  );
+  const [matchReplyLanguage, setMatchReplyLanguage] = usePersistentState('matchReplyLanguage', true);
+  const [inputMode, setInputMode] = usePersistentState<InputMode>('inputMode', 'click');
+  const [pushToTalkKey, setPushToTalkKey] = usePersistentState('pushToTalkKey', 'Space');
+  const [disambiguationThreshold, setDisambiguationThreshold] = usePersistentState('disambiguationThreshold', 0.8);
+  const [reviewTranscripts, setReviewTranscripts] = usePersistentState('reviewTranscripts', false);
+  const [recordAudio, setRecordAudio] = usePersistentState('recordAudio', false);
+  const [autoSendConfidence, setAutoSendConfidence] = usePersistentState('autoSendConfidence', 0.9);
+  const [speakTypedReplies, setSpeakTypedReplies] = usePersistentState('speakTypedReplies', true);
+  const [normalizerOptions, setNormalizerOptions] = usePersistentState<NormalizerOptions>(
+    'transcriptNormalizer',
+    DEFAULT_NORMALIZER_OPTIONS
+  );
+  const [personas, setPersonas] = usePersistentState<Persona[]>('personas', DEFAULT_PERSONAS);
+  const [interimTranscript, setInterimTranscript] = useState('');
+  const [pendingTranscript, setPendingTranscript] = useState<PendingTranscript | null>(null);
+  const [pendingChoice, setPendingChoice] = useState<PendingChoice | null>(null);
+  const voiceButtonRef = useRef<VoiceButtonHandle>(null);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  // Identifies the reply whose sentences may still be spoken; bumping it
+  // silences the rest of a reply that is still streaming
+  const activeReplyRef = useRef(0);
+  // One controller per reply that is still being fetched
+  const requestsRef = useRef(new Set<AbortController>());
+  const [replying, setReplying] = useState(false);
+  const { chatBackend: backendKind, chatBaseUrl, apiKey, defaultModel } = config;
+  const chatBackend = useMemo(
+    () => createChatBackend({ chatBackend: backendKind, chatBaseUrl, apiKey }),
+    [backendKind, chatBaseUrl, apiKey]
+  );
+  const { recognitionEngine: engineChoice, transcriptionBaseUrl, transcriptionModel } = config;
+  const recognitionEngine = useMemo(
+    () => createRecognitionEngine({
+      recognitionEngine: engineChoice,
+      chatBaseUrl,
+      transcriptionBaseUrl,
+      transcriptionModel,
+      apiKey,
+    }),
+    [engineChoice, chatBaseUrl, transcriptionBaseUrl, transcriptionModel, apiKey]
+  );
+  const { models, loading: modelsLoading, error: modelsError, reload: reloadModels } = useModels(chatBackend);
+
+  useEffect(() => {
+    // Fall back to a listed model when the stored choice is no longer available
+    if (models.length > 0 && !models.includes(selectedModel)) {
+      setSelectedModel(models.includes(defaultModel) ? defaultModel : models[0]);
+    }
+  }, [models, selectedModel, setSelectedModel, defaultModel]);
+
+  // Language to speak a reply in: the selected one, unless the reply is
+  // recognisably written in another language
+  const resolveSpeechLanguage = (replyText: string): string => {
+    if (!matchReplyLanguage) return language;
+    const detected = detectLanguage(replyText);
+    return detected && !isSameLanguage(detected, language) ? detected : language;
+  };
+
+  // What a conversation asks of the model: its persona's prompt and
+  // parameters, with the conversation's own parameters on top
+  const generationFor = (conversation: Conversation): Generation => {
+    const persona = findPersona(personas, conversation.personaId);
+    return {
+      systemPrompt: persona?.systemPrompt,
+      parameters: mergeParameters(persona?.parameters, conversation.parameters),
+    };
+  };
+
+  // Fetches the reply to `text` into an existing assistant message, which
+  // shows the outcome: the streamed text, or why it failed
+  const requestReply = async (
+    conversationId: string,
+    replyMessageId: string,
+    history: Message[],
+    text: string,
+    speakReply: boolean,
+    { systemPrompt, parameters }: Generation
+  ) => {
+    const updateReply = (fields: Partial<Message>) =>
+      conversations.updateMessages(conversationId, prev =>
+        prev.map(message => (message.id === replyMessageId ? { ...message, ...fields } : message))
+      );
+
+    updateReply({ content: '', status: 'pending', model: selectedModel, error: undefined, errorKind: undefined });
+
+    let replyText = '';
+    let replyId = ++activeReplyRef.current;
+    if (!speakReply) {
+      // Nothing from an earlier reply should keep talking over this one
+      speech.stop();
+    }
+
+    // Speak the reply sentence by sentence while it streams in, without its markup
+    const createSpeaker = () => {
+      let sentenceCount = 0;
+      return createSpokenMarkdownChunker(sentence => {
+        if (!speakReply || replyId !== activeReplyRef.current) return;
+        // The new reply replaces whatever is still being spoken
+        if (sentenceCount++ === 0) {
+          speech.stop();
         }
+        speech.speak(sentence, {
+          ...toSpeakOptions(voiceSettings, voices, resolveSpeechLanguage(replyText)),
+          sourceId: replyMessageId,
+        });
       });
+    };
+    let speaker = createSpeaker();
+
+    const controller = new AbortController();
+    requestsRef.current.add(controller);
+    setReplying(true);
+
+    try {
+      const reply = await chatWithRetry(chatBackend, {
+        model: selectedModel,
+        messages: buildContext(history, text, {
+          systemPrompt,
+          maxTokens: config.contextMaxTokens,
+          maxCharacters: config.contextMaxCharacters,
+        }),
+        language,
+        parameters,
+      }, token => {
+        replyText += token;
+        updateReply({ content: replyText, status: 'streaming' });
+        speaker.push(token);
+      }, {
+        timeout: config.requestTimeout,
+        retries: config.maxRetries,
+        retryDelay: config.retryDelay,
+        signal: controller.signal,
+        onRetry: () => {
+          // Start over, including anything already read out
+          replyText = '';
+          replyId = ++activeReplyRef.current;
+          speaker = createSpeaker();
+          updateReply({ content: '', status: 'pending' });
+        },
+      });
+
+      updateReply({ content: replyText || reply.content, status: 'done', model: reply.model ?? selectedModel });
+      speaker.flush();
     } catch (error) {
-      console.error('Error loading voices:', error);
+      console.error('Error in speech handling:', error);
+      const chatError = toChatError(error);
+      updateReply({ status: 'error', error: chatError.message, errorKind: chatError.kind });
+    } finally {
+      requestsRef.current.delete(controller);
+      setReplying(requestsRef.current.size > 0);
     }
-  }
-
-  console.log('Available voices:', voices);
-
-  // Create utterance
-  const speech = new SpeechSynthesisUtterance(speakText);
-  
-  // Find an English voice
-  const englishVoice = voices.find(voice => 
-    voice.lang.startsWith('en') && 
-    (voice.name.includes('Microsoft') || voice.name.includes('Google') || voice.name.includes('English'))
-  ) || voices.find(voice => voice.lang.startsWith('en'));
-
-  if (englishVoice) {
-    console.log('Using voice:', englishVoice.name);
-    speech.voice = englishVoice;
-  } else {
-    console.warn('No English voice found, using default');
-  }
-
-  // Set speech properties
-  speech.rate = 1.0;
-  speech.pitch = 1.0;
-  speech.volume = 1.0;
-
-  // Add event handlers
-  speech.onstart = () => console.log('Speech started');
-  speech.onend = () => console.log('Speech ended');
-  speech.onerror = (event) => console.error('Speech error:', event);
-
-  // Speak
-  try {
-    console.log('Starting speech...');
-    window.speechSynthesis.speak(speech);
-
-    // Chrome sometimes fails to speak if the utterance is too long
-    // This keeps the speech synthesis active
-    const utteranceTimer = setInterval(() => {
-      if (!window.speechSynthesis.speaking) {
-        clearInterval(utteranceTimer);
-        return;
-      }
-      window.speechSynthesis.pause();
-      window.speechSynthesis.resume();
-    }, 14000);
-  } catch (error) {
-    console.error('Error speaking:', error);
-  }
-};
+  };
 
-function App() {
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [selectedModel, setSelectedModel] = useState('gpt-3.5-turbo');
-  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  // Sends a message, typed or spoken, and shows the streamed reply
+  const sendMessage = async (text: string, { speakReply = true, source = 'voice', confidence, recording }: SendOptions = {}) => {
+    // The reply belongs to this conversation even if the user switches away
+    const conversationId = conversations.active.id;
+    const userMessage = createMessage('user', text, { source, confidence });
+    const replyMessage = createMessage('assistant', '', { status: 'pending', model: selectedModel });
+
+    // The recording is finished a moment after the text is recognised
+    recording?.then(audio => {
+      if (!audio) return;
+      conversations.updateMessages(conversationId, prev =>
+        prev.map(message => (message.id === userMessage.id ? { ...message, audio } : message)));
+    });
+
+    // Read before adding the new messages: replies still being fetched may
+    // have changed the conversation since the last render
+    const history = conversations.messagesOf(conversationId);
+    conversations.updateMessages(conversationId, prev => [...prev, userMessage, replyMessage]);
+    await requestReply(conversationId, replyMessage.id, history, text, speakReply, generationFor(conversations.active));
+  };
+
+  // Asks again for a reply that failed, answering the user message before it
+  const retryReply = (replyMessageId: string) => {
+    const conversationId = conversations.active.id;
+    const messages = conversations.messagesOf(conversationId);
+    const replyIndex = messages.findIndex(message => message.id === replyMessageId);
+    let userIndex = replyIndex - 1;
+    while (userIndex >= 0 && messages[userIndex].role !== 'user') {
+      userIndex--;
+    }
+    if (userIndex < 0) return;
+
+    const userMessage = messages[userIndex];
+    const speakReply = userMessage.source !== 'typed' || speakTypedReplies;
+    const history = messages.slice(0, userIndex);
+    requestReply(conversationId, replyMessageId, history, userMessage.content, speakReply, generationFor(conversations.active));
+  };
+
+  // Replaces a reply with a new one; whatever followed it no longer fits
+  const regenerateReply = (replyMessageId: string) => {
+    conversations.updateMessages(conversations.active.id, prev => {
+      const replyIndex = prev.findIndex(message => message.id === replyMessageId);
+      return replyIndex < 0 ? prev : prev.slice(0, replyIndex + 1);
+    });
+    retryReply(replyMessageId);
+  };
+
+  // Sends the edited text of a user message in its place, dropping the
+  // message and everything after it
+  const editMessage = (messageId: string, text: string) => {
+    const conversationId = conversations.active.id;
+    const index = conversations.messagesOf(conversationId).findIndex(message => message.id === messageId);
+    if (index < 0) return;
+
+    conversations.updateMessages(conversationId, prev => prev.slice(0, index));
+    sendMessage(text, { speakReply: speakTypedReplies, source: 'typed' });
+  };
+
+  const deleteMessage = (messageId: string) => {
+    if (messageId === speakingMessageId) {
+      speech.stop();
+    }
+    conversations.updateMessages(conversations.active.id, prev => prev.filter(message => message.id !== messageId));
+  };
+
+  // Reads a message out again, in place of anything being spoken now
+  const replayMessage = (message: Message) => {
+    activeReplyRef.current++;
+    speech.stop();
+    const lang = message.role === 'assistant' ? resolveSpeechLanguage(message.content) : language;
+    const speaker = createSpokenMarkdownChunker(sentence => {
+      speech.speak(sentence, { ...toSpeakOptions(voiceSettings, voices, lang), sourceId: message.id });
+    });
+    speaker.push(message.content);
+    speaker.flush();
+  };
+
+  // Picks the persona for the active conversation and switches to its voice
+  // and language, which the user can still change afterwards
+  const choosePersona = (personaId: string | null) => {
+    conversations.setPersona(conversations.active.id, personaId);
+    const persona = findPersona(personas, personaId);
+    if (persona?.language) {
+      setLanguage(persona.language);
+    }
+    if (persona?.voiceId) {
+      setVoiceSettings(settings => ({ ...settings, voiceId: persona.voiceId }));
+    }
+  };
+
+  // Stops every reply still being fetched, and the one being read out
+  const cancelReplies = () => {
+    requestsRef.current.forEach(controller => controller.abort());
+    activeReplyRef.current++;
+    speech.stop();
+  };
+  const cancelRepliesRef = useRef(cancelReplies);
+  cancelRepliesRef.current = cancelReplies;
 
   useEffect(() => {
-    // Check if speech synthesis is available
-    if (typeof window !== 'undefined' && window.speechSynthesis) {
-      console.log('Speech synthesis is available');
-      
-      // Initial voice loading
-      const loadVoices = () => {
-        try {
-          const availableVoices = window.speechSynthesis.getVoices() || [];
-          console.log('Loaded voices:', availableVoices);
-          if (availableVoices && availableVoices.length > 0) {
-            setVoices(availableVoices);
-          } else {
-            console.warn('No voices available yet');
-          }
-        } catch (error) {
-          console.error('Error loading voices:', error);
-          setVoices([]);
-        }
-      };
-
-      // Load voices immediately if available
-      loadVoices();
-
-      // Set up voice changed event listener
-      if ('onvoiceschanged' in window.speechSynthesis) {
-        console.log('Setting up onvoiceschanged listener');
-        window.speechSynthesis.onvoiceschanged = () => {
-          console.log('Voices changed event triggered');
-          loadVoices();
-        };
-      } else {
-        console.warn('onvoiceschanged not supported in this browser');
+    if (!replying) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Dialogs and pickers handle their own Escape first
+      if (event.key === 'Escape' && !event.defaultPrevented) {
+        cancelRepliesRef.current();
       }
+    };
 
-      // iOS Safari: reload voices on visibility change
-      const handleVisibilityChange = () => {
-        if (!document.hidden) {
-          console.log('Document became visible, reloading voices');
-          loadVoices();
-        }
-      };
-      document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [replying]);
 
-      return () => {
-        if ('onvoiceschanged' in window.speechSynthesis) {
-          window.speechSynthesis.onvoiceschanged = null;
-        }
-        document.removeEventListener('visibilitychange', handleVisibilityChange);
-      };
+  // Confident transcripts go straight out; the rest wait for the user to
+  // check them when reviewing is switched on
+  const submitTranscript = (text: string, confidence: number, recording?: Promise<RecordedAudio | null>) => {
+    if (reviewTranscripts && confidence < autoSendConfidence) {
+      setPendingTranscript(prev => ({ id: (prev?.id ?? 0) + 1, text, confidence, recording }));
+      return;
     }
-  }, []);
+    setPendingTranscript(null);
+    sendMessage(text, { confidence, recording });
+  };
 
-  const handleSpeechResult = async (text: string) => {
-    try {
-      // Add user message
-      const userMessage = { text, isUser: true };
-      setMessages(prev => [...prev, userMessage]);
-
-      // Send to API
-      const response = await fetch('http://localhost:11434/api/chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          message: text,
-          context: messages.map(m => ({ text: m.text, isUser: m.isUser })).reverse() // Reverse the context to match display order
-        }),
-      });
+  const normalize = (text: string) => normalizeTranscript(text, normalizerOptions, language);
 
-      if (!response.ok) {
-        throw new Error('API request failed');
-      }
+  // Doubtful results with several readings are offered as choices first
+  const handleVoiceResult = (recognised: RecognitionResult, recording?: Promise<RecordedAudio | null>) => {
+    const result = mapTranscripts(recognised, normalize);
+    if (needsDisambiguation(result, disambiguationThreshold)) {
+      setPendingTranscript(null);
+      setPendingChoice({ ...result, recording });
+      return;
+    }
+    setPendingChoice(null);
+    submitTranscript(result.transcript, result.confidence, recording);
+  };
 
-      const data = await response.json();
-
-      // Add AI response and trigger speech
-      const aiMessage = { text: data.message, isUser: false };
-      setMessages(prev => {
-        const updatedMessages = [...prev, aiMessage];
-        // Ensure speech synthesis is called after state update
-        setTimeout(async () => {
-          try {
-            await speakText(aiMessage.text, voices);
-          } catch (error) {
-            console.error('Failed to speak response:', error);
-          }
-        }, 100);
-        return updatedMessages;
-      });
+  const conversation = useConversationMode({
+    lang: language,
+    engine: recognitionEngine,
+    onUtterance: text => sendMessage(normalize(text)),
+    // The interrupted reply is dropped, not left streaming into the conversation
+    onBargeIn: cancelReplies,
+  });
+
+  // The reply being read out and anything waiting to be sent belong to the
+  // conversation being left
+  const leaveConversation = () => {
+    activeReplyRef.current++;
+    speech.stop();
+    setPendingChoice(null);
+    setPendingTranscript(null);
+  };
+
+  const selectConversation = (id: string) => {
+    if (id === conversations.active.id) return;
+    leaveConversation();
+    conversations.select(id);
+  };
+
+  const exportConversation = (format: ExportFormat) => {
+    const { render, type } = EXPORT_FORMATS[format];
+    const conversation = { ...conversations.active, messages: conversations.messagesOf(conversations.active.id) };
+    downloadFile(exportFileName(conversation, format), render(conversation), type);
+  };
+
+  const importConversation = async (file: File) => {
+    try {
+      const conversation = parseConversationExport(await readFileText(file));
+      setImportError(null);
+      leaveConversation();
+      conversations.add(conversation);
     } catch (error) {
-      console.error('Error in speech handling:', error);
-      setMessages(prev => [...prev, { text: 'Sorry, there was an error processing your request.', isUser: false }]);
+      console.error('Error importing conversation:', error);
+      setImportError(error instanceof ConversationImportError
+        ? `${file.name} could not be imported. ${error.message}.`
+        : `${file.name} could not be read.`);
     }
   };
 
+  const previewVoice = () => {
+    speech.stop();
+    speech.speak(VOICE_PREVIEW_TEXT, toSpeakOptions(voiceSettings, voices));
+  };
+
   return (
     <div className="App">
       <header className="App-header">
+        <button
+          type="button"
+          className="sidebar-toggle icon-button"
+          onClick={() => setSidebarOpen(open => !open)}
+          aria-label="Conversations"
+          aria-expanded={sidebarOpen}
+          title="Conversations"
+        >
+          <FaBars aria-hidden="true" />
+        </button>
         <h1>AI Voice Chat</h1>
-        <select 
-          className="model-selector" 
-          value={selectedModel} 
-          onChange={(e) => setSelectedModel(e.target.value)}
+        <button
+          type="button"
+          className="settings-button icon-button"
+          onClick={() => setSettingsOpen(open => !open)}
+          aria-label="Settings"
+          aria-expanded={settingsOpen}
+          title="Settings"
         >
-          <option value="gpt-3.5-turbo">GPT-3.5 Turbo</option>
-          <option value="gpt-4">GPT-4</option>
-        </select>
+          <FaCog aria-hidden="true" />
+        </button>
+        <ModelSelector
+          models={models}
+          selectedModel={selectedModel}
+          loading={modelsLoading}
+          error={modelsError}
+          onChange={setSelectedModel}
+          onRetry={reloadModels}
+        />
+        <PersonaSelector
+          personas={personas}
+          personaId={findPersona(personas, conversations.active.personaId)?.id ?? null}
+          onChange={choosePersona}
+        />
+        <LanguageSelector language={language} onChange={setLanguage} />
       </header>
-      <main className="chat-container">
-        <div className="messages-container" data-testid="messages-container">
-          {messages.map((msg, index) => (
-            <ChatMessage
-              key={index}
-              message={msg.text}
-              isUser={msg.isUser}
+      {settingsOpen && (
+        <SettingsPanel onClose={() => setSettingsOpen(false)}>
+          <VoiceSettingsSection
+            settings={voiceSettings}
+            voices={voices}
+            matchReplyLanguage={matchReplyLanguage}
+            onChange={setVoiceSettings}
+            onMatchReplyLanguageChange={setMatchReplyLanguage}
+            onPreview={previewVoice}
+          />
+          <GenerationSettingsSection
+            key={conversations.active.id}
+            parameters={conversations.active.parameters}
+            defaults={findPersona(personas, conversations.active.personaId)?.parameters ?? {}}
+            onChange={parameters => conversations.setParameters(conversations.active.id, parameters)}
+          />
+          <PersonaSettingsSection personas={personas} voices={voices} onChange={setPersonas} />
+          <InputSettingsSection
+            pushToTalkKey={pushToTalkKey}
+            disambiguationThreshold={disambiguationThreshold}
+            reviewTranscripts={reviewTranscripts}
+            autoSendConfidence={autoSendConfidence}
+            onPushToTalkKeyChange={setPushToTalkKey}
+            onDisambiguationThresholdChange={setDisambiguationThreshold}
+            onReviewTranscriptsChange={setReviewTranscripts}
+            onAutoSendConfidenceChange={setAutoSendConfidence}
+            recordAudio={recordAudio}
+            recordingSupported={isRecordingSupported()}
+            onRecordAudioChange={setRecordAudio}
+          />
+          <TranscriptSettingsSection options={normalizerOptions} onChange={setNormalizerOptions} />
+          <ConnectionSettingsSection base={base} overrides={overrides} onChange={setOverrides} />
+        </SettingsPanel>
+      )}
+      <div className="app-body">
+        {sidebarOpen && (
+          <ConversationSidebar
+            conversations={conversations.conversations}
+            activeId={conversations.active.id}
+            onCreate={() => {
+              leaveConversation();
+              conversations.create();
+            }}
+            onSelect={selectConversation}
+            onRename={conversations.rename}
+            onDelete={conversations.remove}
+            onExport={exportConversation}
+            onImport={importConversation}
+            importError={importError}
+          />
+        )}
+        <main className="chat-container">
+          <div className="messages-container" data-testid="messages-container">
+            {messages.map(message => (
+              <ChatMessage
+                key={message.id}
+                message={message}
+                speaking={message.id === speakingMessageId}
+                onRetry={() => retryReply(message.id)}
+                onReplay={() => replayMessage(message)}
+                onStopSpeaking={() => speech.stop()}
+                // Replies still on their way would land in a history that changed
+                onEdit={message.role === 'user' && !replying ? text => editMessage(message.id, text) : undefined}
+                onRegenerate={
+                  message.role === 'assistant' && message.status === 'done' && !replying
+                    ? () => regenerateReply(message.id)
+                    : undefined
+                }
+                onDelete={() => deleteMessage(message.id)}
+              />
+            ))}
+          </div>
+          {interimTranscript && (
+            <p className="interim-transcript" role="status" aria-label="Hearing">
+              {interimTranscript}
+            </p>
+          )}
+          {pendingChoice && (
+            <AlternativeChooser
+              key={pendingChoice.transcript}
+              alternatives={pendingChoice.alternatives}
+              onChoose={(alternative) => {
+                setPendingChoice(null);
+                sendMessage(alternative.transcript, { confidence: alternative.confidence, recording: pendingChoice.recording });
+              }}
+              onRetry={() => {
+                setPendingChoice(null);
+                voiceButtonRef.current?.listen();
+              }}
+              onDismiss={() => setPendingChoice(null)}
+            />
+          )}
+          {pendingTranscript && (
+            <TranscriptReview
+              key={pendingTranscript.id}
+              transcript={pendingTranscript.text}
+              confidence={pendingTranscript.confidence}
+              onSend={(text) => {
+                setPendingTranscript(null);
+                sendMessage(text, { confidence: pendingTranscript.confidence, recording: pendingTranscript.recording });
+              }}
+              onDiscard={() => setPendingTranscript(null)}
+            />
+          )}
+          <div className="input-container">
+            <MessageComposer
+              onSend={(text) => sendMessage(text, { speakReply: speakTypedReplies, source: 'typed' })}
+              speakReply={speakTypedReplies}
+              onSpeakReplyChange={setSpeakTypedReplies}
+              disabled={conversation.state !== 'idle'}
+            />
+            <div className="voice-input-container">
+              <VoiceButton
+                ref={voiceButtonRef}
+                onSpeechResult={handleVoiceResult}
+                onInterimTranscript={setInterimTranscript}
+                lang={language}
+                disabled={conversation.state !== 'idle'}
+                mode={inputMode}
+                pushToTalkKey={pushToTalkKey}
+                recordAudio={recordAudio}
+                engine={recognitionEngine}
+              />
+              <InputModeSelector
+                mode={inputMode}
+                onChange={setInputMode}
+                disabled={conversation.state !== 'idle'}
+              />
+            </div>
+            {replying && (
+              <button
+                type="button"
+                className="speech-control cancel-reply-button"
+                onClick={cancelReplies}
+                aria-label="Cancel reply"
+                title="Cancel reply (Esc)"
+              >
+                <FaTimes aria-hidden="true" />
+              </button>
+            )}
+            <ConversationModeButton
+              state={conversation.state}
+              onStart={conversation.start}
+              onStop={conversation.stop}
             />
-          ))}
-        </div>
-        <div className="input-container">
-          <div className="voice-input-container">
-            <VoiceButton onSpeechResult={handleSpeechResult} />
+            <SpeechControls />
           </div>
-        </div>
-      </main>
+        </main>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,62 @@
+import React, { useEffect, useRef } from 'react';
+import { RecognitionAlternative } from '../services/recognition/webSpeech';
+
+interface AlternativeChooserProps {
+  alternatives: RecognitionAlternative[];
+  onChoose: (alternative: RecognitionAlternative) => void;
+  onRetry: () => void;
+  onDismiss: () => void;
+}
+
+// Offers the recogniser's readings of a doubtful utterance so the user can
+// say which one they meant
+const AlternativeChooser: React.FC<AlternativeChooserProps> = ({ alternatives, onChoose, onRetry, onDismiss }) => {
+  const firstChoiceRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    firstChoiceRef.current?.focus();
+  }, []);
+
+  return (
+    <div
+      className="alternative-chooser"
+      role="group"
+      aria-labelledby="alternative-chooser-title"
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') {
+          e.preventDefault();
+          onDismiss();
+        }
+      }}
+    >
+      <p id="alternative-chooser-title">Did you mean…</p>
+      <ul className="alternative-list">
+        {alternatives.map((alternative, index) => (
+          <li key={alternative.transcript}>
+            <button
+              type="button"
+              className="secondary-button alternative-choice"
+              ref={index === 0 ? firstChoiceRef : undefined}
+              onClick={() => onChoose(alternative)}
+            >
+              {alternative.transcript}
+              {alternative.confidence > 0 && (
+                <span className="alternative-confidence"> ({Math.round(alternative.confidence * 100)}%)</span>
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="alternative-chooser-actions">
+        <button type="button" className="secondary-button" onClick={onRetry}>
+          Say it again
+        </button>
+        <button type="button" className="secondary-button" onClick={onDismiss}>
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AlternativeChooser;
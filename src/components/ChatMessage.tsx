@@ -1,16 +1,185 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { FaVolumeUp } from 'react-icons/fa';
+import { Message } from '../services/conversations';
+import MarkdownContent from './MarkdownContent';
+import MessageActions from './MessageActions';
+import RecordingPlayer from './RecordingPlayer';
 
 interface ChatMessageProps {
-  message: string;
-  isUser: boolean;
+  message: Message;
+  // Whether this message is being read out
+  speaking?: boolean;
+  // Offered on failed replies
+  onRetry?: () => void;
+  onReplay?: () => void;
+  onStopSpeaking?: () => void;
+  // Replaces the text of a user message and asks again from there
+  onEdit?: (text: string) => void;
+  onRegenerate?: () => void;
+  onDelete?: () => void;
 }
 
-const ChatMessage: React.FC<ChatMessageProps> = ({ message, isUser }) => {
+interface MessageEditorProps {
+  text: string;
+  onSave: (text: string) => void;
+  onCancel: () => void;
+}
+
+const SOURCE_LABELS = {
+  voice: 'Spoken',
+  typed: 'Typed',
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Enter saves, Shift+Enter adds a line and Escape cancels, as when reviewing
+// a transcript
+const MessageEditor: React.FC<MessageEditorProps> = ({ text, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(text);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    textareaRef.current?.focus();
+  }, []);
+
+  const save = () => {
+    const trimmed = draft.trim();
+    if (trimmed) {
+      onSave(trimmed);
+    }
+  };
+
+  return (
+    <form
+      className="message-editor"
+      aria-label="Edit message"
+      onSubmit={(e) => {
+        e.preventDefault();
+        save();
+      }}
+    >
+      <textarea
+        ref={textareaRef}
+        aria-label="Message text"
+        value={draft}
+        rows={3}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            save();
+          } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onCancel();
+          }
+        }}
+      />
+      <div className="message-editor-actions">
+        <button type="button" className="secondary-button" onClick={onCancel}>
+          Cancel
+        </button>
+        <button type="submit" className="secondary-button">
+          Save and resend
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const ChatMessage: React.FC<ChatMessageProps> = ({
+  message,
+  speaking = false,
+  onRetry,
+  onReplay,
+  onStopSpeaking,
+  onEdit,
+  onRegenerate,
+  onDelete,
+}) => {
+  const { role, content, status, source, confidence, model, errorKind } = message;
+  const roleClass = role === 'assistant' ? 'ai' : role;
+  const [editing, setEditing] = useState(false);
+
+  // Replies are Markdown; what the user said or typed is shown as it is
+  const renderContent = () => (role === 'assistant' ? <MarkdownContent text={content} /> : <p>{content}</p>);
+
+  const renderBody = () => {
+    if (status === 'pending') {
+      return (
+        <span className="message-pending" role="status" aria-label="Waiting for reply">
+          <span className="spinner" aria-hidden="true" />
+        </span>
+      );
+    }
+    if (status === 'error') {
+      return (
+        <div role="alert">
+          {content && renderContent()}
+          {errorKind === 'cancelled' ? (
+            <p className="message-error-title">Reply cancelled</p>
+          ) : (
+            <>
+              <p className="message-error-title">The reply failed</p>
+              {message.error && <p className="message-error-detail">{message.error}</p>}
+            </>
+          )}
+          {onRetry && (
+            <button type="button" className="secondary-button message-retry-button" onClick={onRetry}>
+              Retry
+            </button>
+          )}
+        </div>
+      );
+    }
+    return renderContent();
+  };
+
+  // Nothing can be done with a reply until it has arrived
+  const settled = status === 'done' || status === 'error';
+
   return (
-    <div className={`message-container ${isUser ? 'user' : 'ai'}`}>
-      <div className="message-bubble">
-        <p>{message}</p>
+    <div className={`message-container ${roleClass} ${status}${speaking ? ' speaking' : ''}`} data-message-id={message.id}>
+      <div
+        className="message-bubble"
+        title={confidence ? `Recognised with ${Math.round(confidence * 100)}% confidence` : undefined}
+        aria-busy={status === 'pending' || status === 'streaming'}
+      >
+        {editing && onEdit ? (
+          <MessageEditor
+            text={content}
+            onSave={(text) => {
+              setEditing(false);
+              onEdit(text);
+            }}
+            onCancel={() => setEditing(false)}
+          />
+        ) : (
+          renderBody()
+        )}
+      </div>
+      <div className="message-meta">
+        <time dateTime={new Date(message.timestamp).toISOString()}>{formatTime(message.timestamp)}</time>
+        {role === 'user' && source && <span>{SOURCE_LABELS[source]}</span>}
+        {message.audio && <RecordingPlayer audio={message.audio} />}
+        {role === 'assistant' && model && <span>{model}</span>}
+        {speaking && (
+          <span className="message-speaking">
+            <FaVolumeUp aria-hidden="true" /> Speaking
+          </span>
+        )}
       </div>
+      {settled && !editing && (
+        <MessageActions
+          text={content}
+          speaking={speaking}
+          onReplay={content ? onReplay : undefined}
+          onStopSpeaking={onStopSpeaking}
+          onEdit={onEdit && (() => setEditing(true))}
+          onRegenerate={onRegenerate}
+          onDelete={onDelete}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,37 @@
+import React, { useMemo } from 'react';
+import { FaCheck, FaCopy } from 'react-icons/fa';
+import { useClipboard } from '../hooks/useClipboard';
+import { highlightCode, languageName } from '../utils/highlight';
+
+interface CodeBlockProps {
+  code: string;
+  language: string;
+}
+
+const CodeBlock: React.FC<CodeBlockProps> = ({ code, language }) => {
+  const { copied, copy } = useClipboard();
+  const tokens = useMemo(() => highlightCode(code, language), [code, language]);
+
+  return (
+    <figure className="code-block">
+      <figcaption className="code-block-header">
+        <span className="code-block-language">{languageName(language) || 'Code'}</span>
+        {copied && <span role="status">Copied</span>}
+        <button type="button" className="icon-button code-copy-button" aria-label="Copy code" title="Copy code" onClick={() => copy(code)}>
+          {copied ? <FaCheck aria-hidden="true" /> : <FaCopy aria-hidden="true" />}
+        </button>
+      </figcaption>
+      <pre>
+        <code className={language ? `language-${language}` : undefined}>
+          {tokens.map((token, index) => (
+            <span key={index} className={token.kind === 'plain' ? undefined : `token-${token.kind}`}>
+              {token.text}
+            </span>
+          ))}
+        </code>
+      </pre>
+    </figure>
+  );
+};
+
+export default CodeBlock;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { ConfigIssue, formatConfigIssue } from '../services/config';
+
+interface ConfigErrorScreenProps {
+  issues: ConfigIssue[];
+  // Offered when the user's own saved settings are at fault
+  onResetSettings?: () => void;
+}
+
+// Shown instead of the app when its configuration cannot be used
+const ConfigErrorScreen: React.FC<ConfigErrorScreenProps> = ({ issues, onResetSettings }) => (
+  <main className="config-error" aria-labelledby="config-error-title">
+    <h1 id="config-error-title">The app is not configured correctly</h1>
+    <p>Fix the settings below and reload the page.</p>
+    <ul>
+      {issues.map((issue, index) => (
+        <li key={index}>{formatConfigIssue(issue)}</li>
+      ))}
+    </ul>
+    <div className="config-error-actions">
+      {onResetSettings && (
+        <button type="button" className="secondary-button" onClick={onResetSettings}>
+          Reset my settings
+        </button>
+      )}
+      <button type="button" className="secondary-button" onClick={() => window.location.reload()}>
+        Reload
+      </button>
+    </div>
+  </main>
+);
+
+export default ConfigErrorScreen;
@@ -0,0 +1,84 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ConfigContext, ConfigState } from '../hooks/useConfig';
+import { usePersistentState } from '../hooks/usePersistentState';
+import {
+  ConfigIssue,
+  ConfigLayer,
+  ConfigValues,
+  loadRuntimeConfig,
+  readEnvironment,
+  resolveConfig,
+  RuntimeConfig,
+  validateValues
+} from '../services/config';
+import ConfigErrorScreen from './ConfigErrorScreen';
+
+interface ConfigProviderProps {
+  children: React.ReactNode;
+  // Where config.json is fetched from; the app's own copy by default
+  runtimeConfigUrl?: string;
+}
+
+// Resolves the configuration in layers (build-time environment, then
+// config.json, then the user's own settings) before rendering the app, and
+// shows what is wrong instead when any layer is invalid
+const ConfigProvider: React.FC<ConfigProviderProps> = ({ children, runtimeConfigUrl }) => {
+  const [runtime, setRuntime] = useState<RuntimeConfig | null>(null);
+  const [storedOverrides, setStoredOverrides] = usePersistentState<unknown>('configOverrides', {});
+
+  useEffect(() => {
+    let cancelled = false;
+    loadRuntimeConfig(runtimeConfigUrl).then(result => {
+      if (!cancelled) {
+        setRuntime(result);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [runtimeConfigUrl]);
+
+  const resolved = useMemo(() => {
+    if (!runtime) return null;
+
+    const deployment: ConfigLayer[] = [{ source: 'environment', values: readEnvironment() }];
+    const issues: ConfigIssue[] = [];
+    if (runtime.status === 'loaded') {
+      deployment.push({ source: 'config.json', values: runtime.values });
+    } else if (runtime.status === 'failed') {
+      issues.push({ source: 'config.json', key: '', message: runtime.message });
+    }
+
+    const base = resolveConfig(deployment);
+    const overrides = validateValues(storedOverrides, 'settings');
+    return {
+      base: base.config,
+      config: { ...base.config, ...overrides.values },
+      overrides: overrides.values,
+      issues: [...issues, ...base.issues, ...overrides.issues],
+    };
+  }, [runtime, storedOverrides]);
+
+  const state = useMemo<ConfigState | null>(() => resolved && {
+    config: resolved.config,
+    base: resolved.base,
+    overrides: resolved.overrides,
+    setOverrides: (overrides: ConfigValues) => setStoredOverrides(overrides),
+  }, [resolved, setStoredOverrides]);
+
+  if (!resolved || !state) {
+    return <p className="config-loading" role="status">Loading…</p>;
+  }
+  if (resolved.issues.length > 0) {
+    const settingsAtFault = resolved.issues.some(issue => issue.source === 'settings');
+    return (
+      <ConfigErrorScreen
+        issues={resolved.issues}
+        onResetSettings={settingsAtFault ? () => setStoredOverrides({}) : undefined}
+      />
+    );
+  }
+  return <ConfigContext.Provider value={state}>{children}</ConfigContext.Provider>;
+};
+
+export default ConfigProvider;
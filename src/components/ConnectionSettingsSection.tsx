@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { AppConfig, ConfigValues, diffConfig, validateValues } from '../services/config';
+
+interface ConnectionSettingsSectionProps {
+  // What the deployment configured, which these settings go over
+  base: AppConfig;
+  overrides: ConfigValues;
+  onChange: (overrides: ConfigValues) => void;
+}
+
+type ConnectionInputs = Pick<
+  Record<keyof AppConfig, string>,
+  | 'chatBackend' | 'chatBaseUrl' | 'apiKey' | 'defaultModel'
+  | 'recognitionEngine' | 'transcriptionBaseUrl' | 'transcriptionModel'
+  | 'speechEngine' | 'speechBaseUrl' | 'speechModel' | 'speechVoices'
+>;
+
+type ConnectionErrors = Partial<Record<keyof ConnectionInputs, string>>;
+
+const BACKENDS = [
+  { kind: 'ollama', label: 'Ollama' },
+  { kind: 'openai', label: 'OpenAI-compatible' },
+  { kind: 'legacy', label: 'Legacy' },
+];
+
+const RECOGNITION_ENGINES = [
+  { kind: 'auto', label: 'Automatic' },
+  { kind: 'web-speech', label: 'Browser (Web Speech)' },
+  { kind: 'whisper', label: 'Transcription server' },
+];
+
+const SPEECH_ENGINES = [
+  { kind: 'browser', label: 'Browser voices' },
+  { kind: 'http', label: 'Speech server' },
+];
+
+const toInputs = (config: AppConfig): ConnectionInputs => ({
+  chatBackend: config.chatBackend,
+  chatBaseUrl: config.chatBaseUrl,
+  apiKey: config.apiKey ?? '',
+  defaultModel: config.defaultModel,
+  recognitionEngine: config.recognitionEngine,
+  transcriptionBaseUrl: config.transcriptionBaseUrl ?? '',
+  transcriptionModel: config.transcriptionModel,
+  speechEngine: config.speechEngine,
+  speechBaseUrl: config.speechBaseUrl ?? '',
+  speechModel: config.speechModel,
+  speechVoices: config.speechVoices,
+});
+
+const ConnectionSettingsSection: React.FC<ConnectionSettingsSectionProps> = ({ base, overrides, onChange }) => {
+  const [inputs, setInputs] = useState(() => toInputs({ ...base, ...overrides }));
+  const [errors, setErrors] = useState<ConnectionErrors>({});
+
+  const update = (key: keyof ConnectionInputs, value: string) => setInputs({ ...inputs, [key]: value });
+
+  const fieldProps = (key: keyof ConnectionInputs) => ({
+    id: `connection-${key}`,
+    value: inputs[key],
+    'aria-invalid': Boolean(errors[key]),
+    'aria-describedby': errors[key] ? `connection-${key}-error` : undefined,
+  });
+
+  const errorMessage = (key: keyof ConnectionInputs) =>
+    errors[key] && (
+      <span id={`connection-${key}-error`} className="field-error" role="alert">
+        {errors[key]}
+      </span>
+    );
+
+  return (
+    <section className="settings-section" aria-labelledby="connection-settings-title">
+      <h3 id="connection-settings-title">Connection</h3>
+      <form
+        aria-label="Connection"
+        onSubmit={(e) => {
+          e.preventDefault();
+          const { values, issues } = validateValues(inputs, 'settings');
+          const fieldErrors: ConnectionErrors = {};
+          issues.forEach(issue => {
+            fieldErrors[issue.key as keyof ConnectionInputs] = `This ${issue.message}`;
+          });
+          setErrors(fieldErrors);
+          if (issues.length > 0) return;
+          // Only what differs from the deployment is kept, so the rest follows it
+          onChange(diffConfig(base, { ...overrides, ...values }));
+        }}
+      >
+        <div className="settings-row">
+          <label htmlFor="connection-chatBackend">Backend</label>
+          <select {...fieldProps('chatBackend')} onChange={(e) => update('chatBackend', e.target.value)}>
+            {BACKENDS.map(({ kind, label }) => (
+              <option key={kind} value={kind}>{label}</option>
+            ))}
+          </select>
+          {errorMessage('chatBackend')}
+        </div>
+        <div className="settings-row">
+          <label htmlFor="connection-chatBaseUrl">Server URL</label>
+          <input {...fieldProps('chatBaseUrl')} type="url" onChange={(e) => update('chatBaseUrl', e.target.value)} />
+          {errorMessage('chatBaseUrl')}
+        </div>
+        <div className="settings-row">
+          <label htmlFor="connection-apiKey">API key</label>
+          <input
+            {...fieldProps('apiKey')}
+            type="password"
+            autoComplete="off"
+            placeholder="None"
+            onChange={(e) => update('apiKey', e.target.value)}
+          />
+          {errorMessage('apiKey')}
+        </div>
+        <div className="settings-row">
+          <label htmlFor="connection-defaultModel">Default model</label>
+          <input {...fieldProps('defaultModel')} type="text" onChange={(e) => update('defaultModel', e.target.value)} />
+          {errorMessage('defaultModel')}
+        </div>
+        <div className="settings-row">
+          <label htmlFor="connection-recognitionEngine">Speech recognition</label>
+          <select {...fieldProps('recognitionEngine')} onChange={(e) => update('recognitionEngine', e.target.value)}>
+            {RECOGNITION_ENGINES.map(({ kind, label }) => (
+              <option key={kind} value={kind}>{label}</option>
+            ))}
+          </select>
+          {errorMessage('recognitionEngine')}
+        </div>
+        <div className="settings-row">
+          <label htmlFor="connection-transcriptionBaseUrl">Transcription server URL</label>
+          <input
+            {...fieldProps('transcriptionBaseUrl')}
+            type="url"
+            placeholder="Same as server URL"
+            onChange={(e) => update('transcriptionBaseUrl', e.target.value)}
+          />
+          {errorMessage('transcriptionBaseUrl')}
+        </div>
+        <div className="settings-row">
+          <label htmlFor="connection-transcriptionModel">Transcription model</label>
+          <input
+            {...fieldProps('transcriptionModel')}
+            type="text"
+            onChange={(e) => update('transcriptionModel', e.target.value)}
+          />
+          {errorMessage('transcriptionModel')}
+        </div>
+        <div className="settings-row">
+          <label htmlFor="connection-speechEngine">Speech output</label>
+          <select {...fieldProps('speechEngine')} onChange={(e) => update('speechEngine', e.target.value)}>
+            {SPEECH_ENGINES.map(({ kind, label }) => (
+              <option key={kind} value={kind}>{label}</option>
+            ))}
+          </select>
+          {errorMessage('speechEngine')}
+        </div>
+        <div className="settings-row">
+          <label htmlFor="connection-speechBaseUrl">Speech server URL</label>
+          <input
+            {...fieldProps('speechBaseUrl')}
+            type="url"
+            placeholder="Same as server URL"
+            onChange={(e) => update('speechBaseUrl', e.target.value)}
+          />
+          {errorMessage('speechBaseUrl')}
+        </div>
+        <div className="settings-row">
+          <label htmlFor="connection-speechModel">Speech model</label>
+          <input {...fieldProps('speechModel')} type="text" onChange={(e) => update('speechModel', e.target.value)} />
+          {errorMessage('speechModel')}
+        </div>
+        <div className="settings-row">
+          <label htmlFor="connection-speechVoices">Speech server voices</label>
+          <input
+            {...fieldProps('speechVoices')}
+            type="text"
+            placeholder="alloy, nova"
+            onChange={(e) => update('speechVoices', e.target.value)}
+          />
+          {errorMessage('speechVoices')}
+        </div>
+        <div className="settings-row">
+          <button type="submit" className="secondary-button">Save connection</button>
+          <button
+            type="button"
+            className="secondary-button"
+            onClick={() => {
+              setInputs(toInputs(base));
+              setErrors({});
+              onChange({});
+            }}
+          >
+            Use deployment settings
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+};
+
+export default ConnectionSettingsSection;
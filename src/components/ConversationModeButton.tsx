@@ -0,0 +1,41 @@
+import React from 'react';
+import { FaHeadset } from 'react-icons/fa';
+import { ConversationState } from '../utils/conversationMachine';
+
+interface ConversationModeButtonProps {
+  state: ConversationState;
+  onStart: () => void;
+  onStop: () => void;
+}
+
+const STATUS_TEXT: Record<ConversationState, string> = {
+  idle: '',
+  listening: 'Listening…',
+  thinking: 'Thinking…',
+  speaking: 'Speaking… (talk to interrupt)',
+};
+
+const ConversationModeButton: React.FC<ConversationModeButtonProps> = ({ state, onStart, onStop }) => {
+  const active = state !== 'idle';
+  const label = active ? 'End conversation' : 'Start conversation';
+
+  return (
+    <div className="conversation-mode">
+      <button
+        type="button"
+        className={`conversation-button ${active ? 'active' : ''}`}
+        onClick={active ? onStop : onStart}
+        aria-pressed={active}
+        aria-label={label}
+        title={label}
+      >
+        <FaHeadset aria-hidden="true" />
+      </button>
+      <span className={`conversation-status ${state}`} role="status" aria-live="polite">
+        {STATUS_TEXT[state]}
+      </span>
+    </div>
+  );
+};
+
+export default ConversationModeButton;
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { FaCheck, FaFileImport, FaPen, FaPlus, FaTimes, FaTrash } from 'react-icons/fa';
+import { Conversation, conversationTitle, ExportFormat } from '../services/conversations';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeId: string;
+  onCreate: () => void;
+  onSelect: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  // Downloads the active conversation
+  onExport: (format: ExportFormat) => void;
+  onImport: (file: File) => void;
+  // Why the last import failed
+  importError?: string | null;
+}
+
+const EXPORT_LABELS: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'markdown', label: 'Markdown', description: 'Export as Markdown' },
+  { format: 'json', label: 'JSON', description: 'Export as JSON' },
+  { format: 'transcript', label: 'Transcript', description: 'Export as a timestamped transcript' },
+];
+
+interface RenameFormProps {
+  initialTitle: string;
+  onSave: (title: string) => void;
+  onCancel: () => void;
+}
+
+const RenameForm: React.FC<RenameFormProps> = ({ initialTitle, onSave, onCancel }) => {
+  const [title, setTitle] = useState(initialTitle);
+
+  return (
+    <form
+      className="conversation-rename"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave(title);
+      }}
+    >
+      <input
+        type="text"
+        aria-label="Conversation title"
+        value={title}
+        autoFocus
+        onChange={(e) => setTitle(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') {
+            e.preventDefault();
+            e.stopPropagation();
+            onCancel();
+          }
+        }}
+      />
+      <button type="submit" className="icon-button" aria-label="Save title">
+        <FaCheck aria-hidden="true" />
+      </button>
+      <button type="button" className="icon-button" aria-label="Cancel renaming" onClick={onCancel}>
+        <FaTimes aria-hidden="true" />
+      </button>
+    </form>
+  );
+};
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  conversations,
+  activeId,
+  onCreate,
+  onSelect,
+  onRename,
+  onDelete,
+  onExport,
+  onImport,
+  importError
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+  const canExport = conversations.some(conversation => conversation.id === activeId && conversation.messages.length > 0);
+
+  return (
+    <nav className="conversation-sidebar" aria-label="Conversations">
+      <button type="button" className="secondary-button new-conversation-button" onClick={onCreate}>
+        <FaPlus aria-hidden="true" /> New conversation
+      </button>
+      <ul className="conversation-list">
+        {conversations.map(conversation => {
+          const title = conversationTitle(conversation);
+          const isActive = conversation.id === activeId;
+
+          if (renamingId === conversation.id) {
+            return (
+              <li key={conversation.id} className="conversation-item active">
+                <RenameForm
+                  initialTitle={title}
+                  onSave={(newTitle) => {
+                    onRename(conversation.id, newTitle);
+                    setRenamingId(null);
+                  }}
+                  onCancel={() => setRenamingId(null)}
+                />
+              </li>
+            );
+          }
+
+          return (
+            <li key={conversation.id} className={`conversation-item ${isActive ? 'active' : ''}`}>
+              <button
+                type="button"
+                className="conversation-link"
+                aria-current={isActive ? 'page' : undefined}
+                onClick={() => onSelect(conversation.id)}
+                title={title}
+              >
+                {title}
+              </button>
+              {confirmingDeleteId === conversation.id ? (
+                <span className="conversation-actions">
+                  <button
+                    type="button"
+                    className="icon-button danger"
+                    aria-label={`Confirm deleting ${title}`}
+                    onClick={() => {
+                      onDelete(conversation.id);
+                      setConfirmingDeleteId(null);
+                    }}
+                  >
+                    <FaCheck aria-hidden="true" />
+                  </button>
+                  <button
+                    type="button"
+                    className="icon-button"
+                    aria-label="Keep conversation"
+                    onClick={() => setConfirmingDeleteId(null)}
+                  >
+                    <FaTimes aria-hidden="true" />
+                  </button>
+                </span>
+              ) : (
+                <span className="conversation-actions">
+                  <button
+                    type="button"
+                    className="icon-button"
+                    aria-label={`Rename ${title}`}
+                    title="Rename"
+                    onClick={() => setRenamingId(conversation.id)}
+                  >
+                    <FaPen aria-hidden="true" />
+                  </button>
+                  <button
+                    type="button"
+                    className="icon-button"
+                    aria-label={`Delete ${title}`}
+                    title="Delete"
+                    onClick={() => setConfirmingDeleteId(conversation.id)}
+                  >
+                    <FaTrash aria-hidden="true" />
+                  </button>
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      <div className="conversation-transfer">
+        <div className="conversation-export" role="group" aria-label="Export conversation">
+          <span>Export</span>
+          {EXPORT_LABELS.map(({ format, label, description }) => (
+            <button
+              key={format}
+              type="button"
+              className="secondary-button"
+              aria-label={description}
+              title={description}
+              disabled={!canExport}
+              onClick={() => onExport(format)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <label className="secondary-button conversation-import">
+          <FaFileImport aria-hidden="true" /> Import conversation
+          <input
+            type="file"
+            className="sr-only"
+            accept="application/json,.json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              // Cleared so the same file can be picked again
+              e.target.value = '';
+              if (file) {
+                onImport(file);
+              }
+            }}
+          />
+        </label>
+        {importError && <p className="field-error" role="alert">{importError}</p>}
+      </div>
+    </nav>
+  );
+};
+
+export default ConversationSidebar;
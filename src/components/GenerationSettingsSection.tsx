@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import {
+  EMPTY_PARAMETER_INPUTS,
+  hasParameterErrors,
+  ModelParameters,
+  ParameterErrors,
+  parseParameterInputs,
+  toParameterInputs
+} from '../services/chat';
+import ModelParameterFields from './ModelParameterFields';
+
+interface GenerationSettingsSectionProps {
+  // The conversation's own parameters; undefined when it uses the defaults
+  parameters: ModelParameters | undefined;
+  // From the conversation's persona, shown as placeholders
+  defaults: ModelParameters;
+  onChange: (parameters: ModelParameters | undefined) => void;
+}
+
+// Keyed by conversation in App, so switching conversations starts afresh
+const GenerationSettingsSection: React.FC<GenerationSettingsSectionProps> = ({ parameters, defaults, onChange }) => {
+  const [inputs, setInputs] = useState(() => toParameterInputs(parameters));
+  const [errors, setErrors] = useState<ParameterErrors>({});
+
+  // Valid changes apply straight away; invalid ones wait to be corrected
+  const update = (next: typeof inputs) => {
+    setInputs(next);
+    const parsed = parseParameterInputs(next);
+    setErrors(parsed.errors);
+    if (!hasParameterErrors(parsed.errors)) {
+      onChange(Object.keys(parsed.parameters).length > 0 ? parsed.parameters : undefined);
+    }
+  };
+
+  return (
+    <section className="settings-section" aria-labelledby="generation-settings-title">
+      <h3 id="generation-settings-title">Generation for this conversation</h3>
+      <ModelParameterFields idPrefix="generation" inputs={inputs} errors={errors} defaults={defaults} onChange={update} />
+      <div className="settings-row">
+        <button
+          type="button"
+          className="secondary-button"
+          onClick={() => {
+            setInputs(EMPTY_PARAMETER_INPUTS);
+            setErrors({});
+            onChange(undefined);
+          }}
+        >
+          Reset to defaults
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default GenerationSettingsSection;
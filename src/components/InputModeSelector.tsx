@@ -0,0 +1,35 @@
+import React from 'react';
+import { InputMode } from './VoiceButton';
+
+interface InputModeSelectorProps {
+  mode: InputMode;
+  onChange: (mode: InputMode) => void;
+  disabled?: boolean;
+}
+
+const OPTIONS: { value: InputMode; label: string }[] = [
+  { value: 'click', label: 'Click' },
+  { value: 'push-to-talk', label: 'Hold' },
+];
+
+const InputModeSelector: React.FC<InputModeSelectorProps> = ({ mode, onChange, disabled = false }) => {
+  return (
+    <fieldset className="input-mode-selector" disabled={disabled}>
+      <legend className="sr-only">Voice input mode</legend>
+      {OPTIONS.map(option => (
+        <label key={option.value} className={mode === option.value ? 'selected' : ''}>
+          <input
+            type="radio"
+            name="input-mode"
+            value={option.value}
+            checked={mode === option.value}
+            onChange={() => onChange(option.value)}
+          />
+          {option.label}
+        </label>
+      ))}
+    </fieldset>
+  );
+};
+
+export default InputModeSelector;
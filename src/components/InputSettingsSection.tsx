@@ -0,0 +1,125 @@
+import React, { useRef, useState } from 'react';
+import { describeKeyCode } from '../utils/keys';
+
+interface InputSettingsSectionProps {
+  pushToTalkKey: string;
+  // Below this confidence (0 to 1) the recogniser's readings are offered as choices
+  disambiguationThreshold: number;
+  reviewTranscripts: boolean;
+  // Transcripts at or above this confidence (0 to 1) skip the review
+  autoSendConfidence: number;
+  onPushToTalkKeyChange: (code: string) => void;
+  onDisambiguationThresholdChange: (confidence: number) => void;
+  onReviewTranscriptsChange: (enabled: boolean) => void;
+  onAutoSendConfidenceChange: (confidence: number) => void;
+  // Keep a recording of each spoken message
+  recordAudio: boolean;
+  recordingSupported: boolean;
+  onRecordAudioChange: (enabled: boolean) => void;
+}
+
+const InputSettingsSection: React.FC<InputSettingsSectionProps> = ({
+  pushToTalkKey,
+  disambiguationThreshold,
+  reviewTranscripts,
+  autoSendConfidence,
+  onPushToTalkKeyChange,
+  onDisambiguationThresholdChange,
+  onReviewTranscriptsChange,
+  onAutoSendConfidenceChange,
+  recordAudio,
+  recordingSupported,
+  onRecordAudioChange
+}) => {
+  const [capturing, setCapturing] = useState(false);
+  // Space and Enter would otherwise "click" the button again on key up
+  const justCapturedRef = useRef(false);
+
+  return (
+    <section className="settings-section" aria-labelledby="input-settings-title">
+      <h3 id="input-settings-title">Voice input</h3>
+      <div className="settings-row">
+        <span id="push-to-talk-key-label">Push-to-talk key</span>
+        <button
+          type="button"
+          className="secondary-button key-capture"
+          aria-labelledby="push-to-talk-key-label"
+          aria-describedby="push-to-talk-key-value"
+          onClick={() => setCapturing(true)}
+          onBlur={() => setCapturing(false)}
+          onKeyDown={(e) => {
+            if (!capturing) return;
+            e.preventDefault();
+            e.stopPropagation();
+            if (e.key !== 'Escape') {
+              onPushToTalkKeyChange(e.code);
+            }
+            justCapturedRef.current = true;
+            setCapturing(false);
+          }}
+          onKeyUp={(e) => {
+            if (justCapturedRef.current) {
+              e.preventDefault();
+              justCapturedRef.current = false;
+            }
+          }}
+        >
+          {capturing ? 'Press a key…' : 'Change'}
+        </button>
+        <kbd id="push-to-talk-key-value">{describeKeyCode(pushToTalkKey)}</kbd>
+      </div>
+      <div className="settings-row">
+        <label htmlFor="disambiguation-threshold">Offer alternatives below</label>
+        <input
+          id="disambiguation-threshold"
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={disambiguationThreshold}
+          onChange={(e) => onDisambiguationThresholdChange(Number(e.target.value))}
+        />
+        <output htmlFor="disambiguation-threshold">{Math.round(disambiguationThreshold * 100)}%</output>
+      </div>
+      <div className="settings-row">
+        <input
+          id="review-transcripts"
+          type="checkbox"
+          checked={reviewTranscripts}
+          onChange={(e) => onReviewTranscriptsChange(e.target.checked)}
+        />
+        <label htmlFor="review-transcripts">Review transcripts before sending</label>
+      </div>
+      <div className="settings-row">
+        <label htmlFor="auto-send-confidence">Auto-send above</label>
+        <input
+          id="auto-send-confidence"
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={autoSendConfidence}
+          disabled={!reviewTranscripts}
+          onChange={(e) => onAutoSendConfidenceChange(Number(e.target.value))}
+        />
+        <output htmlFor="auto-send-confidence">{Math.round(autoSendConfidence * 100)}%</output>
+      </div>
+      <div className="settings-row">
+        <input
+          id="record-audio"
+          type="checkbox"
+          checked={recordAudio && recordingSupported}
+          disabled={!recordingSupported}
+          aria-describedby={recordingSupported ? undefined : 'record-audio-unsupported'}
+          onChange={(e) => onRecordAudioChange(e.target.checked)}
+        />
+        <label htmlFor="record-audio">Keep a recording of what I say</label>
+      </div>
+      {!recordingSupported && (
+        <p id="record-audio-unsupported" className="settings-note">This browser cannot record audio.</p>
+      )}
+    </section>
+  );
+};
+
+export default InputSettingsSection;
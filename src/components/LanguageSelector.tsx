@@ -0,0 +1,26 @@
+import React from 'react';
+import { SUPPORTED_LANGUAGES } from '../utils/languages';
+
+interface LanguageSelectorProps {
+  language: string;
+  onChange: (language: string) => void;
+}
+
+const LanguageSelector: React.FC<LanguageSelectorProps> = ({ language, onChange }) => {
+  return (
+    <select
+      className="language-selector"
+      aria-label="Language"
+      value={language}
+      onChange={(e) => onChange(e.target.value)}
+    >
+      {SUPPORTED_LANGUAGES.map(option => (
+        <option key={option.code} value={option.code} lang={option.code}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default LanguageSelector;
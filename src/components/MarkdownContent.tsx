@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from 'react';
+import { Block, createStreamingMarkdownParser, Inline } from '../utils/markdown';
+import CodeBlock from './CodeBlock';
+
+interface MarkdownContentProps {
+  text: string;
+}
+
+const renderInline = (nodes: Inline[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case 'code':
+        return <code key={index}>{node.text}</code>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'strike':
+        return <del key={index}>{renderInline(node.children)}</del>;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer">
+            {renderInline(node.children)}
+          </a>
+        );
+      case 'break':
+        return <br key={index} />;
+    }
+    return null;
+  });
+
+// A list item holding a single paragraph is shown without one, as a tight list
+const renderListItem = (blocks: Block[]): React.ReactNode =>
+  blocks.length === 1 && blocks[0].type === 'paragraph' ? renderInline(blocks[0].children) : renderBlocks(blocks);
+
+const renderBlocks = (blocks: Block[]): React.ReactNode[] =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children)}</p>;
+      case 'heading':
+        return React.createElement(`h${block.level}`, { key: index }, renderInline(block.children));
+      case 'code':
+        return <CodeBlock key={index} code={block.code} language={block.language} />;
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderListItem(item)}</li>);
+        return block.ordered
+          ? <ol key={index} start={block.start === 1 ? undefined : block.start}>{items}</ol>
+          : <ul key={index}>{items}</ul>;
+      }
+      case 'quote':
+        return <blockquote key={index}>{renderBlocks(block.children)}</blockquote>;
+      case 'table':
+        return (
+          <div key={index} className="markdown-table">
+            <table>
+              <thead>
+                <tr>
+                  {block.header.map((cell, column) => (
+                    <th key={column} style={{ textAlign: block.align[column] ?? undefined }}>{renderInline(cell)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((cell, column) => (
+                      <td key={column} style={{ textAlign: block.align[column] ?? undefined }}>{renderInline(cell)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'rule':
+        return <hr key={index} />;
+    }
+    return null;
+  });
+
+// Renders a reply's Markdown. Everything goes through React elements, never
+// innerHTML, so markup the model writes cannot inject anything. While a reply
+// streams in, only its last blocks are parsed again for each new token.
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ text }) => {
+  const [parse] = useState(() => createStreamingMarkdownParser());
+  const blocks = useMemo(() => parse(text), [parse, text]);
+  return <div className="markdown-content">{renderBlocks(blocks)}</div>;
+};
+
+export default MarkdownContent;
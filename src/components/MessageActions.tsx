@@ -0,0 +1,62 @@
+import React from 'react';
+import { FaCheck, FaCopy, FaPen, FaRedo, FaStop, FaTrash, FaVolumeUp } from 'react-icons/fa';
+import { useClipboard } from '../hooks/useClipboard';
+
+interface MessageActionsProps {
+  text: string;
+  speaking: boolean;
+  onReplay?: () => void;
+  onStopSpeaking?: () => void;
+  onEdit?: () => void;
+  onRegenerate?: () => void;
+  onDelete?: () => void;
+}
+
+interface ActionProps {
+  label: string;
+  icon: React.ReactNode;
+  onClick: () => void;
+}
+
+const Action: React.FC<ActionProps> = ({ label, icon, onClick }) => (
+  <button type="button" className="icon-button message-action" aria-label={label} title={label} onClick={onClick}>
+    {icon}
+  </button>
+);
+
+// Buttons under a message; only the actions given a handler are offered
+const MessageActions: React.FC<MessageActionsProps> = ({
+  text,
+  speaking,
+  onReplay,
+  onStopSpeaking,
+  onEdit,
+  onRegenerate,
+  onDelete,
+}) => {
+  const { copied, copy } = useClipboard();
+
+  return (
+    <div className="message-actions" role="group" aria-label="Message actions">
+      {speaking && onStopSpeaking && (
+        <Action label="Stop reading" icon={<FaStop aria-hidden="true" />} onClick={onStopSpeaking} />
+      )}
+      {!speaking && onReplay && (
+        <Action label="Read aloud" icon={<FaVolumeUp aria-hidden="true" />} onClick={onReplay} />
+      )}
+      {text && (
+        <Action
+          label="Copy message"
+          icon={copied ? <FaCheck aria-hidden="true" /> : <FaCopy aria-hidden="true" />}
+          onClick={() => copy(text)}
+        />
+      )}
+      {onEdit && <Action label="Edit message" icon={<FaPen aria-hidden="true" />} onClick={onEdit} />}
+      {onRegenerate && <Action label="Regenerate reply" icon={<FaRedo aria-hidden="true" />} onClick={onRegenerate} />}
+      {onDelete && <Action label="Delete message" icon={<FaTrash aria-hidden="true" />} onClick={onDelete} />}
+      {copied && <span className="sr-only" role="status">Copied</span>}
+    </div>
+  );
+};
+
+export default MessageActions;
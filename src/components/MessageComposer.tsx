@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { FaPaperPlane, FaVolumeMute, FaVolumeUp } from 'react-icons/fa';
+
+interface MessageComposerProps {
+  onSend: (text: string) => void;
+  // Whether the reply to a typed message is read aloud; remembered between
+  // messages but can be flipped for each one
+  speakReply: boolean;
+  onSpeakReplyChange: (speak: boolean) => void;
+  disabled?: boolean;
+}
+
+const MessageComposer: React.FC<MessageComposerProps> = ({
+  onSend,
+  speakReply,
+  onSpeakReplyChange,
+  disabled = false
+}) => {
+  const [text, setText] = useState('');
+  const canSend = !disabled && text.trim() !== '';
+
+  const send = () => {
+    if (!canSend) return;
+    onSend(text.trim());
+    setText('');
+  };
+
+  const speakLabel = speakReply ? 'Reply will be spoken' : 'Reply will not be spoken';
+
+  return (
+    <form
+      className="message-composer"
+      aria-label="Send a message"
+      onSubmit={(e) => {
+        e.preventDefault();
+        send();
+      }}
+    >
+      <textarea
+        className="message-composer-input"
+        aria-label="Message"
+        placeholder="Type a message…"
+        value={text}
+        rows={1}
+        disabled={disabled}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          // Enter sends, Shift+Enter adds a new line; leave IME composition alone
+          if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+            e.preventDefault();
+            send();
+          }
+        }}
+      />
+      <button
+        type="button"
+        className="icon-button speak-reply-toggle"
+        onClick={() => onSpeakReplyChange(!speakReply)}
+        aria-pressed={speakReply}
+        aria-label="Speak reply"
+        title={speakLabel}
+      >
+        {speakReply ? <FaVolumeUp aria-hidden="true" /> : <FaVolumeMute aria-hidden="true" />}
+      </button>
+      <button
+        type="submit"
+        className="icon-button send-button"
+        disabled={!canSend}
+        aria-label="Send message"
+        title="Send message"
+      >
+        <FaPaperPlane aria-hidden="true" />
+      </button>
+    </form>
+  );
+};
+
+export default MessageComposer;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { ModelParameters, NumericParameter, PARAMETER_LIMITS, ParameterErrors, ParameterInputs } from '../services/chat';
+
+interface ModelParameterFieldsProps {
+  // Prefixes the field ids so several sets can share a page
+  idPrefix: string;
+  inputs: ParameterInputs;
+  errors: ParameterErrors;
+  // Values that apply while a field is empty
+  defaults?: ModelParameters;
+  onChange: (inputs: ParameterInputs) => void;
+}
+
+const NUMERIC_FIELDS: { key: NumericParameter; label: string }[] = [
+  { key: 'temperature', label: 'Temperature' },
+  { key: 'topP', label: 'Top P' },
+  { key: 'maxTokens', label: 'Max tokens' },
+];
+
+const ModelParameterFields: React.FC<ModelParameterFieldsProps> = ({ idPrefix, inputs, errors, defaults = {}, onChange }) => {
+  const errorMessage = (key: keyof ParameterInputs) =>
+    errors[key] && (
+      <span id={`${idPrefix}-${key}-error`} className="field-error" role="alert">
+        {errors[key]}
+      </span>
+    );
+
+  return (
+    <>
+      {NUMERIC_FIELDS.map(({ key, label }) => (
+        <div className="settings-row" key={key}>
+          <label htmlFor={`${idPrefix}-${key}`}>{label}</label>
+          <input
+            id={`${idPrefix}-${key}`}
+            type="number"
+            min={PARAMETER_LIMITS[key].min}
+            max={PARAMETER_LIMITS[key].max}
+            step={PARAMETER_LIMITS[key].step}
+            placeholder={defaults[key]?.toString() ?? 'Model default'}
+            value={inputs[key]}
+            aria-invalid={Boolean(errors[key])}
+            aria-describedby={errors[key] ? `${idPrefix}-${key}-error` : undefined}
+            onChange={(e) => onChange({ ...inputs, [key]: e.target.value })}
+          />
+          {errorMessage(key)}
+        </div>
+      ))}
+      <label htmlFor={`${idPrefix}-stop`}>Stop sequences (one per line)</label>
+      <textarea
+        id={`${idPrefix}-stop`}
+        className="stop-sequences"
+        rows={2}
+        placeholder={defaults.stop?.join('\n') ?? 'None'}
+        value={inputs.stop}
+        aria-invalid={Boolean(errors.stop)}
+        aria-describedby={errors.stop ? `${idPrefix}-stop-error` : undefined}
+        onChange={(e) => onChange({ ...inputs, stop: e.target.value })}
+      />
+      {errorMessage('stop')}
+    </>
+  );
+};
+
+export default ModelParameterFields;
@@ -0,0 +1,53 @@
+import React from 'react';
+
+interface ModelSelectorProps {
+  models: string[];
+  selectedModel: string;
+  loading: boolean;
+  error: string | null;
+  onChange: (model: string) => void;
+  onRetry: () => void;
+}
+
+const ModelSelector: React.FC<ModelSelectorProps> = ({
+  models,
+  selectedModel,
+  loading,
+  error,
+  onChange,
+  onRetry
+}) => {
+  // Keep the current choice visible even when the backend does not list it
+  const options = models.includes(selectedModel) ? models : [selectedModel, ...models];
+
+  return (
+    <div className="model-selector-container">
+      <select
+        className="model-selector"
+        aria-label="Model"
+        aria-busy={loading}
+        value={selectedModel}
+        disabled={loading}
+        onChange={(e) => onChange(e.target.value)}
+      >
+        {loading ? (
+          <option value={selectedModel}>Loading models…</option>
+        ) : (
+          options.map(model => (
+            <option key={model} value={model}>{model}</option>
+          ))
+        )}
+      </select>
+      {error && (
+        <div className="model-selector-error" role="alert">
+          <span>Could not load models: {error}</span>
+          <button type="button" className="retry-button" onClick={onRetry}>
+            Retry
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModelSelector;
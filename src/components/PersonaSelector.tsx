@@ -0,0 +1,29 @@
+import React from 'react';
+import { Persona } from '../services/personas';
+
+interface PersonaSelectorProps {
+  personas: Persona[];
+  // null when the conversation has no persona
+  personaId: string | null;
+  onChange: (personaId: string | null) => void;
+}
+
+const PersonaSelector: React.FC<PersonaSelectorProps> = ({ personas, personaId, onChange }) => {
+  return (
+    <select
+      className="persona-selector"
+      aria-label="Persona"
+      value={personaId ?? ''}
+      onChange={(e) => onChange(e.target.value || null)}
+    >
+      <option value="">No persona</option>
+      {personas.map(persona => (
+        <option key={persona.id} value={persona.id}>
+          {persona.name}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default PersonaSelector;
@@ -0,0 +1,163 @@
+import React, { useMemo, useState } from 'react';
+import { FaPen, FaPlus, FaTrash } from 'react-icons/fa';
+import {
+  hasParameterErrors,
+  ParameterErrors,
+  parseParameterInputs,
+  toParameterInputs
+} from '../services/chat';
+import { createPersona, Persona } from '../services/personas';
+import { getVoiceId, groupVoicesByLanguage } from '../services/speech';
+import { SUPPORTED_LANGUAGES } from '../utils/languages';
+import ModelParameterFields from './ModelParameterFields';
+
+interface PersonaSettingsSectionProps {
+  personas: Persona[];
+  voices: SpeechSynthesisVoice[];
+  onChange: (personas: Persona[]) => void;
+}
+
+interface PersonaEditorProps {
+  persona: Persona;
+  voices: SpeechSynthesisVoice[];
+  onSave: (persona: Persona) => void;
+  onCancel: () => void;
+}
+
+const PersonaEditor: React.FC<PersonaEditorProps> = ({ persona, voices, onSave, onCancel }) => {
+  const [name, setName] = useState(persona.name);
+  const [systemPrompt, setSystemPrompt] = useState(persona.systemPrompt);
+  const [voiceId, setVoiceId] = useState(persona.voiceId ?? '');
+  const [language, setLanguage] = useState(persona.language ?? '');
+  const [parameterInputs, setParameterInputs] = useState(() => toParameterInputs(persona.parameters));
+  const [parameterErrors, setParameterErrors] = useState<ParameterErrors>({});
+  const groups = useMemo(() => groupVoicesByLanguage(voices), [voices]);
+
+  return (
+    <form
+      className="persona-editor"
+      aria-label={`Edit ${persona.name}`}
+      onSubmit={(e) => {
+        e.preventDefault();
+        const { parameters, errors } = parseParameterInputs(parameterInputs);
+        setParameterErrors(errors);
+        if (hasParameterErrors(errors)) return;
+        onSave({
+          ...persona,
+          name: name.trim() || persona.name,
+          systemPrompt: systemPrompt.trim(),
+          voiceId: voiceId || null,
+          language: language || null,
+          parameters,
+        });
+      }}
+    >
+      <div className="settings-row">
+        <label htmlFor="persona-name">Name</label>
+        <input id="persona-name" type="text" value={name} onChange={(e) => setName(e.target.value)} />
+      </div>
+      <label htmlFor="persona-prompt">System prompt</label>
+      <textarea
+        id="persona-prompt"
+        className="persona-prompt"
+        rows={5}
+        value={systemPrompt}
+        onChange={(e) => setSystemPrompt(e.target.value)}
+      />
+      <div className="settings-row">
+        <label htmlFor="persona-voice">Voice</label>
+        <select id="persona-voice" value={voiceId} onChange={(e) => setVoiceId(e.target.value)}>
+          <option value="">Keep my voice</option>
+          {groups.map(group => (
+            <optgroup key={group.lang} label={group.label}>
+              {group.voices.map(voice => (
+                <option key={getVoiceId(voice)} value={getVoiceId(voice)}>
+                  {voice.name}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+      </div>
+      <div className="settings-row">
+        <label htmlFor="persona-language">Language</label>
+        <select id="persona-language" value={language} onChange={(e) => setLanguage(e.target.value)}>
+          <option value="">Keep my language</option>
+          {SUPPORTED_LANGUAGES.map(option => (
+            <option key={option.code} value={option.code} lang={option.code}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <ModelParameterFields
+        idPrefix="persona"
+        inputs={parameterInputs}
+        errors={parameterErrors}
+        onChange={setParameterInputs}
+      />
+      <div className="settings-row">
+        <button type="submit" className="secondary-button">Save persona</button>
+        <button type="button" className="secondary-button" onClick={onCancel}>Cancel</button>
+      </div>
+    </form>
+  );
+};
+
+const PersonaSettingsSection: React.FC<PersonaSettingsSectionProps> = ({ personas, voices, onChange }) => {
+  const [editing, setEditing] = useState<Persona | null>(null);
+
+  const save = (persona: Persona) => {
+    const exists = personas.some(existing => existing.id === persona.id);
+    onChange(exists
+      ? personas.map(existing => (existing.id === persona.id ? persona : existing))
+      : [...personas, persona]);
+    setEditing(null);
+  };
+
+  return (
+    <section className="settings-section" aria-labelledby="persona-settings-title">
+      <h3 id="persona-settings-title">Personas</h3>
+      <ul className="persona-list">
+        {personas.map(persona => (
+          <li key={persona.id} className="settings-row">
+            <span className="persona-name">{persona.name}</span>
+            <button
+              type="button"
+              className="icon-button"
+              aria-label={`Edit ${persona.name}`}
+              title="Edit"
+              onClick={() => setEditing(persona)}
+            >
+              <FaPen aria-hidden="true" />
+            </button>
+            <button
+              type="button"
+              className="icon-button"
+              aria-label={`Delete ${persona.name}`}
+              title="Delete"
+              onClick={() => onChange(personas.filter(existing => existing.id !== persona.id))}
+            >
+              <FaTrash aria-hidden="true" />
+            </button>
+          </li>
+        ))}
+      </ul>
+      {editing ? (
+        <PersonaEditor
+          key={editing.id}
+          persona={editing}
+          voices={voices}
+          onSave={save}
+          onCancel={() => setEditing(null)}
+        />
+      ) : (
+        <button type="button" className="secondary-button" onClick={() => setEditing(createPersona())}>
+          <FaPlus aria-hidden="true" /> Add persona
+        </button>
+      )}
+    </section>
+  );
+};
+
+export default PersonaSettingsSection;
@@ -0,0 +1,58 @@
+import React, { useRef, useState } from 'react';
+import { FaPause, FaPlay } from 'react-icons/fa';
+import { RecordedAudio } from '../services/audio';
+
+interface RecordingPlayerProps {
+  audio: RecordedAudio;
+}
+
+// e.g. 4200 -> "0:04"
+const formatDuration = (milliseconds: number) => {
+  const seconds = Math.max(1, Math.round(milliseconds / 1000));
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+// A play button for the recording kept with a spoken message
+const RecordingPlayer: React.FC<RecordingPlayerProps> = ({ audio }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [playing, setPlaying] = useState(false);
+
+  const toggle = () => {
+    const element = audioRef.current;
+    if (!element) return;
+    if (playing) {
+      element.pause();
+      return;
+    }
+    // play() returns nothing in older browsers
+    Promise.resolve(element.play()).catch(error => {
+      console.error('Error playing recording:', error);
+      setPlaying(false);
+    });
+  };
+
+  return (
+    <span className="message-recording">
+      <audio
+        ref={audioRef}
+        src={audio.dataUrl}
+        preload="none"
+        onPlay={() => setPlaying(true)}
+        onPause={() => setPlaying(false)}
+        onEnded={() => setPlaying(false)}
+      />
+      <button
+        type="button"
+        className="icon-button"
+        aria-label={playing ? 'Pause recording' : 'Play recording'}
+        title={playing ? 'Pause recording' : 'Play what you said'}
+        onClick={toggle}
+      >
+        {playing ? <FaPause aria-hidden="true" /> : <FaPlay aria-hidden="true" />}
+      </button>
+      <span>{formatDuration(audio.duration)}</span>
+    </span>
+  );
+};
+
+export default RecordingPlayer;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { FaTimes } from 'react-icons/fa';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+  children: React.ReactNode;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose, children }) => {
+  return (
+    <aside
+      className="settings-panel"
+      role="dialog"
+      aria-labelledby="settings-panel-title"
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') {
+          onClose();
+        }
+      }}
+    >
+      <div className="settings-panel-header">
+        <h2 id="settings-panel-title">Settings</h2>
+        <button type="button" className="icon-button" onClick={onClose} aria-label="Close settings" title="Close settings">
+          <FaTimes aria-hidden="true" />
+        </button>
+      </div>
+      {children}
+    </aside>
+  );
+};
+
+export default SettingsPanel;
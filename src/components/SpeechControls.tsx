@@ -0,0 +1,34 @@
+import React from 'react';
+import { FaForward, FaPause, FaPlay, FaStop } from 'react-icons/fa';
+import { useSpeechController, useSpeechStatus } from '../hooks/useSpeechController';
+
+const SpeechControls: React.FC = () => {
+  const controller = useSpeechController();
+  const { speaking, paused } = useSpeechStatus();
+
+  if (!speaking) {
+    return null;
+  }
+
+  return (
+    <div className="speech-controls" role="group" aria-label="Speech playback">
+      {paused ? (
+        <button type="button" className="speech-control" onClick={() => controller.resume()} aria-label="Resume speech" title="Resume speech">
+          <FaPlay aria-hidden="true" />
+        </button>
+      ) : (
+        <button type="button" className="speech-control" onClick={() => controller.pause()} aria-label="Pause speech" title="Pause speech">
+          <FaPause aria-hidden="true" />
+        </button>
+      )}
+      <button type="button" className="speech-control" onClick={() => controller.skip()} aria-label="Skip sentence" title="Skip sentence">
+        <FaForward aria-hidden="true" />
+      </button>
+      <button type="button" className="speech-control" onClick={() => controller.stop()} aria-label="Stop speech" title="Stop speech">
+        <FaStop aria-hidden="true" />
+      </button>
+    </div>
+  );
+};
+
+export default SpeechControls;
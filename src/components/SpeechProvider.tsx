@@ -0,0 +1,30 @@
+import React, { useEffect, useMemo } from 'react';
+import { useConfig } from '../hooks/useConfig';
+import { SpeechControllerContext } from '../hooks/useSpeechController';
+import { createSpeechController } from '../services/speech';
+
+interface SpeechProviderProps {
+  children: React.ReactNode;
+}
+
+// Speaks through the engine the configuration names, switching engines when
+// the user changes it
+const SpeechProvider: React.FC<SpeechProviderProps> = ({ children }) => {
+  const { config } = useConfig();
+  const { speechEngine, chatBaseUrl, speechBaseUrl, speechModel, speechVoices, apiKey, requestTimeout } = config;
+  const controller = useMemo(
+    () => createSpeechController({ speechEngine, chatBaseUrl, speechBaseUrl, speechModel, speechVoices, apiKey, requestTimeout }),
+    [speechEngine, chatBaseUrl, speechBaseUrl, speechModel, speechVoices, apiKey, requestTimeout]
+  );
+
+  // Whatever the old engine was saying stops when it is replaced
+  useEffect(() => () => controller.stop(), [controller]);
+
+  return (
+    <SpeechControllerContext.Provider value={controller}>
+      {children}
+    </SpeechControllerContext.Provider>
+  );
+};
+
+export default SpeechProvider;
@@ -0,0 +1,70 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface TranscriptReviewProps {
+  transcript: string;
+  // 0 when the recogniser did not report a confidence
+  confidence: number;
+  onSend: (text: string) => void;
+  onDiscard: () => void;
+}
+
+// Lets the user fix what the recogniser heard before it is sent. Give it a
+// key so a new recording starts a fresh edit.
+const TranscriptReview: React.FC<TranscriptReviewProps> = ({ transcript, confidence, onSend, onDiscard }) => {
+  const [text, setText] = useState(transcript);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    textareaRef.current?.focus();
+  }, []);
+
+  const send = () => {
+    const trimmed = text.trim();
+    if (trimmed) {
+      onSend(trimmed);
+    }
+  };
+
+  return (
+    <form
+      className="transcript-review"
+      aria-label="Review transcript"
+      onSubmit={(e) => {
+        e.preventDefault();
+        send();
+      }}
+    >
+      <label htmlFor="transcript-review-text">
+        {confidence > 0
+          ? `Heard with ${Math.round(confidence * 100)}% confidence, check before sending`
+          : 'Check what was heard before sending'}
+      </label>
+      <textarea
+        id="transcript-review-text"
+        ref={textareaRef}
+        value={text}
+        rows={2}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            send();
+          } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onDiscard();
+          }
+        }}
+      />
+      <div className="transcript-review-actions">
+        <button type="button" className="secondary-button" onClick={onDiscard}>
+          Discard
+        </button>
+        <button type="submit" className="primary-button" disabled={!text.trim()}>
+          Send
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default TranscriptReview;
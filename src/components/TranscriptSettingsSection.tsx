@@ -0,0 +1,92 @@
+import React from 'react';
+import { FaTrash } from 'react-icons/fa';
+import { DEFAULT_NORMALIZER_OPTIONS, NormalizerOptions, WordReplacement } from '../utils/transcriptNormalizer';
+
+interface TranscriptSettingsSectionProps {
+  options: NormalizerOptions;
+  onChange: (options: NormalizerOptions) => void;
+}
+
+type NormalizerStep = 'capitalize' | 'spokenPunctuation' | 'numbers';
+
+const STEPS: { key: NormalizerStep; label: string }[] = [
+  { key: 'capitalize', label: 'Capitalize sentences' },
+  { key: 'spokenPunctuation', label: 'Spoken punctuation ("comma", "question mark", "new line")' },
+  { key: 'numbers', label: 'Write numbers and units as digits' },
+];
+
+const TranscriptSettingsSection: React.FC<TranscriptSettingsSectionProps> = ({ options, onChange }) => {
+  const updateReplacement = (index: number, replacement: WordReplacement) => {
+    onChange({
+      ...options,
+      replacements: options.replacements.map((existing, i) => (i === index ? replacement : existing)),
+    });
+  };
+
+  return (
+    <section className="settings-section" aria-labelledby="transcript-settings-title">
+      <h3 id="transcript-settings-title">Transcript cleanup</h3>
+      {STEPS.map(({ key, label }) => (
+        <div className="settings-row" key={key}>
+          <input
+            id={`transcript-${key}`}
+            type="checkbox"
+            checked={options[key]}
+            onChange={(e) => onChange({ ...options, [key]: e.target.checked })}
+          />
+          <label htmlFor={`transcript-${key}`}>{label}</label>
+        </div>
+      ))}
+      <fieldset className="replacement-list">
+        <legend>Word replacements</legend>
+        {options.replacements.map((replacement, index) => (
+          <div className="settings-row" key={index}>
+            <input
+              type="text"
+              aria-label={`Heard ${index + 1}`}
+              placeholder="Heard"
+              value={replacement.from}
+              onChange={(e) => updateReplacement(index, { ...replacement, from: e.target.value })}
+            />
+            <input
+              type="text"
+              aria-label={`Replace with ${index + 1}`}
+              placeholder="Replace with"
+              value={replacement.to}
+              onChange={(e) => updateReplacement(index, { ...replacement, to: e.target.value })}
+            />
+            <button
+              type="button"
+              className="icon-button"
+              aria-label={`Remove replacement ${index + 1}`}
+              onClick={() => onChange({
+                ...options,
+                replacements: options.replacements.filter((_, i) => i !== index),
+              })}
+            >
+              <FaTrash aria-hidden="true" />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          className="secondary-button"
+          onClick={() => onChange({ ...options, replacements: [...options.replacements, { from: '', to: '' }] })}
+        >
+          Add replacement
+        </button>
+      </fieldset>
+      <div className="settings-row">
+        <button
+          type="button"
+          className="secondary-button"
+          onClick={() => onChange({ ...DEFAULT_NORMALIZER_OPTIONS, replacements: options.replacements })}
+        >
+          Reset cleanup steps
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default TranscriptSettingsSection;
@@ -1,118 +1,217 @@
-import React, { useState } from 'react';
+import React, { forwardRef, useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react';
 import { FaMicrophone } from 'react-icons/fa';
+import { AudioRecording, RecordedAudio, startAudioRecording } from '../services/audio';
+import {
+  RecognitionEngine,
+  RecognitionResult,
+  RecognitionSession,
+  WebSpeechEngine
+} from '../services/recognition';
+import { describeKeyCode, isEditableTarget } from '../utils/keys';
+
+// click: one utterance per click, ended when the speaker falls silent
+// push-to-talk: records while the button or key is held, sends on release
+export type InputMode = 'click' | 'push-to-talk';
 
 interface VoiceButtonProps {
-  onSpeechResult: (text: string) => void;
+  // `recording` is what was said, when recordAudio is on; it resolves to null
+  // if nothing could be recorded
+  onSpeechResult: (result: RecognitionResult, recording?: Promise<RecordedAudio | null>) => void;
+  // Live text of what is being heard; called with '' once recording ends
+  onInterimTranscript?: (text: string) => void;
+  // BCP 47 locale to recognise, e.g. "fr-FR"
+  lang?: string;
+  disabled?: boolean;
+  mode?: InputMode;
+  // KeyboardEvent.code that records while held in push-to-talk mode
+  pushToTalkKey?: string;
+  // Also records the microphone, so the user can hear what was recognised
+  recordAudio?: boolean;
+  // Turns speech into text; the browser's own recognition unless given
+  engine?: RecognitionEngine;
 }
 
-interface SpeechRecognitionAlternative {
-  transcript: string;
-  confidence: number;
+export interface VoiceButtonHandle {
+  // Records a single utterance, as a click would, whatever the input mode
+  listen: () => void;
 }
 
-const VoiceButton: React.FC<VoiceButtonProps> = ({ onSpeechResult }) => {
-  const [isListening, setIsListening] = useState(false);
+interface VoiceSession {
+  listening: RecognitionSession | null;
+  // Started alongside recognition when recordAudio is on and the engine does
+  // not record for itself; null once it has been handed over or thrown away
+  recording: Promise<AudioRecording | null> | null;
+}
 
-  const startListening = () => {
-    setIsListening(true);
-    
-    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-    if (!SpeechRecognition) {
-      console.error('Speech recognition is not supported in this browser. Please use Chrome, Edge, Safari (14.1+), or Opera.');
-      setIsListening(false);
-      return;
-    }
+const webSpeech = new WebSpeechEngine();
 
-    const recognition = new SpeechRecognition();
-
-    // Enhanced configuration for better accuracy
-    recognition.continuous = false;        // Single utterance mode for better accuracy
-    recognition.interimResults = true;     // Get interim results for real-time feedback
-    recognition.lang = 'en-US';           // Set to US English for better recognition
-
-    let finalTranscript = '';
-    let interimTranscript = '';
-    let confidenceThreshold = 0.8;        // Minimum confidence level to accept
-
-    recognition.onresult = (event: SpeechRecognitionEvent) => {
-      let bestResult = {
-        transcript: '',
-        confidence: 0
-      };
-
-      // Process all results to find the best one
-      for (let i = event.resultIndex; i < event.results.length; i++) {
-        const result = event.results.item(i);
-        if (!result) continue;
-        
-        if (result.isFinal) {
-          // For final results, get the first (most confident) result
-          const alternative = result.item(0);
-          if (alternative) {
-            const altTranscript = alternative.transcript || '';
-            const altConfidence = alternative.confidence || 0;
-            
-            if (altConfidence > bestResult.confidence) {
-              bestResult = {
-                transcript: altTranscript,
-                confidence: altConfidence
-              };
-            }
-          }
-          
-          if (bestResult.confidence >= confidenceThreshold) {
-            finalTranscript = bestResult.transcript;
-          } else {
-            // If confidence is low, get all alternatives
-            const alternatives = [];
-            for (let j = 0; j < result.length; j++) {
-              const alt = result.item(j);
-              if (alt && alt.transcript) {
-                alternatives.push(alt.transcript);
-              }
-            }
-            finalTranscript = alternatives.join(' OR ');
-          }
+// The recording of a finished utterance, handed over once
+const finishRecording = (session: VoiceSession): Promise<RecordedAudio | null> | undefined => {
+  const { recording } = session;
+  session.recording = null;
+  return recording?.then(started => started?.stop() ?? null).catch(error => {
+    console.error('Error recording audio:', error);
+    return null;
+  });
+};
 
-          // Clean up the transcript
-          if (finalTranscript) {
-            finalTranscript = finalTranscript
-              .trim()
-              .replace(/^\w/, c => c.toUpperCase())    // Capitalize first letter
-              .replace(/\s+/g, ' ')                    // Remove extra spaces
-              .replace(/[.,/#!$%^&\*;:{}=\-_`~()]/g, ''); // Remove punctuation
-          }
+const discardRecording = (session: VoiceSession) => {
+  session.recording?.then(started => started?.cancel());
+  session.recording = null;
+};
 
-          if (finalTranscript) {
-            onSpeechResult(finalTranscript);
-            setIsListening(false);
-          }
-        }
-      }
-    };
+const VoiceButton = forwardRef<VoiceButtonHandle, VoiceButtonProps>(({
+  onSpeechResult,
+  onInterimTranscript,
+  lang = 'en-US',
+  disabled = false,
+  mode = 'click',
+  pushToTalkKey = 'Space',
+  recordAudio = false,
+  engine = webSpeech
+}, ref) => {
+  const [isListening, setIsListening] = useState(false);
+  const sessionRef = useRef<VoiceSession | null>(null);
+  const onSpeechResultRef = useRef(onSpeechResult);
+  onSpeechResultRef.current = onSpeechResult;
+  const onInterimTranscriptRef = useRef(onInterimTranscript);
+  onInterimTranscriptRef.current = onInterimTranscript;
+
+  const startListening = useCallback((holdToTalk: boolean) => {
+    if (sessionRef.current) return;
+    setIsListening(true);
 
-    recognition.onerror = (event) => {
-      console.error('Speech recognition error:', event.error);
+    if (!engine.isSupported()) {
+      console.error(engine.unsupportedMessage);
       setIsListening(false);
-    };
+      return;
+    }
 
-    recognition.onend = () => {
+    const recording = recordAudio && !engine.capturesAudio
+      ? startAudioRecording().catch(error => {
+        console.error('Error recording audio:', error);
+        return null;
+      })
+      : null;
+    const session: VoiceSession = { listening: null, recording };
+    sessionRef.current = session;
+
+    const clear = () => {
+      if (sessionRef.current === session) {
+        sessionRef.current = null;
+      }
       setIsListening(false);
+      onInterimTranscriptRef.current?.('');
     };
 
     try {
-      recognition.start();
+      session.listening = engine.listen({
+        lang,
+        continuous: holdToTalk,   // Single utterance mode unless the user decides when to stop
+        onInterim: text => onInterimTranscriptRef.current?.(text),
+        // The recording, if any, goes along with the result
+        onResult: (result, audio) => {
+          onInterimTranscriptRef.current?.('');
+          const delivered = recordAudio && audio ? Promise.resolve(audio) : finishRecording(session);
+          if (delivered) {
+            onSpeechResultRef.current(result, delivered);
+          } else {
+            onSpeechResultRef.current(result);
+          }
+          setIsListening(false);
+        },
+        onError: error => {
+          console.error('Speech recognition error:', error);
+          discardRecording(session);
+          clear();
+        },
+        onEnd: () => {
+          clear();
+          // Nothing was recognised, or it was cancelled
+          discardRecording(session);
+        }
+      });
     } catch (error) {
       console.error('Speech recognition error:', error);
+      discardRecording(session);
+      sessionRef.current = null;
       setIsListening(false);
     }
-  };
+  }, [engine, lang, recordAudio]);
+
+  useImperativeHandle(ref, () => ({
+    listen: () => startListening(false)
+  }), [startListening]);
+
+  const stopListening = useCallback(() => {
+    sessionRef.current?.listening?.stop();
+  }, []);
+
+  // Stops recording and throws away whatever was heard
+  const cancelListening = useCallback(() => {
+    sessionRef.current?.listening?.cancel();
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && sessionRef.current) {
+        // Escape throws away the recording only, not a reply still coming in
+        event.preventDefault();
+        cancelListening();
+        return;
+      }
+      if (mode !== 'push-to-talk' || disabled || event.code !== pushToTalkKey || isEditableTarget(event.target)) {
+        return;
+      }
+      event.preventDefault();
+      if (!event.repeat) {
+        startListening(true);
+      }
+    };
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (mode === 'push-to-talk' && event.code === pushToTalkKey) {
+        stopListening();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [mode, disabled, pushToTalkKey, startListening, stopListening, cancelListening]);
+
+  if (mode === 'push-to-talk') {
+    const label = `Hold to talk (or hold ${describeKeyCode(pushToTalkKey)})`;
+    return (
+      <button
+        className={`voice-button push-to-talk ${isListening ? 'listening' : ''}`}
+        onPointerDown={(e) => {
+          e.preventDefault();
+          startListening(true);
+        }}
+        onPointerUp={stopListening}
+        onPointerLeave={stopListening}
+        onPointerCancel={stopListening}
+        disabled={disabled}
+        aria-label={label}
+        aria-pressed={isListening}
+        title={label}
+        type="button"
+      >
+        <FaMicrophone aria-hidden="true" />
+        <span className="sr-only">{label}</span>
+      </button>
+    );
+  }
 
   return (
     <button
       className={`voice-button ${isListening ? 'listening' : ''}`}
-      onClick={startListening}
-      disabled={isListening}
+      onClick={() => startListening(false)}
+      disabled={disabled || isListening}
       aria-label="Start voice input"
       aria-pressed={isListening}
       title="Start voice input"
@@ -122,6 +221,8 @@ const VoiceButton: React.FC<VoiceButtonProps> = ({ onSpeechResult }) => {
       <span className="sr-only">Start voice input</span>
     </button>
   );
-};
+});
+
+VoiceButton.displayName = 'VoiceButton';
 
 export default VoiceButton;
@@ -0,0 +1,95 @@
+import React, { useMemo } from 'react';
+import {
+  DEFAULT_VOICE_SETTINGS,
+  getVoiceId,
+  groupVoicesByLanguage,
+  VOICE_SETTING_RANGES,
+  VoiceSettings
+} from '../services/speech';
+
+interface VoiceSettingsSectionProps {
+  settings: VoiceSettings;
+  voices: SpeechSynthesisVoice[];
+  matchReplyLanguage: boolean;
+  onChange: (settings: VoiceSettings) => void;
+  onMatchReplyLanguageChange: (enabled: boolean) => void;
+  onPreview: () => void;
+}
+
+type NumericSetting = 'rate' | 'pitch' | 'volume';
+
+const SLIDERS: { key: NumericSetting; label: string }[] = [
+  { key: 'rate', label: 'Rate' },
+  { key: 'pitch', label: 'Pitch' },
+  { key: 'volume', label: 'Volume' },
+];
+
+const VoiceSettingsSection: React.FC<VoiceSettingsSectionProps> = ({
+  settings,
+  voices,
+  matchReplyLanguage,
+  onChange,
+  onMatchReplyLanguageChange,
+  onPreview
+}) => {
+  const groups = useMemo(() => groupVoicesByLanguage(voices), [voices]);
+
+  return (
+    <section className="settings-section" aria-labelledby="voice-settings-title">
+      <h3 id="voice-settings-title">Speech output</h3>
+      <div className="settings-row">
+        <label htmlFor="voice-select">Voice</label>
+        <select
+          id="voice-select"
+          value={settings.voiceId ?? ''}
+          onChange={(e) => onChange({ ...settings, voiceId: e.target.value || null })}
+        >
+          <option value="">Default voice</option>
+          {groups.map(group => (
+            <optgroup key={group.lang} label={group.label}>
+              {group.voices.map(voice => (
+                <option key={getVoiceId(voice)} value={getVoiceId(voice)}>
+                  {voice.name}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <button type="button" className="secondary-button" onClick={onPreview}>
+          Preview
+        </button>
+      </div>
+      <div className="settings-row">
+        <input
+          id="match-reply-language"
+          type="checkbox"
+          checked={matchReplyLanguage}
+          onChange={(e) => onMatchReplyLanguageChange(e.target.checked)}
+        />
+        <label htmlFor="match-reply-language">Switch voice to the language of each reply</label>
+      </div>
+      {SLIDERS.map(({ key, label }) => (
+        <div className="settings-row" key={key}>
+          <label htmlFor={`voice-${key}`}>{label}</label>
+          <input
+            id={`voice-${key}`}
+            type="range"
+            min={VOICE_SETTING_RANGES[key].min}
+            max={VOICE_SETTING_RANGES[key].max}
+            step={VOICE_SETTING_RANGES[key].step}
+            value={settings[key]}
+            onChange={(e) => onChange({ ...settings, [key]: Number(e.target.value) })}
+          />
+          <output htmlFor={`voice-${key}`}>{settings[key].toFixed(2)}</output>
+        </div>
+      ))}
+      <div className="settings-row">
+        <button type="button" className="secondary-button" onClick={() => onChange(DEFAULT_VOICE_SETTINGS)}>
+          Reset voice settings
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default VoiceSettingsSection;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import AlternativeChooser from '../AlternativeChooser';
+
+describe('AlternativeChooser Component', () => {
+  const alternatives = [
+    { transcript: 'Whether report', confidence: 0.6 },
+    { transcript: 'Weather report', confidence: 0 }
+  ];
+  const onChoose = jest.fn();
+  const onRetry = jest.fn();
+  const onDismiss = jest.fn();
+
+  const renderChooser = () => render(
+    <AlternativeChooser alternatives={alternatives} onChoose={onChoose} onRetry={onRetry} onDismiss={onDismiss} />
+  );
+
+  it('offers each reading, focusing the best one', () => {
+    renderChooser();
+
+    expect(screen.getByRole('group', { name: 'Did you mean…' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Whether report (60%)' })).toHaveFocus();
+    // Unknown confidence is not shown
+    expect(screen.getByRole('button', { name: 'Weather report' })).toBeInTheDocument();
+  });
+
+  it('passes on the chosen reading', () => {
+    renderChooser();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Weather report' }));
+
+    expect(onChoose).toHaveBeenCalledWith({ transcript: 'Weather report', confidence: 0 });
+  });
+
+  it('asks to record again', () => {
+    renderChooser();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Say it again' }));
+
+    expect(onRetry).toHaveBeenCalled();
+  });
+
+  it('dismisses with the button or Escape', () => {
+    renderChooser();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Dismiss' }));
+    fireEvent.keyDown(screen.getByRole('button', { name: 'Whether report (60%)' }), { key: 'Escape' });
+
+    expect(onDismiss).toHaveBeenCalledTimes(2);
+    expect(onChoose).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,149 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import ChatMessage from '../ChatMessage';
+import { Message } from '../../services/conversations';
+
+describe('ChatMessage Component', () => {
+  const timestamp = new Date(2024, 0, 1, 9, 30).getTime();
+
+  const message = (fields: Partial<Message>): Message => ({
+    id: 'm1',
+    role: 'assistant',
+    content: 'Hello there',
+    timestamp,
+    status: 'done',
+    ...fields,
+  });
+
+  it('shows the content with its time', () => {
+    render(<ChatMessage message={message({})} />);
+
+    expect(screen.getByText('Hello there')).toBeInTheDocument();
+    const time = new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    expect(screen.getByText(time)).toHaveAttribute('dateTime', new Date(timestamp).toISOString());
+  });
+
+  it('renders replies as Markdown but user messages as typed', () => {
+    const { rerender } = render(<ChatMessage message={message({ content: 'A *light* touch' })} />);
+
+    expect(screen.getByText('light').tagName).toBe('EM');
+
+    rerender(<ChatMessage message={message({ role: 'user', content: 'A *light* touch' })} />);
+    expect(screen.getByText('A *light* touch')).toBeInTheDocument();
+  });
+
+  it('shows how a user message was entered and how confident recognition was', () => {
+    render(<ChatMessage message={message({ role: 'user', source: 'voice', confidence: 0.82 })} />);
+
+    expect(screen.getByText('Spoken')).toBeInTheDocument();
+    expect(screen.getByTitle('Recognised with 82% confidence')).toBeInTheDocument();
+  });
+
+  it('names the model behind a reply', () => {
+    render(<ChatMessage message={message({ model: 'llama3' })} />);
+
+    expect(screen.getByText('llama3')).toBeInTheDocument();
+  });
+
+  it('shows a spinner while waiting for the reply', () => {
+    render(<ChatMessage message={message({ content: '', status: 'pending' })} />);
+
+    expect(screen.getByRole('status', { name: 'Waiting for reply' })).toBeInTheDocument();
+  });
+
+  it('shows failures as an error rather than reply text', () => {
+    render(<ChatMessage message={message({ content: '', status: 'error', error: 'HTTP error! status: 500' })} />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('The reply failed');
+    expect(screen.getByRole('alert')).toHaveTextContent('HTTP error! status: 500');
+  });
+
+  it('offers only the actions it is given', () => {
+    const onReplay = jest.fn();
+    const onRegenerate = jest.fn();
+    const onDelete = jest.fn();
+    render(<ChatMessage message={message({})} onReplay={onReplay} onRegenerate={onRegenerate} onDelete={onDelete} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Read aloud' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Regenerate reply' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Delete message' }));
+
+    expect(onReplay).toHaveBeenCalled();
+    expect(onRegenerate).toHaveBeenCalled();
+    expect(onDelete).toHaveBeenCalled();
+    expect(screen.queryByRole('button', { name: 'Edit message' })).not.toBeInTheDocument();
+  });
+
+  it('has no actions until the reply has arrived', () => {
+    render(<ChatMessage message={message({ status: 'streaming' })} onReplay={jest.fn()} onDelete={jest.fn()} />);
+
+    expect(screen.queryByRole('group', { name: 'Message actions' })).not.toBeInTheDocument();
+  });
+
+  it('plays the recording of a spoken message', () => {
+    const play = jest.spyOn(window.HTMLMediaElement.prototype, 'play').mockImplementation(function (this: HTMLMediaElement) {
+      this.dispatchEvent(new Event('play'));
+      return Promise.resolve();
+    });
+    render(<ChatMessage message={message({
+      role: 'user',
+      source: 'voice',
+      audio: { dataUrl: 'data:audio/webm;base64,GkXfow==', mimeType: 'audio/webm', duration: 4200 },
+    })} />);
+
+    expect(screen.getByText('0:04')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Play recording' }));
+
+    expect(play).toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: 'Pause recording' })).toBeInTheDocument();
+    play.mockRestore();
+  });
+
+  it('has no player without a recording', () => {
+    render(<ChatMessage message={message({ role: 'user', source: 'voice' })} />);
+
+    expect(screen.queryByRole('button', { name: 'Play recording' })).not.toBeInTheDocument();
+  });
+
+  it('copies the message text', async () => {
+    const writeText = jest.fn().mockResolvedValue(undefined);
+    Object.assign(navigator, { clipboard: { writeText } });
+    render(<ChatMessage message={message({ content: 'Some **notes**' })} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Copy message' }));
+
+    expect(await screen.findByRole('status')).toHaveTextContent('Copied');
+    expect(writeText).toHaveBeenCalledWith('Some **notes**');
+  });
+
+  it('marks the message being spoken and offers to stop it', () => {
+    const onStopSpeaking = jest.fn();
+    render(<ChatMessage message={message({})} speaking onReplay={jest.fn()} onStopSpeaking={onStopSpeaking} />);
+
+    expect(screen.getByText('Speaking')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Stop reading' }));
+
+    expect(onStopSpeaking).toHaveBeenCalled();
+    expect(screen.queryByRole('button', { name: 'Read aloud' })).not.toBeInTheDocument();
+  });
+
+  it('edits a user message from the keyboard', () => {
+    const onEdit = jest.fn();
+    render(<ChatMessage message={message({ role: 'user', content: 'Helo' })} onEdit={onEdit} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit message' }));
+    const editor = screen.getByRole('textbox', { name: 'Message text' });
+    expect(editor).toHaveFocus();
+
+    fireEvent.keyDown(editor, { key: 'Escape' });
+    expect(screen.getByText('Helo')).toBeInTheDocument();
+    expect(onEdit).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit message' }));
+    fireEvent.change(screen.getByRole('textbox', { name: 'Message text' }), { target: { value: ' Hello ' } });
+    fireEvent.keyDown(screen.getByRole('textbox', { name: 'Message text' }), { key: 'Enter' });
+
+    expect(onEdit).toHaveBeenCalledWith('Hello');
+  });
+});
@@ -0,0 +1,68 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import ConfigProvider from '../ConfigProvider';
+import { useConfig } from '../../hooks/useConfig';
+import { createMockServer } from '../../test-utils/mockServer';
+
+const ShowConfig: React.FC = () => {
+  const { config } = useConfig();
+  return <p>{`${config.chatBackend} ${config.chatBaseUrl} ${config.defaultModel}`}</p>;
+};
+
+describe('ConfigProvider Component', () => {
+  const server = createMockServer('http://app.local');
+  const runtimeConfigUrl = `${server.origin}/config.json`;
+
+  const renderProvider = () => render(
+    <ConfigProvider runtimeConfigUrl={runtimeConfigUrl}>
+      <ShowConfig />
+    </ConfigProvider>
+  );
+
+  beforeEach(() => {
+    window.localStorage.clear();
+    server.install();
+  });
+
+  afterEach(() => {
+    server.restore();
+  });
+
+  it('applies config.json and then the saved settings', async () => {
+    server.on('GET', '/config.json', { json: { chatBackend: 'openai', chatBaseUrl: 'https://llm.example.com' } });
+    window.localStorage.setItem('voice-chat:configOverrides', JSON.stringify({ defaultModel: 'mistral' }));
+
+    renderProvider();
+
+    expect(screen.getByRole('status')).toHaveTextContent('Loading');
+    expect(await screen.findByText('openai https://llm.example.com mistral')).toBeInTheDocument();
+  });
+
+  it('runs with the build-time settings when there is no config.json', async () => {
+    renderProvider();
+
+    expect(await screen.findByText('ollama http://localhost:11434 llama3.2')).toBeInTheDocument();
+  });
+
+  it('explains what is wrong instead of starting the app', async () => {
+    server.on('GET', '/config.json', { json: { chatBaseUrl: 'not a url' } });
+
+    renderProvider();
+
+    expect(await screen.findByRole('heading', { name: 'The app is not configured correctly' })).toBeInTheDocument();
+    expect(screen.getByText('config.json: "chatBaseUrl" must be an http:// or https:// URL')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Reset my settings' })).not.toBeInTheDocument();
+  });
+
+  it('offers to reset saved settings that are invalid', async () => {
+    window.localStorage.setItem('voice-chat:configOverrides', JSON.stringify({ maxRetries: -1 }));
+
+    renderProvider();
+
+    expect(await screen.findByText('Your saved setting "maxRetries" must be a whole number, 0 or more')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Reset my settings' }));
+
+    expect(await screen.findByText('ollama http://localhost:11434 llama3.2')).toBeInTheDocument();
+  });
+});
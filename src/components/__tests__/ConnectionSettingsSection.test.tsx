@@ -0,0 +1,87 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import ConnectionSettingsSection from '../ConnectionSettingsSection';
+import { DEFAULT_CONFIG } from '../../services/config';
+
+describe('ConnectionSettingsSection Component', () => {
+  const onChange = jest.fn();
+
+  it('shows the deployment settings with the user settings on top', () => {
+    render(<ConnectionSettingsSection base={DEFAULT_CONFIG} overrides={{ defaultModel: 'mistral' }} onChange={onChange} />);
+
+    expect(screen.getByLabelText('Backend')).toHaveValue('ollama');
+    expect(screen.getByLabelText('Server URL')).toHaveValue('http://localhost:11434');
+    expect(screen.getByLabelText('API key')).toHaveValue('');
+    expect(screen.getByLabelText('Default model')).toHaveValue('mistral');
+  });
+
+  it('saves only what differs from the deployment', () => {
+    render(<ConnectionSettingsSection base={DEFAULT_CONFIG} overrides={{ defaultModel: 'mistral' }} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText('Backend'), { target: { value: 'openai' } });
+    fireEvent.change(screen.getByLabelText('Server URL'), { target: { value: 'https://llm.example.com/' } });
+    fireEvent.change(screen.getByLabelText('API key'), { target: { value: 'sk-test' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save connection' }));
+
+    expect(onChange).toHaveBeenCalledWith({
+      chatBackend: 'openai',
+      chatBaseUrl: 'https://llm.example.com',
+      apiKey: 'sk-test',
+      defaultModel: 'mistral',
+    });
+  });
+
+  it('saves a transcription server for speech recognition', () => {
+    render(<ConnectionSettingsSection base={DEFAULT_CONFIG} overrides={{}} onChange={onChange} />);
+
+    expect(screen.getByLabelText('Speech recognition')).toHaveValue('auto');
+    expect(screen.getByLabelText('Transcription server URL')).toHaveValue('');
+
+    fireEvent.change(screen.getByLabelText('Speech recognition'), { target: { value: 'whisper' } });
+    fireEvent.change(screen.getByLabelText('Transcription server URL'), { target: { value: 'http://localhost:8080' } });
+    fireEvent.change(screen.getByLabelText('Transcription model'), { target: { value: 'large-v3' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save connection' }));
+
+    expect(onChange).toHaveBeenCalledWith({
+      recognitionEngine: 'whisper',
+      transcriptionBaseUrl: 'http://localhost:8080',
+      transcriptionModel: 'large-v3',
+    });
+  });
+
+  it('saves a speech server for reading replies aloud', () => {
+    render(<ConnectionSettingsSection base={DEFAULT_CONFIG} overrides={{}} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText('Speech output'), { target: { value: 'http' } });
+    fireEvent.change(screen.getByLabelText('Speech server URL'), { target: { value: 'http://localhost:8000' } });
+    fireEvent.change(screen.getByLabelText('Speech server voices'), { target: { value: 'en_US-amy-medium ,en_GB-alan-low,' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save connection' }));
+
+    expect(onChange).toHaveBeenCalledWith({
+      speechEngine: 'http',
+      speechBaseUrl: 'http://localhost:8000',
+      speechVoices: 'en_US-amy-medium, en_GB-alan-low',
+    });
+  });
+
+  it('does not save an invalid server URL', () => {
+    render(<ConnectionSettingsSection base={DEFAULT_CONFIG} overrides={{}} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText('Server URL'), { target: { value: 'localhost:11434' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save connection' }));
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(screen.getByRole('alert')).toHaveTextContent('This must be an http:// or https:// URL');
+    expect(screen.getByLabelText('Server URL')).toHaveAttribute('aria-invalid', 'true');
+  });
+
+  it('goes back to the deployment settings', () => {
+    render(<ConnectionSettingsSection base={DEFAULT_CONFIG} overrides={{ defaultModel: 'mistral' }} onChange={onChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Use deployment settings' }));
+
+    expect(onChange).toHaveBeenCalledWith({});
+    expect(screen.getByLabelText('Default model')).toHaveValue('llama3.2');
+  });
+});
@@ -0,0 +1,112 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import ConversationSidebar from '../ConversationSidebar';
+
+describe('ConversationSidebar Component', () => {
+  const conversations = [
+    {
+      id: 'a',
+      title: null,
+      messages: [{ id: 'm1', role: 'user' as const, content: 'What is the weather?', timestamp: 0, status: 'done' as const }],
+      createdAt: 0,
+      updatedAt: 2,
+    },
+    { id: 'b', title: 'Trip planning', messages: [], createdAt: 0, updatedAt: 1 },
+  ];
+  const handlers = {
+    onCreate: jest.fn(),
+    onSelect: jest.fn(),
+    onRename: jest.fn(),
+    onDelete: jest.fn(),
+    onExport: jest.fn(),
+    onImport: jest.fn(),
+  };
+
+  const renderSidebar = () => render(
+    <ConversationSidebar conversations={conversations} activeId="a" {...handlers} />
+  );
+
+  it('lists conversations by title and marks the active one', () => {
+    renderSidebar();
+
+    expect(screen.getByRole('button', { name: 'What is the weather?' })).toHaveAttribute('aria-current', 'page');
+    expect(screen.getByRole('button', { name: 'Trip planning' })).not.toHaveAttribute('aria-current');
+  });
+
+  it('creates and switches conversations', () => {
+    renderSidebar();
+
+    fireEvent.click(screen.getByRole('button', { name: 'New conversation' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Trip planning' }));
+
+    expect(handlers.onCreate).toHaveBeenCalled();
+    expect(handlers.onSelect).toHaveBeenCalledWith('b');
+  });
+
+  it('renames a conversation', () => {
+    renderSidebar();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Rename Trip planning' }));
+    const input = screen.getByRole('textbox', { name: 'Conversation title' });
+    expect(input).toHaveValue('Trip planning');
+    expect(input).toHaveFocus();
+
+    fireEvent.change(input, { target: { value: 'Holiday' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save title' }));
+
+    expect(handlers.onRename).toHaveBeenCalledWith('b', 'Holiday');
+    expect(screen.queryByRole('textbox', { name: 'Conversation title' })).not.toBeInTheDocument();
+  });
+
+  it('cancels renaming with Escape', () => {
+    renderSidebar();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Rename Trip planning' }));
+    fireEvent.keyDown(screen.getByRole('textbox', { name: 'Conversation title' }), { key: 'Escape' });
+
+    expect(handlers.onRename).not.toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: 'Trip planning' })).toBeInTheDocument();
+  });
+
+  it('asks before deleting', () => {
+    renderSidebar();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete Trip planning' }));
+    expect(handlers.onDelete).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Keep conversation' }));
+    expect(handlers.onDelete).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete Trip planning' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Confirm deleting Trip planning' }));
+    expect(handlers.onDelete).toHaveBeenCalledWith('b');
+  });
+
+  it('exports the active conversation in each format', () => {
+    renderSidebar();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export as Markdown' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Export as JSON' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Export as a timestamped transcript' }));
+
+    expect(handlers.onExport.mock.calls).toEqual([['markdown'], ['json'], ['transcript']]);
+  });
+
+  it('has nothing to export from an empty conversation', () => {
+    render(<ConversationSidebar conversations={conversations} activeId="b" {...handlers} />);
+
+    expect(screen.getByRole('button', { name: 'Export as JSON' })).toBeDisabled();
+  });
+
+  it('imports a picked file and shows why an import failed', () => {
+    const { rerender } = renderSidebar();
+    const file = new File(['{}'], 'chat.json', { type: 'application/json' });
+
+    fireEvent.change(screen.getByLabelText('Import conversation'), { target: { files: [file] } });
+    expect(handlers.onImport).toHaveBeenCalledWith(file);
+
+    rerender(<ConversationSidebar conversations={conversations} activeId="a" {...handlers} importError="chat.json could not be read." />);
+    expect(screen.getByRole('alert')).toHaveTextContent('chat.json could not be read.');
+  });
+});
@@ -0,0 +1,51 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import GenerationSettingsSection from '../GenerationSettingsSection';
+
+describe('GenerationSettingsSection Component', () => {
+  const onChange = jest.fn();
+
+  const renderSection = (parameters = {}) => render(
+    <GenerationSettingsSection parameters={parameters} defaults={{ temperature: 0.7 }} onChange={onChange} />
+  );
+
+  it('shows the conversation parameters and the defaults they override', () => {
+    renderSection({ maxTokens: 200, stop: ['END'] });
+
+    expect(screen.getByLabelText('Temperature')).toHaveValue(null);
+    expect(screen.getByLabelText('Temperature')).toHaveAttribute('placeholder', '0.7');
+    expect(screen.getByLabelText('Max tokens')).toHaveValue(200);
+    expect(screen.getByLabelText('Stop sequences (one per line)')).toHaveValue('END');
+  });
+
+  it('applies valid changes straight away', () => {
+    renderSection();
+
+    fireEvent.change(screen.getByLabelText('Top P'), { target: { value: '0.9' } });
+    fireEvent.change(screen.getByLabelText('Stop sequences (one per line)'), { target: { value: 'User:\nAI:' } });
+
+    expect(onChange).toHaveBeenLastCalledWith({ topP: 0.9, stop: ['User:', 'AI:'] });
+  });
+
+  it('holds back values outside the allowed range', () => {
+    renderSection({ temperature: 1 });
+
+    fireEvent.change(screen.getByLabelText('Temperature'), { target: { value: '5' } });
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(screen.getByLabelText('Temperature')).toHaveAttribute('aria-invalid', 'true');
+    expect(screen.getByRole('alert')).toHaveTextContent('Must be between 0 and 2');
+  });
+
+  it('resets to the defaults', () => {
+    renderSection({ temperature: 1.5 });
+
+    fireEvent.change(screen.getByLabelText('Max tokens'), { target: { value: '0' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Reset to defaults' }));
+
+    expect(onChange).toHaveBeenCalledWith(undefined);
+    expect(screen.getByLabelText('Temperature')).toHaveValue(null);
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,102 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import InputSettingsSection from '../InputSettingsSection';
+
+describe('InputSettingsSection Component', () => {
+  const onPushToTalkKeyChange = jest.fn();
+  const onDisambiguationThresholdChange = jest.fn();
+  const onReviewTranscriptsChange = jest.fn();
+  const onAutoSendConfidenceChange = jest.fn();
+  const onRecordAudioChange = jest.fn();
+
+  const renderSection = (reviewTranscripts = false, recordingSupported = true) => render(
+    <InputSettingsSection
+      pushToTalkKey="Space"
+      disambiguationThreshold={0.8}
+      reviewTranscripts={reviewTranscripts}
+      autoSendConfidence={0.9}
+      onPushToTalkKeyChange={onPushToTalkKeyChange}
+      onDisambiguationThresholdChange={onDisambiguationThresholdChange}
+      onReviewTranscriptsChange={onReviewTranscriptsChange}
+      onAutoSendConfidenceChange={onAutoSendConfidenceChange}
+      recordAudio={false}
+      recordingSupported={recordingSupported}
+      onRecordAudioChange={onRecordAudioChange}
+    />
+  );
+
+  it('shows the current push-to-talk key', () => {
+    renderSection();
+
+    expect(screen.getByRole('button', { name: 'Push-to-talk key' })).toHaveAccessibleDescription('Space');
+  });
+
+  it('captures the next key pressed', () => {
+    renderSection();
+
+    const button = screen.getByRole('button', { name: 'Push-to-talk key' });
+    fireEvent.click(button);
+    expect(button).toHaveTextContent('Press a key…');
+
+    fireEvent.keyDown(button, { code: 'KeyT', key: 't' });
+
+    expect(onPushToTalkKeyChange).toHaveBeenCalledWith('KeyT');
+    expect(button).toHaveTextContent('Change');
+  });
+
+  it('keeps the key when capture is cancelled with Escape', () => {
+    renderSection();
+
+    const button = screen.getByRole('button', { name: 'Push-to-talk key' });
+    fireEvent.click(button);
+    fireEvent.keyDown(button, { code: 'Escape', key: 'Escape' });
+
+    expect(onPushToTalkKeyChange).not.toHaveBeenCalled();
+    expect(button).toHaveTextContent('Change');
+  });
+
+  it('only enables the auto-send threshold while reviewing transcripts', () => {
+    renderSection();
+
+    expect(screen.getByRole('slider', { name: 'Auto-send above' })).toBeDisabled();
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Review transcripts before sending' }));
+    expect(onReviewTranscriptsChange).toHaveBeenCalledWith(true);
+  });
+
+  it('updates the auto-send threshold', () => {
+    renderSection(true);
+
+    const slider = screen.getByRole('slider', { name: 'Auto-send above' });
+    expect(slider).toBeEnabled();
+    expect(screen.getByText('90%')).toBeInTheDocument();
+
+    fireEvent.change(slider, { target: { value: '0.75' } });
+    expect(onAutoSendConfidenceChange).toHaveBeenCalledWith(0.75);
+  });
+
+  it('updates the threshold for offering alternatives', () => {
+    renderSection();
+
+    const slider = screen.getByRole('slider', { name: 'Offer alternatives below' });
+    expect(screen.getByText('80%')).toBeInTheDocument();
+
+    fireEvent.change(slider, { target: { value: '0.6' } });
+    expect(onDisambiguationThresholdChange).toHaveBeenCalledWith(0.6);
+  });
+
+  it('switches recording of spoken messages on', () => {
+    renderSection();
+
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Keep a recording of what I say' }));
+    expect(onRecordAudioChange).toHaveBeenCalledWith(true);
+  });
+
+  it('explains when the browser cannot record', () => {
+    renderSection(false, false);
+
+    const checkbox = screen.getByRole('checkbox', { name: 'Keep a recording of what I say' });
+    expect(checkbox).toBeDisabled();
+    expect(checkbox).toHaveAccessibleDescription('This browser cannot record audio.');
+  });
+});
@@ -0,0 +1,38 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import MarkdownContent from '../MarkdownContent';
+
+describe('MarkdownContent Component', () => {
+  it('renders lists, tables and headings', () => {
+    render(<MarkdownContent text={'## Plan\n1. Mix\n2. Bake\n\n| Item | Cost |\n| --- | ---: |\n| Flour | 2 |'} />);
+
+    expect(screen.getByRole('heading', { level: 2, name: 'Plan' })).toBeInTheDocument();
+    expect(screen.getAllByRole('listitem').map(item => item.textContent)).toEqual(['Mix', 'Bake']);
+    expect(screen.getByRole('columnheader', { name: 'Cost' })).toHaveStyle({ textAlign: 'right' });
+    expect(screen.getByRole('cell', { name: 'Flour' })).toBeInTheDocument();
+  });
+
+  it('opens links in a new tab and never renders HTML', () => {
+    render(<MarkdownContent text={'<img src=x onerror="alert(1)"> [site](https://example.com) [bad](javascript:alert(1))'} />);
+
+    expect(screen.queryByRole('img')).not.toBeInTheDocument();
+    expect(screen.getByText(/<img src=x/)).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'site' })).toHaveAttribute('rel', 'noopener noreferrer');
+    expect(screen.getAllByRole('link')).toHaveLength(1);
+  });
+
+  it('highlights code and copies it', async () => {
+    const writeText = jest.fn().mockResolvedValue(undefined);
+    Object.assign(navigator, { clipboard: { writeText } });
+    render(<MarkdownContent text={'```python\nreturn 1\n```'} />);
+
+    expect(screen.getByText('Python')).toBeInTheDocument();
+    expect(screen.getByText('return')).toHaveClass('token-keyword');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Copy code' }));
+
+    expect(await screen.findByText('Copied')).toBeInTheDocument();
+    expect(writeText).toHaveBeenCalledWith('return 1');
+  });
+});
@@ -0,0 +1,74 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import MessageComposer from '../MessageComposer';
+
+describe('MessageComposer Component', () => {
+  const onSend = jest.fn();
+  const onSpeakReplyChange = jest.fn();
+
+  const renderComposer = (props: Partial<React.ComponentProps<typeof MessageComposer>> = {}) => render(
+    <MessageComposer onSend={onSend} speakReply={true} onSpeakReplyChange={onSpeakReplyChange} {...props} />
+  );
+
+  it('sends the trimmed message on Enter and clears the field', () => {
+    renderComposer();
+
+    const input = screen.getByRole('textbox', { name: 'Message' });
+    fireEvent.change(input, { target: { value: '  Hello there  ' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(onSend).toHaveBeenCalledWith('Hello there');
+    expect(input).toHaveValue('');
+  });
+
+  it('keeps Shift+Enter for new lines', () => {
+    renderComposer();
+
+    const input = screen.getByRole('textbox', { name: 'Message' });
+    fireEvent.change(input, { target: { value: 'First line' } });
+    fireEvent.keyDown(input, { key: 'Enter', shiftKey: true });
+
+    expect(onSend).not.toHaveBeenCalled();
+    expect(input).toHaveValue('First line');
+  });
+
+  it('sends with the send button', () => {
+    renderComposer();
+
+    const sendButton = screen.getByRole('button', { name: 'Send message' });
+    expect(sendButton).toBeDisabled();
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'Message' }), { target: { value: 'https://example.com' } });
+    fireEvent.click(sendButton);
+
+    expect(onSend).toHaveBeenCalledWith('https://example.com');
+  });
+
+  it('does not send blank messages', () => {
+    renderComposer();
+
+    const input = screen.getByRole('textbox', { name: 'Message' });
+    fireEvent.change(input, { target: { value: '   ' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(onSend).not.toHaveBeenCalled();
+  });
+
+  it('toggles whether the reply is spoken', () => {
+    renderComposer({ speakReply: false });
+
+    const toggle = screen.getByRole('button', { name: 'Speak reply' });
+    expect(toggle).toHaveAttribute('aria-pressed', 'false');
+
+    fireEvent.click(toggle);
+    expect(onSpeakReplyChange).toHaveBeenCalledWith(true);
+  });
+
+  it('can be disabled', () => {
+    renderComposer({ disabled: true });
+
+    expect(screen.getByRole('textbox', { name: 'Message' })).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Send message' })).toBeDisabled();
+  });
+});
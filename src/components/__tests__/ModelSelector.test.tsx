@@ -0,0 +1,66 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import ModelSelector from '../ModelSelector';
+
+describe('ModelSelector Component', () => {
+  const onChange = jest.fn();
+  const onRetry = jest.fn();
+
+  it('lists the backend models and reports the selection', () => {
+    render(
+      <ModelSelector
+        models={['llama3.2', 'mistral']}
+        selectedModel="llama3.2"
+        loading={false}
+        error={null}
+        onChange={onChange}
+        onRetry={onRetry}
+      />
+    );
+
+    const select = screen.getByRole('combobox', { name: 'Model' });
+    expect(select).toHaveValue('llama3.2');
+    expect(screen.getAllByRole('option')).toHaveLength(2);
+
+    fireEvent.change(select, { target: { value: 'mistral' } });
+    expect(onChange).toHaveBeenCalledWith('mistral');
+  });
+
+  it('shows a loading state', () => {
+    render(
+      <ModelSelector
+        models={[]}
+        selectedModel="llama3.2"
+        loading={true}
+        error={null}
+        onChange={onChange}
+        onRetry={onRetry}
+      />
+    );
+
+    const select = screen.getByRole('combobox', { name: 'Model' });
+    expect(select).toBeDisabled();
+    expect(select).toHaveAttribute('aria-busy', 'true');
+    expect(screen.getByText('Loading models…')).toBeInTheDocument();
+  });
+
+  it('shows the error with a retry action and keeps the current model', () => {
+    render(
+      <ModelSelector
+        models={[]}
+        selectedModel="llama3.2"
+        loading={false}
+        error="API request failed with status 500"
+        onChange={onChange}
+        onRetry={onRetry}
+      />
+    );
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Could not load models: API request failed with status 500');
+    expect(screen.getByRole('option', { name: 'llama3.2' })).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+    expect(onRetry).toHaveBeenCalled();
+  });
+});
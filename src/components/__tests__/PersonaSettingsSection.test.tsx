@@ -0,0 +1,108 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import PersonaSettingsSection from '../PersonaSettingsSection';
+import PersonaSelector from '../PersonaSelector';
+import { Persona } from '../../services/personas';
+
+const voices = [
+  { name: 'Samantha', lang: 'en-US', voiceURI: 'samantha' },
+  { name: 'Thomas', lang: 'fr-FR', voiceURI: 'thomas' }
+] as SpeechSynthesisVoice[];
+
+const tutor: Persona = {
+  id: 'tutor',
+  name: 'Tutor',
+  systemPrompt: 'Correct my French.',
+  voiceId: null,
+  language: 'fr-FR',
+  parameters: { temperature: 0.7 },
+};
+
+describe('PersonaSettingsSection Component', () => {
+  const onChange = jest.fn();
+
+  const renderSection = () => render(
+    <PersonaSettingsSection personas={[tutor]} voices={voices} onChange={onChange} />
+  );
+
+  it('edits a persona', () => {
+    renderSection();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit Tutor' }));
+    expect(screen.getByLabelText('System prompt')).toHaveValue('Correct my French.');
+    expect(screen.getByLabelText('Language')).toHaveValue('fr-FR');
+    expect(screen.getByLabelText('Temperature')).toHaveValue(0.7);
+
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'French tutor' } });
+    fireEvent.change(screen.getByLabelText('Voice'), { target: { value: 'thomas' } });
+    fireEvent.change(screen.getByLabelText('Temperature'), { target: { value: '' } });
+    fireEvent.change(screen.getByLabelText('Max tokens'), { target: { value: '200' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save persona' }));
+
+    expect(onChange).toHaveBeenCalledWith([{
+      ...tutor,
+      name: 'French tutor',
+      voiceId: 'thomas',
+      parameters: { maxTokens: 200 },
+    }]);
+    expect(screen.queryByRole('button', { name: 'Save persona' })).not.toBeInTheDocument();
+  });
+
+  it('does not save parameters outside their range', () => {
+    renderSection();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit Tutor' }));
+    fireEvent.change(screen.getByLabelText('Top P'), { target: { value: '1.5' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save persona' }));
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(screen.getByRole('alert')).toHaveTextContent('Must be between 0 and 1');
+  });
+
+  it('discards edits on cancel', () => {
+    renderSection();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit Tutor' }));
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Changed' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('adds a new persona', () => {
+    renderSection();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add persona' }));
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Chef' } });
+    fireEvent.change(screen.getByLabelText('System prompt'), { target: { value: '  Suggest recipes.  ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save persona' }));
+
+    expect(onChange).toHaveBeenCalledWith([
+      tutor,
+      expect.objectContaining({ name: 'Chef', systemPrompt: 'Suggest recipes.', voiceId: null, language: null }),
+    ]);
+  });
+
+  it('deletes a persona', () => {
+    renderSection();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete Tutor' }));
+
+    expect(onChange).toHaveBeenCalledWith([]);
+  });
+});
+
+describe('PersonaSelector Component', () => {
+  const onChange = jest.fn();
+
+  it('picks a persona or none', () => {
+    render(<PersonaSelector personas={[tutor]} personaId="tutor" onChange={onChange} />);
+
+    const selector = screen.getByRole('combobox', { name: 'Persona' });
+    expect(selector).toHaveValue('tutor');
+
+    fireEvent.change(selector, { target: { value: '' } });
+    expect(onChange).toHaveBeenCalledWith(null);
+  });
+});
@@ -0,0 +1,32 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import SpeechProvider from '../SpeechProvider';
+import { ConfigContext } from '../../hooks/useConfig';
+import { useSpeechController } from '../../hooks/useSpeechController';
+import { AppConfig, DEFAULT_CONFIG } from '../../services/config';
+
+const EngineName: React.FC = () => <span>{useSpeechController().engine.kind}</span>;
+
+const renderWith = (config: AppConfig) =>
+  render(
+    <ConfigContext.Provider value={{ config, base: config, overrides: {}, setOverrides: jest.fn() }}>
+      <SpeechProvider>
+        <EngineName />
+      </SpeechProvider>
+    </ConfigContext.Provider>
+  );
+
+describe('SpeechProvider Component', () => {
+  it('speaks with the browser by default', () => {
+    renderWith(DEFAULT_CONFIG);
+
+    expect(screen.getByText('browser')).toBeInTheDocument();
+  });
+
+  it('speaks through the configured speech server', () => {
+    renderWith({ ...DEFAULT_CONFIG, speechEngine: 'http' });
+
+    expect(screen.getByText('http')).toBeInTheDocument();
+  });
+});
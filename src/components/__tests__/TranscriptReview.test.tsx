@@ -0,0 +1,54 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import TranscriptReview from '../TranscriptReview';
+
+describe('TranscriptReview Component', () => {
+  const onSend = jest.fn();
+  const onDiscard = jest.fn();
+
+  it('shows the transcript and confidence ready for editing', () => {
+    render(<TranscriptReview transcript="Hello word" confidence={0.72} onSend={onSend} onDiscard={onDiscard} />);
+
+    const textarea = screen.getByRole('textbox', { name: /heard with 72% confidence/i });
+    expect(textarea).toHaveValue('Hello word');
+    expect(textarea).toHaveFocus();
+  });
+
+  it('sends the edited transcript', () => {
+    render(<TranscriptReview transcript="Hello word" confidence={0.72} onSend={onSend} onDiscard={onDiscard} />);
+
+    fireEvent.change(screen.getByRole('textbox'), { target: { value: 'Hello world ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Send' }));
+
+    expect(onSend).toHaveBeenCalledWith('Hello world');
+  });
+
+  it('sends on Enter and keeps Shift+Enter for new lines', () => {
+    render(<TranscriptReview transcript="Hello" confidence={0} onSend={onSend} onDiscard={onDiscard} />);
+
+    const textarea = screen.getByRole('textbox', { name: /check what was heard/i });
+    fireEvent.keyDown(textarea, { key: 'Enter', shiftKey: true });
+    expect(onSend).not.toHaveBeenCalled();
+
+    fireEvent.keyDown(textarea, { key: 'Enter' });
+    expect(onSend).toHaveBeenCalledWith('Hello');
+  });
+
+  it('discards on Escape', () => {
+    render(<TranscriptReview transcript="Hello" confidence={0.5} onSend={onSend} onDiscard={onDiscard} />);
+
+    fireEvent.keyDown(screen.getByRole('textbox'), { key: 'Escape' });
+
+    expect(onDiscard).toHaveBeenCalled();
+    expect(onSend).not.toHaveBeenCalled();
+  });
+
+  it('does not send an empty transcript', () => {
+    render(<TranscriptReview transcript="Hello" confidence={0.5} onSend={onSend} onDiscard={onDiscard} />);
+
+    fireEvent.change(screen.getByRole('textbox'), { target: { value: '   ' } });
+
+    expect(screen.getByRole('button', { name: 'Send' })).toBeDisabled();
+  });
+});
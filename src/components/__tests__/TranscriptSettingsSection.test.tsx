@@ -0,0 +1,52 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import TranscriptSettingsSection from '../TranscriptSettingsSection';
+import { DEFAULT_NORMALIZER_OPTIONS } from '../../utils/transcriptNormalizer';
+
+describe('TranscriptSettingsSection Component', () => {
+  const onChange = jest.fn();
+  const options = {
+    ...DEFAULT_NORMALIZER_OPTIONS,
+    replacements: [{ from: 'cube control', to: 'kubectl' }],
+  };
+
+  it('switches cleanup steps on and off', () => {
+    render(<TranscriptSettingsSection options={options} onChange={onChange} />);
+
+    expect(screen.getByRole('checkbox', { name: 'Capitalize sentences' })).toBeChecked();
+    fireEvent.click(screen.getByRole('checkbox', { name: /spoken punctuation/i }));
+
+    expect(onChange).toHaveBeenCalledWith({ ...options, spokenPunctuation: false });
+  });
+
+  it('edits the replacement dictionary', () => {
+    render(<TranscriptSettingsSection options={options} onChange={onChange} />);
+
+    expect(screen.getByRole('textbox', { name: 'Heard 1' })).toHaveValue('cube control');
+    fireEvent.change(screen.getByRole('textbox', { name: 'Replace with 1' }), { target: { value: 'kubectl!' } });
+    expect(onChange).toHaveBeenLastCalledWith({ ...options, replacements: [{ from: 'cube control', to: 'kubectl!' }] });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add replacement' }));
+    expect(onChange).toHaveBeenLastCalledWith({
+      ...options,
+      replacements: [{ from: 'cube control', to: 'kubectl' }, { from: '', to: '' }],
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove replacement 1' }));
+    expect(onChange).toHaveBeenLastCalledWith({ ...options, replacements: [] });
+  });
+
+  it('resets the steps but keeps the replacements', () => {
+    render(
+      <TranscriptSettingsSection
+        options={{ ...options, capitalize: false, numbers: false }}
+        onChange={onChange}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Reset cleanup steps' }));
+
+    expect(onChange).toHaveBeenCalledWith(options);
+  });
+});
@@ -2,6 +2,9 @@ import React from 'react';
 import { render, screen, fireEvent, act } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import VoiceButton from '../VoiceButton';
+import { WhisperEngine } from '../../services/recognition';
+import { createFakeMicrophone } from '../../test-utils/fakeMicrophone';
+import { createMockServer } from '../../test-utils/mockServer';
 
 // Mock the Web Speech API
 interface SpeechRecognitionEvent {
@@ -37,6 +40,22 @@ class MockSpeechRecognition {
 
 let mockRecognitionInstance: MockSpeechRecognition;
 
+const resultEvent = (resultIndex: number, results: { transcript: string; isFinal: boolean }[]): SpeechRecognitionEvent => ({
+  resultIndex,
+  results: {
+    length: results.length,
+    item: (index: number) => ({
+      isFinal: results[index].isFinal,
+      length: 1,
+      item: () => ({ transcript: results[index].transcript, confidence: 0.9 })
+    })
+  },
+  type: 'result',
+  bubbles: false,
+  cancelable: false,
+  timeStamp: Date.now()
+});
+
 describe('VoiceButton Component', () => {
   const mockOnSpeechResult = jest.fn();
 
@@ -93,6 +112,16 @@ describe('VoiceButton Component', () => {
     expect(mockRecognitionInstance.lang).toBe('en-US');
   });
 
+  it('recognises the language it is given', async () => {
+    render(<VoiceButton onSpeechResult={mockOnSpeechResult} lang="de-DE" />);
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Start voice input' }));
+    });
+
+    expect(mockRecognitionInstance.lang).toBe('de-DE');
+  });
+
   it('handles successful speech recognition', async () => {
     render(<VoiceButton onSpeechResult={mockOnSpeechResult} />);
 
@@ -129,7 +158,11 @@ describe('VoiceButton Component', () => {
       mockRecognitionInstance.onend?.();
     });
 
-    expect(mockOnSpeechResult).toHaveBeenCalledWith(testText);
+    expect(mockOnSpeechResult).toHaveBeenCalledWith({
+      transcript: testText,
+      confidence: 0.9,
+      alternatives: [{ transcript: testText, confidence: 0.9 }]
+    });
     expect(button).not.toHaveClass('listening');
     expect(button).toHaveAttribute('aria-pressed', 'false');
     expect(button).not.toBeDisabled();
@@ -169,7 +202,14 @@ describe('VoiceButton Component', () => {
       mockRecognitionInstance.onend?.();
     });
 
-    expect(mockOnSpeechResult).toHaveBeenCalledWith('Low confidence 1 OR Low confidence 2 OR Low confidence 3');
+    // Every reading is passed on so the user can choose between them
+    const result = mockOnSpeechResult.mock.calls[0][0];
+    expect(result).toMatchObject({ transcript: 'Low confidence 1', confidence: 0.4 });
+    expect(result.alternatives.map((alternative: { transcript: string }) => alternative.transcript)).toEqual([
+      'Low confidence 1',
+      'Low confidence 2',
+      'Low confidence 3'
+    ]);
     expect(button).not.toHaveClass('listening');
     expect(button).toHaveAttribute('aria-pressed', 'false');
     expect(button).not.toBeDisabled();
@@ -230,4 +270,246 @@ describe('VoiceButton Component', () => {
 
     consoleSpy.mockRestore();
   });
+
+  describe('push-to-talk mode', () => {
+    it('records while the button is held and sends on release', async () => {
+      render(<VoiceButton onSpeechResult={mockOnSpeechResult} mode="push-to-talk" />);
+
+      const button = screen.getByRole('button', { name: 'Hold to talk (or hold Space)' });
+
+      await act(async () => {
+        fireEvent.pointerDown(button);
+      });
+
+      expect(mockRecognitionInstance.start).toHaveBeenCalled();
+      expect(mockRecognitionInstance.continuous).toBe(true);
+      expect(button).toHaveAttribute('aria-pressed', 'true');
+      expect(button).not.toBeDisabled();
+
+      await act(async () => {
+        mockRecognitionInstance.onresult?.(resultEvent(0, [{ transcript: 'first part', isFinal: true }]));
+        mockRecognitionInstance.onresult?.(resultEvent(1, [
+          { transcript: 'first part', isFinal: true },
+          { transcript: 'second', isFinal: false }
+        ]));
+      });
+
+      // Nothing is sent while the button is still held
+      expect(mockOnSpeechResult).not.toHaveBeenCalled();
+
+      await act(async () => {
+        fireEvent.pointerUp(button);
+      });
+      expect(mockRecognitionInstance.stop).toHaveBeenCalled();
+
+      await act(async () => {
+        mockRecognitionInstance.onend?.();
+      });
+
+      expect(mockOnSpeechResult).toHaveBeenCalledTimes(1);
+      // The trailing words were never confirmed, so the confidence is unknown
+      expect(mockOnSpeechResult).toHaveBeenCalledWith(expect.objectContaining({ transcript: 'first part second', confidence: 0 }));
+      expect(button).toHaveAttribute('aria-pressed', 'false');
+    });
+
+    it('records while the configured key is held', async () => {
+      render(<VoiceButton onSpeechResult={mockOnSpeechResult} mode="push-to-talk" pushToTalkKey="KeyT" />);
+
+      expect(screen.getByRole('button', { name: 'Hold to talk (or hold T)' })).toBeInTheDocument();
+
+      await act(async () => {
+        fireEvent.keyDown(window, { code: 'KeyT', key: 't' });
+        fireEvent.keyDown(window, { code: 'KeyT', key: 't', repeat: true });
+      });
+      expect(mockRecognitionInstance.start).toHaveBeenCalledTimes(1);
+
+      await act(async () => {
+        mockRecognitionInstance.onresult?.(resultEvent(0, [{ transcript: 'hello there', isFinal: true }]));
+        fireEvent.keyUp(window, { code: 'KeyT', key: 't' });
+        mockRecognitionInstance.onend?.();
+      });
+
+      expect(mockRecognitionInstance.stop).toHaveBeenCalled();
+      expect(mockOnSpeechResult).toHaveBeenCalledWith(expect.objectContaining({ transcript: 'hello there', confidence: 0.9 }));
+    });
+
+    it('ignores the key while typing in a field', async () => {
+      render(
+        <>
+          <input aria-label="Notes" />
+          <VoiceButton onSpeechResult={mockOnSpeechResult} mode="push-to-talk" />
+        </>
+      );
+
+      await act(async () => {
+        fireEvent.keyDown(screen.getByLabelText('Notes'), { code: 'Space', key: ' ' });
+      });
+
+      expect(mockRecognitionInstance.start).not.toHaveBeenCalled();
+    });
+
+    it('cancels without sending on Escape', async () => {
+      render(<VoiceButton onSpeechResult={mockOnSpeechResult} mode="push-to-talk" />);
+
+      await act(async () => {
+        fireEvent.keyDown(window, { code: 'Space', key: ' ' });
+        mockRecognitionInstance.onresult?.(resultEvent(0, [{ transcript: 'never mind', isFinal: true }]));
+        fireEvent.keyDown(window, { code: 'Escape', key: 'Escape' });
+        fireEvent.keyUp(window, { code: 'Space', key: ' ' });
+        mockRecognitionInstance.onend?.();
+      });
+
+      expect(mockRecognitionInstance.stop).toHaveBeenCalled();
+      expect(mockOnSpeechResult).not.toHaveBeenCalled();
+    });
+  });
+
+  it('reports interim text while listening and clears it at the end', async () => {
+    const onInterimTranscript = jest.fn();
+    render(<VoiceButton onSpeechResult={mockOnSpeechResult} onInterimTranscript={onInterimTranscript} />);
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Start voice input' }));
+    });
+
+    await act(async () => {
+      mockRecognitionInstance.onresult?.(resultEvent(0, [{ transcript: 'what is', isFinal: false }]));
+      mockRecognitionInstance.onresult?.(resultEvent(0, [{ transcript: 'what is the time', isFinal: false }]));
+    });
+
+    expect(onInterimTranscript).toHaveBeenLastCalledWith('what is the time');
+    expect(mockOnSpeechResult).not.toHaveBeenCalled();
+
+    await act(async () => {
+      mockRecognitionInstance.onresult?.(resultEvent(0, [{ transcript: 'what is the time', isFinal: true }]));
+    });
+
+    expect(onInterimTranscript).toHaveBeenLastCalledWith('');
+    expect(mockOnSpeechResult).toHaveBeenCalledWith(expect.objectContaining({ transcript: 'what is the time', confidence: 0.9 }));
+  });
+
+  it('cancels a click-mode recording on Escape', async () => {
+    render(<VoiceButton onSpeechResult={mockOnSpeechResult} />);
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Start voice input' }));
+    });
+
+    let notHandled = true;
+    await act(async () => {
+      notHandled = fireEvent.keyDown(window, { code: 'Escape', key: 'Escape' });
+      mockRecognitionInstance.onresult?.(resultEvent(0, [{ transcript: 'too late', isFinal: true }]));
+      mockRecognitionInstance.onend?.();
+    });
+
+    expect(mockRecognitionInstance.stop).toHaveBeenCalled();
+    expect(mockOnSpeechResult).not.toHaveBeenCalled();
+    // Handled here, so Escape does not also cancel a reply in flight
+    expect(notHandled).toBe(false);
+  });
+
+  describe('recording audio', () => {
+    let microphone: ReturnType<typeof createFakeMicrophone>;
+
+    beforeEach(() => {
+      microphone = createFakeMicrophone().install();
+    });
+
+    afterEach(() => {
+      microphone.restore();
+    });
+
+    it('hands over a recording of the utterance with the result', async () => {
+      render(<VoiceButton onSpeechResult={mockOnSpeechResult} recordAudio />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Start voice input' }));
+      await act(async () => {
+        mockRecognitionInstance.onresult?.(resultEvent(0, [{ transcript: 'hello', isFinal: true }]));
+        mockRecognitionInstance.onend?.();
+      });
+
+      const [result, recording] = mockOnSpeechResult.mock.calls[0];
+      expect(result.transcript).toBe('hello');
+      expect(await recording).toEqual(expect.objectContaining({ mimeType: 'audio/webm;codecs=opus' }));
+      expect(microphone.track.stop).toHaveBeenCalled();
+    });
+
+    it('does not record unless asked to', async () => {
+      render(<VoiceButton onSpeechResult={mockOnSpeechResult} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Start voice input' }));
+      await act(async () => {
+        mockRecognitionInstance.onresult?.(resultEvent(0, [{ transcript: 'hello', isFinal: true }]));
+      });
+
+      expect(microphone.getUserMedia).not.toHaveBeenCalled();
+      expect(mockOnSpeechResult.mock.calls[0][1]).toBeUndefined();
+    });
+
+    it('throws the recording away when nothing was recognised', async () => {
+      render(<VoiceButton onSpeechResult={mockOnSpeechResult} recordAudio />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Start voice input' }));
+      await act(async () => {
+        mockRecognitionInstance.onerror?.({ error: 'no-speech' });
+        mockRecognitionInstance.onend?.();
+        await new Promise(resolve => setTimeout(resolve, 10));
+      });
+
+      expect(mockOnSpeechResult).not.toHaveBeenCalled();
+      expect(microphone.recorders[0].state).toBe('inactive');
+      expect(microphone.track.stop).toHaveBeenCalled();
+    });
+
+    it('still recognises speech when the microphone cannot be recorded', async () => {
+      microphone.getUserMedia.mockRejectedValue(new DOMException('Permission denied', 'NotAllowedError'));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      render(<VoiceButton onSpeechResult={mockOnSpeechResult} recordAudio />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Start voice input' }));
+      await act(async () => {
+        mockRecognitionInstance.onresult?.(resultEvent(0, [{ transcript: 'hello', isFinal: true }]));
+      });
+
+      expect(mockOnSpeechResult.mock.calls[0][0].transcript).toBe('hello');
+      expect(await mockOnSpeechResult.mock.calls[0][1]).toBeNull();
+    });
+  });
+
+  describe('with a transcription server', () => {
+    const server = createMockServer('http://whisper.local');
+    let microphone: ReturnType<typeof createFakeMicrophone>;
+
+    beforeEach(() => {
+      server.install().on('POST', '/v1/audio/transcriptions', { json: { text: ' hello there ' } });
+      microphone = createFakeMicrophone().install();
+    });
+
+    afterEach(() => {
+      server.restore();
+      microphone.restore();
+    });
+
+    it('sends what was recorded while held and keeps that one recording', async () => {
+      const engine = new WhisperEngine({ baseUrl: 'http://whisper.local', model: 'whisper-1' });
+      render(<VoiceButton onSpeechResult={mockOnSpeechResult} mode="push-to-talk" engine={engine} recordAudio />);
+      const button = screen.getByRole('button', { name: 'Hold to talk (or hold Space)' });
+
+      fireEvent.pointerDown(button);
+      await act(async () => {
+        await new Promise(resolve => setTimeout(resolve, 0));
+      });
+      fireEvent.pointerUp(button);
+      await act(async () => {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      });
+
+      const [result, recording] = mockOnSpeechResult.mock.calls[0];
+      expect(result).toEqual({ transcript: 'hello there', confidence: 0, alternatives: [{ transcript: 'hello there', confidence: 0 }] });
+      expect(await recording).toEqual(expect.objectContaining({ mimeType: 'audio/webm;codecs=opus' }));
+      expect(microphone.recorders).toHaveLength(1);
+      expect(mockRecognitionInstance.start).not.toHaveBeenCalled();
+      expect(button).toHaveAttribute('aria-pressed', 'false');
+    });
+  });
 });
@@ -0,0 +1,70 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import VoiceSettingsSection from '../VoiceSettingsSection';
+import { DEFAULT_VOICE_SETTINGS } from '../../services/speech';
+
+const voices = [
+  { name: 'Samantha', lang: 'en-US', voiceURI: 'samantha' },
+  { name: 'Thomas', lang: 'fr-FR', voiceURI: 'thomas' }
+] as SpeechSynthesisVoice[];
+
+describe('VoiceSettingsSection Component', () => {
+  const onChange = jest.fn();
+  const onPreview = jest.fn();
+  const onMatchReplyLanguageChange = jest.fn();
+
+  const renderSection = () => render(
+    <VoiceSettingsSection
+      settings={DEFAULT_VOICE_SETTINGS}
+      voices={voices}
+      matchReplyLanguage={true}
+      onChange={onChange}
+      onMatchReplyLanguageChange={onMatchReplyLanguageChange}
+      onPreview={onPreview}
+    />
+  );
+
+  it('lists voices grouped by language', () => {
+    renderSection();
+
+    const select = screen.getByLabelText('Voice');
+    expect(within(select).getByRole('group', { name: /English/ })).toContainElement(
+      within(select).getByRole('option', { name: 'Samantha' })
+    );
+    expect(within(select).getByRole('group', { name: /French/ })).toContainElement(
+      within(select).getByRole('option', { name: 'Thomas' })
+    );
+  });
+
+  it('reports voice and slider changes', () => {
+    renderSection();
+
+    fireEvent.change(screen.getByLabelText('Voice'), { target: { value: 'thomas' } });
+    expect(onChange).toHaveBeenLastCalledWith({ ...DEFAULT_VOICE_SETTINGS, voiceId: 'thomas' });
+
+    fireEvent.change(screen.getByLabelText('Rate'), { target: { value: '1.5' } });
+    expect(onChange).toHaveBeenLastCalledWith({ ...DEFAULT_VOICE_SETTINGS, rate: 1.5 });
+
+    fireEvent.change(screen.getByLabelText('Volume'), { target: { value: '0.5' } });
+    expect(onChange).toHaveBeenLastCalledWith({ ...DEFAULT_VOICE_SETTINGS, volume: 0.5 });
+  });
+
+  it('previews the voice', () => {
+    renderSection();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Preview' }));
+
+    expect(onPreview).toHaveBeenCalled();
+  });
+
+  it('toggles matching the voice to the reply language', () => {
+    renderSection();
+
+    const checkbox = screen.getByLabelText('Switch voice to the language of each reply');
+    expect(checkbox).toBeChecked();
+
+    fireEvent.click(checkbox);
+    expect(onMatchReplyLanguageChange).toHaveBeenCalledWith(false);
+  });
+});
@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+
+// How long `copied` stays true after copying
+const COPIED_NOTICE_MS = 2000;
+
+// Copies text to the clipboard and briefly reports that it did
+export const useClipboard = () => {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = window.setTimeout(() => setCopied(false), COPIED_NOTICE_MS);
+    return () => window.clearTimeout(timer);
+  }, [copied]);
+
+  const copy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+    } catch (error) {
+      console.error('Error copying text:', error);
+    }
+  };
+
+  return { copied, copy };
+};
@@ -0,0 +1,28 @@
+import { createContext, useContext } from 'react';
+import { AppConfig, buildConfig, ConfigValues } from '../services/config';
+
+export interface ConfigState {
+  // What the app runs with
+  config: AppConfig;
+  // The deployment's configuration, before the user's own settings
+  base: AppConfig;
+  // The user's own settings, only where they differ from the deployment
+  overrides: ConfigValues;
+  setOverrides: (overrides: ConfigValues) => void;
+}
+
+export const ConfigContext = createContext<ConfigState | null>(null);
+
+let buildTimeState: ConfigState | null = null;
+
+// Without a provider, as in most tests, the build-time configuration applies
+// and cannot be changed
+const getBuildTimeState = (): ConfigState => {
+  if (!buildTimeState) {
+    const { config } = buildConfig();
+    buildTimeState = { config, base: config, overrides: {}, setOverrides: () => {} };
+  }
+  return buildTimeState;
+};
+
+export const useConfig = (): ConfigState => useContext(ConfigContext) ?? getBuildTimeState();
@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { RecognitionEngine, RecognitionSession } from '../services/recognition';
+import {
+  ConversationEvent,
+  conversationReducer,
+  ConversationState,
+  isMicrophoneOpen
+} from '../utils/conversationMachine';
+import { useSpeechController, useSpeechEvents } from './useSpeechController';
+
+// Recognition errors after which retrying is pointless
+const FATAL_RECOGNITION_ERRORS = ['not-allowed', 'service-not-allowed', 'audio-capture'];
+
+interface ConversationModeOptions {
+  lang: string;
+  engine: RecognitionEngine;
+  // Sends the user's utterance; resolves once the whole reply has arrived
+  onUtterance: (text: string) => Promise<void>;
+  // Called when the user talks over the reply, before the new utterance is
+  // sent; the interrupted reply should be abandoned
+  onBargeIn?: () => void;
+}
+
+export interface ConversationMode {
+  state: ConversationState;
+  start: () => void;
+  stop: () => void;
+}
+
+// Hands-free loop: listen, send, speak the reply, listen again
+export const useConversationMode = ({ lang, engine, onUtterance, onBargeIn }: ConversationModeOptions): ConversationMode => {
+  const speech = useSpeechController();
+  const [state, setState] = useState<ConversationState>('idle');
+  // Recognition and speech callbacks can fire several transitions before
+  // React re-renders, so the current state is tracked eagerly in a ref
+  const stateRef = useRef<ConversationState>('idle');
+  // Bumped for every captured utterance so the microphone is reopened even
+  // when thinking and speaking were batched into a single render
+  const [utteranceCount, setUtteranceCount] = useState(0);
+  // Replies still being fetched. An interrupted reply can finish after the
+  // one that replaced it has started, so this is a count, not a flag.
+  const pendingRepliesRef = useRef(0);
+  const callbacksRef = useRef({ onUtterance, onBargeIn });
+  callbacksRef.current = { onUtterance, onBargeIn };
+
+  const dispatch = useCallback((event: ConversationEvent) => {
+    stateRef.current = conversationReducer(stateRef.current, event);
+    setState(stateRef.current);
+  }, []);
+
+  const finishReplyIfDone = useCallback(() => {
+    if (pendingRepliesRef.current === 0 && !speech.speaking) {
+      dispatch({ type: 'replyFinished' });
+    }
+  }, [speech, dispatch]);
+
+  useSpeechEvents(event => {
+    const current = stateRef.current;
+    if (event.type === 'started' && current === 'thinking') {
+      dispatch({ type: 'replyStarted' });
+    }
+    if ((event.type === 'ended' || event.type === 'error') && (current === 'thinking' || current === 'speaking')) {
+      finishReplyIfDone();
+    }
+  });
+
+  const handleUtterance = useCallback(async (text: string) => {
+    dispatch({ type: 'utterance' });
+    setUtteranceCount(count => count + 1);
+    pendingRepliesRef.current++;
+    try {
+      await callbacksRef.current.onUtterance(text);
+    } finally {
+      pendingRepliesRef.current--;
+      finishReplyIfDone();
+    }
+  }, [dispatch, finishReplyIfDone]);
+
+  const microphoneOpen = isMicrophoneOpen(state);
+
+  useEffect(() => {
+    if (!microphoneOpen) return;
+
+    if (!engine.isSupported()) {
+      console.error(engine.unsupportedMessage);
+      dispatch({ type: 'stop' });
+      return;
+    }
+
+    // Cleared once an utterance is captured or the effect is torn down, so
+    // listening is not restarted when it ends
+    let active = true;
+    let session: RecognitionSession | null = null;
+
+    const bargeIn = (heard: string) => {
+      if (heard.trim() && stateRef.current === 'speaking') {
+        speech.stop();
+        callbacksRef.current.onBargeIn?.();
+        dispatch({ type: 'bargeIn' });
+      }
+    };
+
+    const listen = () => {
+      try {
+        session = engine.listen({
+          lang,
+          continuous: false,
+          onInterim: bargeIn,
+          onResult: result => {
+            bargeIn(result.transcript);
+            if (result.transcript && active) {
+              active = false;
+              handleUtterance(result.transcript);
+            }
+          },
+          onError: error => {
+            console.error('Speech recognition error:', error);
+            if (FATAL_RECOGNITION_ERRORS.includes(error)) {
+              active = false;
+              dispatch({ type: 'stop' });
+            }
+          },
+          // Single-utterance recognition ends on silence; keep the microphone open
+          onEnd: () => {
+            if (active) {
+              listen();
+            }
+          }
+        });
+      } catch (error) {
+        console.error('Speech recognition error:', error);
+      }
+    };
+
+    listen();
+
+    return () => {
+      active = false;
+      session?.cancel();
+    };
+  }, [microphoneOpen, utteranceCount, lang, engine, speech, dispatch, handleUtterance]);
+
+  const start = useCallback(() => dispatch({ type: 'start' }), [dispatch]);
+
+  const stop = useCallback(() => {
+    dispatch({ type: 'stop' });
+    speech.stop();
+  }, [speech, dispatch]);
+
+  return { state, start, stop };
+};
@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ModelParameters } from '../services/chat';
+import {
+  Conversation,
+  ConversationStore,
+  createConversation,
+  isEmptyConversation,
+  Message,
+  openConversationStore
+} from '../services/conversations';
+import { usePersistentState } from './usePersistentState';
+
+// Streaming replies change a conversation many times a second; it is written
+// once things settle
+const SAVE_DELAY = 300;
+
+export interface ConversationsState {
+  // Most recently updated first
+  conversations: Conversation[];
+  active: Conversation;
+  loading: boolean;
+  create: () => void;
+  // Adds a conversation made elsewhere, such as an imported file, and opens it
+  add: (conversation: Conversation) => void;
+  select: (id: string) => void;
+  rename: (id: string, title: string) => void;
+  setPersona: (id: string, personaId: string | null) => void;
+  // undefined goes back to the persona's parameters
+  setParameters: (id: string, parameters: ModelParameters | undefined) => void;
+  remove: (id: string) => void;
+  // Updates a conversation's messages even after the user has switched away
+  updateMessages: (id: string, update: (messages: Message[]) => Message[]) => void;
+  // A conversation's messages including updates not rendered yet
+  messagesOf: (id: string) => Message[];
+}
+
+const byRecency = (a: Conversation, b: Conversation) => b.updatedAt - a.updatedAt;
+
+export const useConversations = (
+  openStore: () => Promise<ConversationStore> = openConversationStore
+): ConversationsState => {
+  const [conversations, setConversationState] = useState<Conversation[]>(() => [createConversation()]);
+  // Updated as soon as a change is made, so code running before the next
+  // render sees it too
+  const latestRef = useRef(conversations);
+  const [activeId, setActiveId] = usePersistentState<string | null>('activeConversationId', null);
+  const [store, setStore] = useState<ConversationStore | null>(null);
+  const [loading, setLoading] = useState(true);
+  // The version of each conversation last written to the store
+  const savedRef = useRef(new Map<string, Conversation>());
+
+  const setConversations = useCallback((update: (current: Conversation[]) => Conversation[]) => {
+    latestRef.current = update(latestRef.current);
+    setConversationState(latestRef.current);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const opened = await openStore();
+        const stored = await opened.list();
+        if (cancelled) return;
+
+        stored.forEach(conversation => savedRef.current.set(conversation.id, conversation));
+        setStore(opened);
+        // Keep anything started while loading
+        setConversations(current => {
+          const merged = [...current.filter(conversation => !isEmptyConversation(conversation)), ...stored];
+          return merged.length > 0 ? merged.sort(byRecency) : current;
+        });
+      } catch (error) {
+        console.error('Error loading conversations:', error);
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [openStore, setConversations]);
+
+  useEffect(() => {
+    if (!store) return;
+
+    const timer = setTimeout(() => {
+      conversations.forEach(conversation => {
+        if (savedRef.current.get(conversation.id) === conversation) return;
+        if (isEmptyConversation(conversation)) {
+          // Deleting every message leaves nothing worth keeping
+          if (savedRef.current.delete(conversation.id)) {
+            store.delete(conversation.id).catch(error => console.error('Error deleting conversation:', error));
+          }
+          return;
+        }
+        savedRef.current.set(conversation.id, conversation);
+        store.save(conversation).catch(error => console.error('Error saving conversation:', error));
+      });
+    }, SAVE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [conversations, store]);
+
+  // Falls back to the most recent conversation when the stored one is gone
+  const active = conversations.find(conversation => conversation.id === activeId) ?? conversations[0];
+
+  const create = useCallback(() => {
+    // Reuse a blank conversation rather than piling them up
+    const blank = conversations.find(isEmptyConversation);
+    if (blank) {
+      setActiveId(blank.id);
+      return;
+    }
+    const conversation = createConversation();
+    setConversations(current => [conversation, ...current]);
+    setActiveId(conversation.id);
+  }, [conversations, setActiveId, setConversations]);
+
+  const add = useCallback((conversation: Conversation) => {
+    setConversations(current => [conversation, ...current.filter(existing => !isEmptyConversation(existing))].sort(byRecency));
+    setActiveId(conversation.id);
+  }, [setActiveId, setConversations]);
+
+  const updateConversation = useCallback((id: string, update: (conversation: Conversation) => Conversation) => {
+    setConversations(current =>
+      current.map(conversation => (conversation.id === id ? update(conversation) : conversation)).sort(byRecency)
+    );
+  }, [setConversations]);
+
+  const rename = useCallback((id: string, title: string) => {
+    updateConversation(id, conversation => ({ ...conversation, title: title.trim() || null }));
+  }, [updateConversation]);
+
+  const setPersona = useCallback((id: string, personaId: string | null) => {
+    updateConversation(id, conversation => ({ ...conversation, personaId }));
+  }, [updateConversation]);
+
+  const setParameters = useCallback((id: string, parameters: ModelParameters | undefined) => {
+    updateConversation(id, conversation => ({ ...conversation, parameters }));
+  }, [updateConversation]);
+
+  const updateMessages = useCallback((id: string, update: (messages: Message[]) => Message[]) => {
+    updateConversation(id, conversation => ({
+      ...conversation,
+      messages: update(conversation.messages),
+      updatedAt: Date.now(),
+    }));
+  }, [updateConversation]);
+
+  const remove = useCallback((id: string) => {
+    setConversations(current => {
+      const remaining = current.filter(conversation => conversation.id !== id);
+      return remaining.length > 0 ? remaining : [createConversation()];
+    });
+    if (savedRef.current.delete(id)) {
+      store?.delete(id).catch(error => console.error('Error deleting conversation:', error));
+    }
+  }, [store, setConversations]);
+
+  const messagesOf = useCallback((id: string) =>
+    latestRef.current.find(conversation => conversation.id === id)?.messages ?? [], []);
+
+  return {
+    conversations,
+    active,
+    loading,
+    create,
+    add,
+    select: setActiveId,
+    rename,
+    setPersona,
+    setParameters,
+    remove,
+    updateMessages,
+    messagesOf,
+  };
+};
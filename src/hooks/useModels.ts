@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ChatBackend } from '../services/chat';
+
+export interface ModelsState {
+  models: string[];
+  loading: boolean;
+  error: string | null;
+  reload: () => void;
+}
+
+export const useModels = (backend: ChatBackend): ModelsState => {
+  const [models, setModels] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadModels = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const available = await backend.listModels();
+        if (!cancelled) {
+          setModels(available);
+        }
+      } catch (err) {
+        console.error('Error loading models:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : String(err));
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadModels();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [backend, reloadCount]);
+
+  const reload = useCallback(() => setReloadCount(count => count + 1), []);
+
+  return { models, loading, error, reload };
+};
@@ -0,0 +1,31 @@
+import { Dispatch, SetStateAction, useEffect, useState } from 'react';
+
+const STORAGE_PREFIX = 'voice-chat:';
+
+const readStoredValue = <T>(key: string, initialValue: T): T => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_PREFIX + key);
+    return raw === null ? initialValue : (JSON.parse(raw) as T);
+  } catch (error) {
+    console.warn(`Ignoring unreadable stored value for ${key}:`, error);
+    return initialValue;
+  }
+};
+
+// useState backed by localStorage so the value survives reloads
+export const usePersistentState = <T>(
+  key: string,
+  initialValue: T
+): [T, Dispatch<SetStateAction<T>>] => {
+  const [value, setValue] = useState<T>(() => readStoredValue(key, initialValue));
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+    } catch (error) {
+      console.warn(`Could not persist ${key}:`, error);
+    }
+  }, [key, value]);
+
+  return [value, setValue];
+};
@@ -0,0 +1,42 @@
+import { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { getDefaultSpeechController, SpeechController, SpeechItem, SpeechListener } from '../services/speech';
+
+// SpeechProvider supplies the controller for the configured engine, and tests
+// their own; without a provider the browser-backed default controller is used
+export const SpeechControllerContext = createContext<SpeechController | null>(null);
+
+export const useSpeechController = (): SpeechController =>
+  useContext(SpeechControllerContext) ?? getDefaultSpeechController();
+
+// Subscribes to controller events for the lifetime of the component
+export const useSpeechEvents = (listener: SpeechListener) => {
+  const controller = useSpeechController();
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => controller.subscribe(event => listenerRef.current(event)), [controller]);
+};
+
+export interface SpeechStatus {
+  speaking: boolean;
+  paused: boolean;
+  currentItem: SpeechItem | null;
+}
+
+export const useSpeechStatus = (): SpeechStatus => {
+  const controller = useSpeechController();
+  const readStatus = (): SpeechStatus => ({
+    speaking: controller.speaking,
+    paused: controller.paused,
+    currentItem: controller.currentItem,
+  });
+  const [status, setStatus] = useState<SpeechStatus>(readStatus);
+
+  useSpeechEvents(event => {
+    if (event.type !== 'voiceschanged') {
+      setStatus(readStatus());
+    }
+  });
+
+  return status;
+};
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { useSpeechController, useSpeechEvents } from './useSpeechController';
+
+// Voices offered by the speech engine, kept current as the browser loads them
+export const useVoices = (): SpeechSynthesisVoice[] => {
+  const controller = useSpeechController();
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => controller.getVoices());
+
+  useSpeechEvents(event => {
+    if (event.type === 'voiceschanged') {
+      setVoices(event.voices);
+    }
+  });
+
+  useEffect(() => {
+    setVoices(controller.getVoices());
+
+    // iOS Safari: reload voices on visibility change
+    const handleVisibilityChange = () => {
+      if (!document.hidden) {
+        setVoices(controller.getVoices());
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [controller]);
+
+  return voices;
+};
@@ -2,6 +2,8 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import './index.css';
 import App from './App';
+import ConfigProvider from './components/ConfigProvider';
+import SpeechProvider from './components/SpeechProvider';
 import reportWebVitals from './reportWebVitals';
 
 const root = ReactDOM.createRoot(
@@ -9,7 +11,11 @@ const root = ReactDOM.createRoot(
 );
 root.render(
   <React.StrictMode>
-    <App />
+    <ConfigProvider>
+      <SpeechProvider>
+        <App />
+      </SpeechProvider>
+    </ConfigProvider>
   </React.StrictMode>
 );
 
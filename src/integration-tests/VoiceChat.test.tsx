@@ -4,6 +4,23 @@ import React, { act } from 'react';
 import { render, screen, fireEvent, waitFor, within, cleanup } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import App from '../App';
+import ConfigProvider from '../components/ConfigProvider';
+import { SpeechControllerContext } from '../hooks/useSpeechController';
+import {
+  createFakeSpeechController,
+  createFakeSpeechSynthesis,
+  FakeSpeechSynthesis
+} from '../test-utils/fakeSpeechSynthesis';
+import { createFakeMicrophone } from '../test-utils/fakeMicrophone';
+import { createMockServer, MockReply } from '../test-utils/mockServer';
+import { readFileText } from '../utils/files';
+import { ChatTurn } from '../services/chat/types';
+
+interface OllamaChatBody {
+  model: string;
+  messages: ChatTurn[];
+  options?: Record<string, unknown>;
+}
 
 // Define SpeechRecognitionEvent type that extends Event
 type SpeechRecognitionEvent = Event & {
@@ -15,87 +32,13 @@ type SpeechRecognitionEvent = Event & {
   timeStamp: number;
 }
 
-// Extend global to include fetch mock
-declare global {
-  interface Window {
-    fetch: jest.Mock;
-  }
-}
-
-// Mock Web Speech APIs before any imports
 const mockVoices = [
   { name: 'Daniel', lang: 'en-US' },
   { name: 'Samantha', lang: 'en-US' },
-  { name: 'Basic Voice', lang: 'en-GB' }
+  { name: 'Basic Voice', lang: 'en-GB' },
+  { name: 'Thomas', lang: 'fr-FR' }
 ];
 
-class MockSpeechSynthesisUtterance {
-  text: string;
-  voice: any;
-  rate: number;
-  pitch: number;
-  volume: number;
-  onstart: (() => void) | null;
-  onerror: ((event: any) => void) | null;
-  onend: (() => void) | null;
-
-  constructor(text: string) {
-    this.text = text;
-    this.voice = null;
-    this.rate = 1.0;
-    this.pitch = 1.0;
-    this.volume = 1.0;
-    this.onstart = null;
-    this.onerror = null;
-    this.onend = null;
-  }
-}
-
-class MockSpeechSynthesis {
-  private voices: any[];
-  private onvoiceschangedCallback: (() => void) | null;
-
-  constructor() {
-    this.voices = mockVoices;
-    this.onvoiceschangedCallback = null;
-  }
-
-  speak = jest.fn();
-  cancel = jest.fn();
-  pause = jest.fn();
-  resume = jest.fn();
-  getVoices = jest.fn().mockReturnValue(mockVoices);
-
-  set onvoiceschanged(callback: (() => void) | null) {
-    this.onvoiceschangedCallback = callback;
-    // Immediately trigger the callback to simulate voices being loaded
-    if (callback) {
-      callback();
-    }
-  }
-
-  get onvoiceschanged() {
-    return this.onvoiceschangedCallback;
-  }
-}
-
-Object.defineProperty(window, 'SpeechSynthesisUtterance', {
-  value: MockSpeechSynthesisUtterance,
-  writable: true
-});
-
-Object.defineProperty(window, 'speechSynthesis', {
-  value: {
-    getVoices: jest.fn().mockReturnValue(mockVoices),
-    speak: jest.fn(),
-    cancel: jest.fn(),
-    pause: jest.fn(),
-    resume: jest.fn(),
-    onvoiceschanged: null
-  },
-  writable: true
-});
-
 // Mock classes for Web Speech API
 class SpeechRecognitionAlternative {
   constructor(public transcript: string, public confidence: number) {}
@@ -211,11 +154,14 @@ let mockRecognitionInstance: MockSpeechRecognition;
 
 // Mock react-icons/fa
 jest.mock('react-icons/fa', () => ({
+  ...jest.requireActual('react-icons/fa'),
   FaMicrophone: () => <div data-testid="microphone-icon">Microphone Icon</div>
 }));
 
 describe('Voice Chat Integration', () => {
   let mockRecognitionInstance: any;
+  let speechSynthesis: FakeSpeechSynthesis;
+  const server = createMockServer('http://localhost:11434');
 
   // Increase timeout for all tests in this suite
   jest.setTimeout(10000);
@@ -234,11 +180,11 @@ describe('Voice Chat Integration', () => {
     // Reset mocks
     jest.clearAllMocks();
 
-    // Mock fetch responses
-    global.fetch = jest.fn().mockImplementation(async () => ({
-      ok: true,
-      json: async () => ({ message: 'AI response' })
-    }));
+    // Mock backend responses
+    window.localStorage.clear();
+    server.install()
+      .on('GET', '/api/tags', { json: { models: [{ name: 'llama3.2' }, { name: 'mistral' }] } })
+      .on('POST', '/api/chat', { json: { message: { role: 'assistant', content: 'AI response' } } });
 
     mockRecognitionInstance = new MockSpeechRecognition();
     
@@ -254,27 +200,42 @@ describe('Voice Chat Integration', () => {
       writable: true
     });
 
-    // Mock speech synthesis
-    Object.defineProperty(window, 'speechSynthesis', {
-      value: {
-        getVoices: () => mockVoices,
-        speak: jest.fn(),
-        cancel: jest.fn(),
-        pause: jest.fn(),
-        resume: jest.fn(),
-        onvoiceschanged: null
-      },
-      writable: true
-    });
+    // Speech output goes to a fake engine instead of window.speechSynthesis
+    speechSynthesis = createFakeSpeechSynthesis(mockVoices);
 
     // Render App component
+    await renderApp();
+  });
+
+  const renderApp = async () => {
     await act(async () => {
-      render(<App />);
+      render(
+        <SpeechControllerContext.Provider value={createFakeSpeechController(speechSynthesis)}>
+          <App />
+        </SpeechControllerContext.Provider>
+      );
     });
-  });
+  };
+
+  const sendTyped = async (text: string) => {
+    const input = screen.getByRole('textbox', { name: 'Message' });
+    fireEvent.change(input, { target: { value: text } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    await waitFor(() => {
+      expect(screen.getAllByText('AI response').length).toBeGreaterThan(0);
+    });
+  };
+
+  const sendTypedWithoutWaiting = async (text: string) => {
+    const input = screen.getByRole('textbox', { name: 'Message' });
+    fireEvent.change(input, { target: { value: text } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    await screen.findByRole('button', { name: 'Cancel reply' });
+  };
 
   afterEach(() => {
     cleanup();
+    server.restore();
   });
 
   it('handles voice input and displays response', async () => {
@@ -293,6 +254,613 @@ describe('Voice Chat Integration', () => {
     });
   });
 
+  it('sends the selected model with the chat request', async () => {
+    const selector = await screen.findByRole('combobox', { name: 'Model' });
+    await screen.findByRole('option', { name: 'mistral' });
+    fireEvent.change(selector, { target: { value: 'mistral' } });
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: /start voice input/i }));
+    });
+
+    await waitFor(() => {
+      expect(screen.getByText('AI response')).toBeInTheDocument();
+    });
+
+    const chatRequest = server.requests.find(request => request.path === '/api/chat');
+    expect(chatRequest?.jsonBody<OllamaChatBody>().model).toBe('mistral');
+    expect(window.localStorage.getItem('voice-chat:selectedModel')).toBe('"mistral"');
+  });
+
+  it('streams the reply and speaks it sentence by sentence', async () => {
+    server.on('POST', '/api/chat', {
+      chunks: [
+        '{"message":{"role":"assistant","content":"First sentence. "}}\n',
+        '{"message":{"role":"assistant","content":"Second one"}}\n',
+        '{"message":{"role":"assistant","content":"!"},"done":true}\n'
+      ]
+    });
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: /start voice input/i }));
+    });
+
+    expect(await screen.findByText('First sentence. Second one!')).toBeInTheDocument();
+
+    expect(speechSynthesis.spoken).toEqual(['First sentence.']);
+
+    await act(async () => {
+      speechSynthesis.finish();
+    });
+    expect(speechSynthesis.spoken).toEqual(['First sentence.', 'Second one!']);
+  });
+
+  it('shows replies as Markdown and speaks them without the markup', async () => {
+    server.on('POST', '/api/chat', {
+      json: { message: { role: 'assistant', content: 'Use **this**:\n```js\nconst a = 1;\n```\nSee [the docs](https://example.com).' } },
+    });
+
+    await sendTypedWithoutWaiting('How?');
+
+    expect(await screen.findByRole('link', { name: 'the docs' })).toHaveAttribute('href', 'https://example.com/');
+    expect(screen.getByText('this').tagName).toBe('STRONG');
+    expect(screen.getByRole('button', { name: 'Copy code' })).toBeInTheDocument();
+    await act(async () => {
+      speechSynthesis.finish();
+      speechSynthesis.finish();
+    });
+    expect(speechSynthesis.spoken).toEqual(['Use this:', 'JavaScript code is shown on screen.', 'See the docs.']);
+  });
+
+  it('reads a message out again and marks it while speaking', async () => {
+    await sendTyped('Hello');
+    await act(async () => {
+      speechSynthesis.finish();
+    });
+
+    // The question comes first, then the reply
+    fireEvent.click(screen.getAllByRole('button', { name: 'Read aloud' })[1]);
+
+    expect(speechSynthesis.spoken).toEqual(['AI response', 'AI response']);
+    expect(screen.getByText('Speaking')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Stop reading' }));
+    expect(screen.queryByText('Speaking')).not.toBeInTheDocument();
+  });
+
+  it('resends an edited message in place of the rest of the conversation', async () => {
+    await sendTyped('First question');
+    server.on('POST', '/api/chat', { json: { message: { role: 'assistant', content: 'Second answer' } } });
+    await sendTyped('Second question');
+    await screen.findByText('Second answer');
+
+    fireEvent.click((await screen.findAllByRole('button', { name: 'Edit message' }))[0]);
+    fireEvent.change(screen.getByRole('textbox', { name: 'Message text' }), { target: { value: 'Better question' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save and resend' }));
+
+    expect(await screen.findByText('Better question')).toBeInTheDocument();
+    await waitFor(() => {
+      expect(screen.getByText('Second answer')).toBeInTheDocument();
+    });
+    expect(screen.queryByText('First question')).not.toBeInTheDocument();
+    expect(screen.queryByText('Second question')).not.toBeInTheDocument();
+
+    const lastRequest = server.requests.filter(request => request.path === '/api/chat').pop();
+    expect(lastRequest?.jsonBody<OllamaChatBody>().messages.filter(message => message.role !== 'system')).toEqual([
+      { role: 'user', content: 'Better question' },
+    ]);
+  });
+
+  it('regenerates a reply from the history before it', async () => {
+    await sendTyped('Question');
+    server.on('POST', '/api/chat', { json: { message: { role: 'assistant', content: 'Another take' } } });
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Regenerate reply' }));
+
+    expect(await screen.findByText('Another take')).toBeInTheDocument();
+    expect(screen.queryByText('AI response')).not.toBeInTheDocument();
+    const lastRequest = server.requests.filter(request => request.path === '/api/chat').pop();
+    expect(lastRequest?.jsonBody<OllamaChatBody>().messages.filter(message => message.role !== 'system')).toEqual([
+      { role: 'user', content: 'Question' },
+    ]);
+  });
+
+  it('deletes a single message', async () => {
+    await sendTyped('Question');
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Delete message' })[0]);
+
+    expect(screen.queryByText('Question')).not.toBeInTheDocument();
+    expect(screen.getByText('AI response')).toBeInTheDocument();
+  });
+
+  it('forgets a conversation once all its messages are deleted', async () => {
+    await sendTyped('Question');
+    await waitFor(() => {
+      expect(window.localStorage.getItem('voice-chat:conversations')).toContain('Question');
+    });
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Delete message' })[0]);
+    fireEvent.click(screen.getByRole('button', { name: 'Delete message' }));
+    await waitFor(() => {
+      expect(window.localStorage.getItem('voice-chat:conversations')).not.toContain('Question');
+    });
+
+    cleanup();
+    await renderApp();
+
+    const messages = screen.getByTestId('messages-container');
+    expect(within(messages).queryByText('Question')).not.toBeInTheDocument();
+    expect(within(messages).queryByText('AI response')).not.toBeInTheDocument();
+  });
+
+  it('sends typed messages through the same pipeline', async () => {
+    const input = screen.getByRole('textbox', { name: 'Message' });
+    fireEvent.change(input, { target: { value: 'What does https://example.com say?' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(screen.getByText('What does https://example.com say?')).toBeInTheDocument();
+    expect(await screen.findByText('AI response')).toBeInTheDocument();
+
+    const chatRequest = server.requests.find(request => request.path === '/api/chat');
+    expect(chatRequest?.jsonBody<OllamaChatBody>().messages).toContainEqual({ role: 'user', content: 'What does https://example.com say?' });
+    expect(speechSynthesis.spoken).toEqual(['AI response']);
+  });
+
+  it('shows a spinner until the reply arrives', async () => {
+    let respond: (reply: MockReply) => void = () => {};
+    server.on('POST', '/api/chat', () => new Promise<MockReply>(resolve => { respond = resolve; }));
+
+    const input = screen.getByRole('textbox', { name: 'Message' });
+    fireEvent.change(input, { target: { value: 'Hello' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(await screen.findByRole('status', { name: 'Waiting for reply' })).toBeInTheDocument();
+
+    await act(async () => {
+      respond({ json: { message: { role: 'assistant', content: 'AI response' } } });
+    });
+
+    expect(await screen.findByText('AI response')).toBeInTheDocument();
+    expect(screen.queryByRole('status', { name: 'Waiting for reply' })).not.toBeInTheDocument();
+  });
+
+  it('shows a failed reply as an error instead of assistant text', async () => {
+    server.on('POST', '/api/chat', { status: 400, text: 'Bad request' });
+
+    const input = screen.getByRole('textbox', { name: 'Message' });
+    fireEvent.change(input, { target: { value: 'Hello' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('The reply failed');
+    expect(screen.getByRole('alert')).toHaveTextContent('API request failed with status 400');
+    expect(screen.getByText('Hello')).toBeInTheDocument();
+    expect(screen.queryByText(/Sorry/)).not.toBeInTheDocument();
+    expect(speechSynthesis.spoken).toEqual([]);
+  });
+
+  it('retries a failed reply on request', async () => {
+    server.on('POST', '/api/chat', { status: 400, text: 'Bad request' });
+    fireEvent.click(screen.getByRole('button', { name: /start voice input/i }));
+    const alert = await screen.findByRole('alert');
+
+    server.on('POST', '/api/chat', { json: { message: { role: 'assistant', content: 'AI response' } } });
+    fireEvent.click(within(alert).getByRole('button', { name: 'Retry' }));
+
+    expect(await screen.findByText('AI response')).toBeInTheDocument();
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    expect(screen.getAllByText('Test message')).toHaveLength(1);
+    const chatRequests = server.requests.filter(request => request.path === '/api/chat');
+    expect(chatRequests).toHaveLength(2);
+    expect(chatRequests[1].jsonBody<OllamaChatBody>().messages).toEqual(chatRequests[0].jsonBody<OllamaChatBody>().messages);
+    expect(speechSynthesis.spoken).toEqual(['AI response']);
+  });
+
+  it('cancels a reply with Escape or the cancel button', async () => {
+    server.on('POST', '/api/chat', () => new Promise<MockReply>(() => {}));
+
+    await sendTypedWithoutWaiting('First question');
+    fireEvent.keyDown(window, { key: 'Escape' });
+    expect(await screen.findByRole('alert')).toHaveTextContent('Reply cancelled');
+
+    await sendTypedWithoutWaiting('Second question');
+    fireEvent.click(await screen.findByRole('button', { name: 'Cancel reply' }));
+
+    await waitFor(() => {
+      expect(screen.getAllByRole('alert')).toHaveLength(2);
+    });
+    expect(screen.queryByRole('button', { name: 'Cancel reply' })).not.toBeInTheDocument();
+  });
+
+  it('cancels only the recording when Escape is pressed while listening', async () => {
+    server.on('POST', '/api/chat', () => new Promise<MockReply>(() => {}));
+    mockRecognitionInstance.start.mockImplementation(async () => {});
+
+    await sendTypedWithoutWaiting('First question');
+    fireEvent.click(screen.getByRole('button', { name: /start voice input/i }));
+    expect(mockRecognitionInstance.start).toHaveBeenCalled();
+
+    fireEvent.keyDown(window, { key: 'Escape' });
+    expect(mockRecognitionInstance.stop).toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: 'Cancel reply' })).toBeInTheDocument();
+    expect(screen.queryByText('Reply cancelled')).not.toBeInTheDocument();
+
+    fireEvent.keyDown(window, { key: 'Escape' });
+    expect(await screen.findByText('Reply cancelled')).toBeInTheDocument();
+  });
+
+  it('leaves the reply to a typed message silent when asked to', async () => {
+    fireEvent.click(screen.getByRole('button', { name: 'Speak reply' }));
+
+    const input = screen.getByRole('textbox', { name: 'Message' });
+    fireEvent.change(input, { target: { value: 'Hello' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Send message' }));
+
+    expect(await screen.findByText('AI response')).toBeInTheDocument();
+    expect(speechSynthesis.spoken).toEqual([]);
+    expect(window.localStorage.getItem('voice-chat:speakTypedReplies')).toBe('false');
+  });
+
+  it('shows playback controls while the reply is spoken', async () => {
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: /start voice input/i }));
+    });
+    await screen.findByText('AI response');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Pause speech' }));
+    expect(speechSynthesis.pause).toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Resume speech' }));
+    expect(speechSynthesis.resume).toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Stop speech' }));
+    expect(speechSynthesis.cancel).toHaveBeenCalled();
+    expect(screen.queryByRole('group', { name: 'Speech playback' })).not.toBeInTheDocument();
+  });
+
+  it('speaks replies with the voice settings chosen in the settings panel', async () => {
+    fireEvent.click(screen.getByRole('button', { name: 'Settings' }));
+    fireEvent.change(screen.getByLabelText('Voice'), { target: { value: 'Samantha' } });
+    fireEvent.change(screen.getByLabelText('Rate'), { target: { value: '1.5' } });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Preview' }));
+    expect(speechSynthesis.utterances[0]).toMatchObject({ voice: { name: 'Samantha' }, rate: 1.5 });
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: /start voice input/i }));
+    });
+    await screen.findByText('AI response');
+
+    expect(speechSynthesis.utterances[1]).toMatchObject({ text: 'AI response', voice: { name: 'Samantha' }, rate: 1.5 });
+    expect(JSON.parse(window.localStorage.getItem('voice-chat:voiceSettings') || '{}')).toMatchObject({
+      voiceId: 'Samantha',
+      rate: 1.5
+    });
+  });
+
+  it('recognises, requests and speaks the selected language', async () => {
+    server.on('POST', '/api/chat', { json: { message: { role: 'assistant', content: 'Bonjour, je vais très bien et vous ?' } } });
+    fireEvent.change(screen.getByRole('combobox', { name: 'Language' }), { target: { value: 'fr-FR' } });
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: /start voice input/i }));
+    });
+    await screen.findByText('Bonjour, je vais très bien et vous ?');
+
+    expect(mockRecognitionInstance.lang).toBe('fr-FR');
+    const chatRequest = server.requests.find(request => request.path === '/api/chat');
+    expect(chatRequest?.jsonBody<OllamaChatBody>().messages[0]).toEqual({
+      role: 'system',
+      content: 'Always reply in French (fr-FR), the language the user is speaking.'
+    });
+    expect(speechSynthesis.utterances[0]).toMatchObject({ voice: { name: 'Thomas' }, lang: 'fr-FR' });
+  });
+
+  it('matches the voice to a reply in another language', async () => {
+    server.on('POST', '/api/chat', { json: { message: { role: 'assistant', content: 'Je ne parle pas anglais, désolé.' } } });
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: /start voice input/i }));
+    });
+    await screen.findByText('Je ne parle pas anglais, désolé.');
+
+    expect(speechSynthesis.utterances[0]).toMatchObject({ voice: { name: 'Thomas' }, lang: 'fr' });
+  });
+
+  it('loops listen, think and speak in conversation mode', async () => {
+    fireEvent.click(screen.getByRole('button', { name: 'Start conversation' }));
+
+    expect(screen.getByRole('status')).toHaveTextContent('Listening…');
+    expect(screen.getByRole('button', { name: /start voice input/i })).toBeDisabled();
+
+    expect(await screen.findByText('AI response')).toBeInTheDocument();
+    await waitFor(() => {
+      expect(screen.getByRole('status')).toHaveTextContent('Speaking…');
+    });
+
+    await act(async () => {
+      speechSynthesis.finish();
+    });
+    expect(screen.getByRole('status')).toHaveTextContent('Listening…');
+
+    fireEvent.click(screen.getByRole('button', { name: 'End conversation' }));
+    expect(screen.getByRole('status')).toHaveTextContent('');
+    expect(screen.getByRole('button', { name: /start voice input/i })).not.toBeDisabled();
+  });
+
+  it('stops speaking and captures the new utterance on barge-in', async () => {
+    fireEvent.click(screen.getByRole('button', { name: 'Start conversation' }));
+
+    await screen.findByText('AI response');
+    await waitFor(() => {
+      expect(screen.getByRole('status')).toHaveTextContent('Speaking…');
+    });
+    expect(speechSynthesis.cancel).not.toHaveBeenCalled();
+
+    // The microphone stays open while speaking and hears the user again
+    await waitFor(() => {
+      expect(speechSynthesis.cancel).toHaveBeenCalled();
+    });
+    await waitFor(() => {
+      expect(server.requests.filter(request => request.path === '/api/chat')).toHaveLength(2);
+    });
+    // The request goes out before the new message has rendered
+    await waitFor(() => {
+      expect(screen.getAllByText('Test message')).toHaveLength(2);
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: 'End conversation' }));
+  });
+
+  it('drops a reply still streaming when the user barges in', async () => {
+    let finishFirst: (line: string) => void = () => {};
+    let startSecond: () => void = () => {};
+    const firstRest = new Promise<string>(resolve => { finishFirst = resolve; });
+    const secondStart = new Promise<void>(resolve => { startSecond = resolve; });
+    const line = (content: string) => `${JSON.stringify({ message: { role: 'assistant', content } })}\n`;
+    let calls = 0;
+    server.on('POST', '/api/chat', () => (++calls === 1
+      ? { chunks: [line('First sentence. '), line('Second'), firstRest] }
+      : { chunks: [secondStart.then(() => line('Fresh reply. ')), line('Still going'), new Promise<string>(() => {})] }));
+
+    fireEvent.click(screen.getByRole('button', { name: 'Start conversation' }));
+    await waitFor(() => {
+      expect(speechSynthesis.spoken).toEqual(['First sentence.']);
+    });
+
+    // The microphone hears the user again and the next utterance goes out
+    await waitFor(() => {
+      expect(calls).toBe(2);
+    }, { timeout: 3000 });
+    mockRecognitionInstance.start.mockImplementation(async () => {});
+
+    // The interrupted stream would have finished here
+    await act(async () => {
+      finishFirst(line(' Never shown.'));
+    });
+    expect(screen.getByText('Thinking…')).toBeInTheDocument();
+    expect(screen.getByText('Reply cancelled')).toBeInTheDocument();
+    expect(screen.queryByText(/Never shown/)).not.toBeInTheDocument();
+
+    await act(async () => {
+      startSecond();
+    });
+    await waitFor(() => {
+      expect(speechSynthesis.spoken).toContain('Fresh reply.');
+    });
+    expect(screen.getByText(/Speaking…/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'End conversation' }));
+  });
+
+  it('holds back transcripts below the auto-send confidence for review', async () => {
+    fireEvent.click(screen.getByRole('button', { name: 'Settings' }));
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Review transcripts before sending' }));
+    fireEvent.change(screen.getByRole('slider', { name: 'Auto-send above' }), { target: { value: '1' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Close settings' }));
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: /start voice input/i }));
+    });
+
+    const transcript = await screen.findByRole('textbox', { name: /heard with 95% confidence/i });
+    expect(transcript).toHaveValue('Test message');
+    expect(server.requests.some(request => request.path === '/api/chat')).toBe(false);
+
+    fireEvent.change(transcript, { target: { value: 'Test message, corrected' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Send' }));
+
+    expect(await screen.findByText('AI response')).toBeInTheDocument();
+    expect(screen.queryByRole('form', { name: 'Review transcript' })).not.toBeInTheDocument();
+    const chatRequest = server.requests.find(request => request.path === '/api/chat');
+    expect(chatRequest?.jsonBody<OllamaChatBody>().messages).toContainEqual({ role: 'user', content: 'Test message, corrected' });
+  });
+
+  it('restores the conversation after a reload', async () => {
+    await sendTyped('Remember this');
+
+    await waitFor(() => {
+      expect(window.localStorage.getItem('voice-chat:conversations')).toContain('Remember this');
+    });
+
+    cleanup();
+    await renderApp();
+
+    const messages = screen.getByTestId('messages-container');
+    expect(await within(messages).findByText('Remember this')).toBeInTheDocument();
+    expect(within(messages).getByText('AI response')).toBeInTheDocument();
+  });
+
+  it('lets a reply that was cut off by a reload be retried', async () => {
+    window.localStorage.setItem('voice-chat:conversations', JSON.stringify([{
+      id: 'c1',
+      title: null,
+      messages: [
+        { id: 'm1', role: 'user', content: 'Still there?', timestamp: 1, status: 'done' },
+        { id: 'm2', role: 'assistant', content: 'Half a', timestamp: 2, status: 'streaming' },
+      ],
+      createdAt: 1,
+      updatedAt: 2,
+      schemaVersion: 2,
+    }]));
+
+    cleanup();
+    await renderApp();
+
+    const messages = screen.getByTestId('messages-container');
+    expect(await within(messages).findByText('The reply was cut off before it finished')).toBeInTheDocument();
+
+    fireEvent.click(within(messages).getByRole('button', { name: 'Retry' }));
+
+    expect(await within(messages).findByText('AI response')).toBeInTheDocument();
+  });
+
+  it('sends requests with the API key saved in the connection settings', async () => {
+    cleanup();
+    render(
+      <ConfigProvider runtimeConfigUrl={`${server.origin}/config.json`}>
+        <SpeechControllerContext.Provider value={createFakeSpeechController(speechSynthesis)}>
+          <App />
+        </SpeechControllerContext.Provider>
+      </ConfigProvider>
+    );
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Settings' }));
+    fireEvent.change(screen.getByLabelText('API key'), { target: { value: 'sk-test' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save connection' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Close settings' }));
+
+    await sendTyped('Hello');
+
+    const chatRequest = server.requests.find(request => request.path === '/api/chat');
+    expect(chatRequest?.headers.authorization).toBe('Bearer sk-test');
+    expect(JSON.parse(window.localStorage.getItem('voice-chat:configOverrides') ?? '{}')).toEqual({ apiKey: 'sk-test' });
+  });
+
+  it('creates, switches, renames and deletes conversations', async () => {
+    await sendTyped('First topic');
+    const messages = screen.getByTestId('messages-container');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Conversations' }));
+    const sidebar = screen.getByRole('navigation', { name: 'Conversations' });
+
+    fireEvent.click(within(sidebar).getByRole('button', { name: 'New conversation' }));
+    expect(within(messages).queryByText('First topic')).not.toBeInTheDocument();
+
+    await sendTyped('Second topic');
+    expect(within(sidebar).getByRole('button', { name: 'Second topic' })).toHaveAttribute('aria-current', 'page');
+
+    fireEvent.click(within(sidebar).getByRole('button', { name: 'First topic' }));
+    expect(within(messages).getByText('First topic')).toBeInTheDocument();
+    expect(within(messages).queryByText('Second topic')).not.toBeInTheDocument();
+
+    // Only the history of this conversation is sent
+    await sendTyped('Follow-up');
+    const lastRequest = server.requests.filter(request => request.path === '/api/chat').pop();
+    expect(lastRequest?.jsonBody<OllamaChatBody>().messages).not.toContainEqual({ role: 'user', content: 'Second topic' });
+
+    fireEvent.click(within(sidebar).getByRole('button', { name: 'Rename First topic' }));
+    fireEvent.change(within(sidebar).getByRole('textbox', { name: 'Conversation title' }), { target: { value: 'Renamed' } });
+    fireEvent.click(within(sidebar).getByRole('button', { name: 'Save title' }));
+    expect(within(sidebar).getByRole('button', { name: 'Renamed' })).toBeInTheDocument();
+
+    fireEvent.click(within(sidebar).getByRole('button', { name: 'Delete Renamed' }));
+    fireEvent.click(within(sidebar).getByRole('button', { name: 'Confirm deleting Renamed' }));
+
+    expect(within(sidebar).queryByRole('button', { name: 'Renamed' })).not.toBeInTheDocument();
+    expect(within(messages).getByText('Second topic')).toBeInTheDocument();
+    await waitFor(() => {
+      expect(window.localStorage.getItem('voice-chat:conversations')).not.toContain('First topic');
+    });
+  });
+
+  it('exports a conversation and imports it back as a new one', async () => {
+    const downloads: Blob[] = [];
+    Object.assign(URL, {
+      createObjectURL: jest.fn((blob: Blob) => {
+        downloads.push(blob);
+        return 'blob:export';
+      }),
+      revokeObjectURL: jest.fn(),
+    });
+    await sendTyped('Pack for Lisbon');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Conversations' }));
+    const sidebar = screen.getByRole('navigation', { name: 'Conversations' });
+    fireEvent.click(within(sidebar).getByRole('button', { name: 'Export as a timestamped transcript' }));
+    fireEvent.click(within(sidebar).getByRole('button', { name: 'Export as JSON' }));
+
+    expect(downloads.map(blob => blob.type)).toEqual(['text/plain;charset=utf-8', 'application/json;charset=utf-8']);
+    const transcript = await readFileText(downloads[0]);
+    expect(transcript).toMatch(/^\[\d{4}-\d\d-\d\d \d\d:\d\d:\d\d\] You: Pack for Lisbon$/m);
+    expect(transcript).toMatch(/^\[[\d :-]+\] Assistant \(llama3\.2\): AI response$/m);
+
+    const file = new File([await readFileText(downloads[1])], 'lisbon.json', { type: 'application/json' });
+    fireEvent.change(within(sidebar).getByLabelText('Import conversation'), { target: { files: [file] } });
+
+    await waitFor(() => {
+      expect(within(sidebar).getAllByRole('button', { name: 'Pack for Lisbon' })).toHaveLength(2);
+    });
+    expect(within(sidebar).getAllByRole('button', { name: 'Pack for Lisbon' })[0]).toHaveAttribute('aria-current', 'page');
+
+    const broken = new File(['{"format": "voice-chat-conversation", "conversation": {}}'], 'broken.json');
+    fireEvent.change(within(sidebar).getByLabelText('Import conversation'), { target: { files: [broken] } });
+    expect(await within(sidebar).findByRole('alert')).toHaveTextContent('broken.json could not be imported.');
+  });
+
+  it('keeps a recording of what was said with the message and in the export', async () => {
+    const microphone = createFakeMicrophone().install();
+    const downloads: Blob[] = [];
+    Object.assign(URL, {
+      createObjectURL: jest.fn((blob: Blob) => {
+        downloads.push(blob);
+        return 'blob:export';
+      }),
+      revokeObjectURL: jest.fn(),
+    });
+    cleanup();
+    await renderApp();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Settings' }));
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Keep a recording of what I say' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Close settings' }));
+
+    fireEvent.click(screen.getByRole('button', { name: /start voice input/i }));
+
+    expect(await screen.findByRole('button', { name: 'Play recording' })).toBeInTheDocument();
+    expect(microphone.getUserMedia).toHaveBeenCalledWith({ audio: true });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Conversations' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Export as JSON' }));
+    const exported = JSON.parse(await readFileText(downloads[0]));
+    expect(exported.conversation.messages[0]).toMatchObject({
+      content: 'Test message',
+      audio: { mimeType: 'audio/webm;codecs=opus', dataUrl: expect.stringMatching(/^data:audio\/webm/) },
+    });
+    microphone.restore();
+  });
+
+  it('switches to push-to-talk and remembers the choice', async () => {
+    fireEvent.click(screen.getByRole('radio', { name: 'Hold' }));
+
+    const holdButton = screen.getByRole('button', { name: /hold to talk/i });
+    expect(screen.queryByRole('button', { name: /start voice input/i })).not.toBeInTheDocument();
+    expect(window.localStorage.getItem('voice-chat:inputMode')).toBe('"push-to-talk"');
+
+    await act(async () => {
+      fireEvent.pointerDown(holdButton);
+    });
+    expect(mockRecognitionInstance.continuous).toBe(true);
+
+    // The mock recognizer delivers its transcript and ends on its own
+    expect(await screen.findByText('AI response')).toBeInTheDocument();
+
+    await act(async () => {
+      fireEvent.pointerUp(holdButton);
+    });
+    expect(screen.getByText('Test message')).toBeInTheDocument();
+  });
+
   it('maintains chat history after voice input', async () => {
     const voiceButton = screen.getByRole('button', { name: /start voice input/i });
     expect(voiceButton).toBeInTheDocument();
@@ -322,6 +890,84 @@ describe('Voice Chat Integration', () => {
     });
   });
 
+  it('sends the conversation so far, oldest first', async () => {
+    server.on('POST', '/api/chat', request => ({
+      json: { message: { role: 'assistant', content: `Answer to ${request.jsonBody<OllamaChatBody>().messages.slice(-1)[0].content}` } },
+    }));
+
+    const input = screen.getByRole('textbox', { name: 'Message' });
+    fireEvent.change(input, { target: { value: 'First' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    await screen.findByText('Answer to First');
+    fireEvent.change(input, { target: { value: 'Second' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    await screen.findByText('Answer to Second');
+
+    const chatRequests = server.requests.filter(request => request.path === '/api/chat');
+    expect(chatRequests[1].jsonBody<OllamaChatBody>().messages.filter(turn => turn.role !== 'system')).toEqual([
+      { role: 'user', content: 'First' },
+      { role: 'assistant', content: 'Answer to First' },
+      { role: 'user', content: 'Second' },
+    ]);
+  });
+
+  it('sends the persona of the conversation with every request', async () => {
+    fireEvent.change(screen.getByRole('combobox', { name: 'Persona' }), { target: { value: 'preset-assistant' } });
+
+    await sendTyped('What is a fjord?');
+    await sendTyped('Where are they?');
+
+    const chatRequests = server.requests.filter(request => request.path === '/api/chat');
+    expect(chatRequests).toHaveLength(2);
+    chatRequests.forEach(request => {
+      expect(request.jsonBody<OllamaChatBody>().messages[0]).toEqual({ role: 'system', content: expect.stringContaining('concise assistant') });
+      expect(request.jsonBody<OllamaChatBody>().options).toEqual({ temperature: 0.3 });
+    });
+
+    // Other conversations keep their own persona
+    fireEvent.click(screen.getByRole('button', { name: 'Conversations' }));
+    fireEvent.click(screen.getByRole('button', { name: 'New conversation' }));
+    expect(screen.getByRole('combobox', { name: 'Persona' })).toHaveValue('');
+  });
+
+  it('sends the generation parameters of the conversation', async () => {
+    fireEvent.change(screen.getByRole('combobox', { name: 'Persona' }), { target: { value: 'preset-assistant' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Settings' }));
+    const generation = screen.getByRole('region', { name: 'Generation for this conversation' });
+    fireEvent.change(within(generation).getByLabelText('Max tokens'), { target: { value: '64' } });
+    fireEvent.change(within(generation).getByLabelText('Stop sequences (one per line)'), { target: { value: 'User:' } });
+    fireEvent.change(within(generation).getByLabelText('Temperature'), { target: { value: '9' } });
+
+    await sendTyped('Hello');
+
+    const chatRequest = server.requests.find(request => request.path === '/api/chat');
+    expect(chatRequest?.jsonBody<OllamaChatBody>().options).toEqual({ temperature: 0.3, num_predict: 64, stop: ['User:'] });
+
+    fireEvent.click(within(generation).getByRole('button', { name: 'Reset to defaults' }));
+    await sendTyped('Again');
+
+    const lastRequest = server.requests.filter(request => request.path === '/api/chat').pop();
+    expect(lastRequest?.jsonBody<OllamaChatBody>().options).toEqual({ temperature: 0.3 });
+  });
+
+  it('switches to the language of the chosen persona', async () => {
+    fireEvent.click(screen.getByRole('button', { name: 'Settings' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Add persona' }));
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'French tutor' } });
+    fireEvent.change(screen.getByLabelText('System prompt'), { target: { value: 'Correct my French.' } });
+    fireEvent.change(within(screen.getByRole('form', { name: 'Edit New persona' })).getByLabelText('Language'), {
+      target: { value: 'fr-FR' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Save persona' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Close settings' }));
+
+    const selector = screen.getByRole('combobox', { name: 'Persona' });
+    const option = within(selector).getByRole('option', { name: 'French tutor' }) as HTMLOptionElement;
+    fireEvent.change(selector, { target: { value: option.value } });
+
+    expect(screen.getByRole('combobox', { name: 'Language' })).toHaveValue('fr-FR');
+  });
+
   it('handles recognition errors gracefully', async () => {
     const voiceButton = screen.getByRole('button', { name: /start voice input/i });
     expect(voiceButton).toBeInTheDocument();
@@ -341,7 +987,34 @@ describe('Voice Chat Integration', () => {
     expect(screen.queryByText(/no speech detected/i)).not.toBeInTheDocument();
   });
 
-  it('handles low confidence results by showing the transcript', async () => {
+  it('cleans up the transcript before sending it', async () => {
+    fireEvent.click(screen.getByRole('button', { name: 'Settings' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Add replacement' }));
+    fireEvent.change(screen.getByRole('textbox', { name: 'Heard 1' }), { target: { value: 'cube control' } });
+    fireEvent.change(screen.getByRole('textbox', { name: 'Replace with 1' }), { target: { value: 'kubectl' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Close settings' }));
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: /start voice input/i }));
+      mockRecognitionInstance.onresult?.({
+        resultIndex: 0,
+        results: new SpeechRecognitionResultList([
+          new SpeechRecognitionResult(
+            new SpeechRecognitionAlternative('how do i run cube control on twenty five pods question mark', 0.95),
+            true
+          )
+        ]),
+        type: 'result'
+      } as SpeechRecognitionEvent);
+      mockRecognitionInstance.stop();
+    });
+
+    expect(await screen.findByText('AI response')).toBeInTheDocument();
+    const chatRequest = server.requests.find(request => request.path === '/api/chat');
+    expect(chatRequest?.jsonBody<OllamaChatBody>().messages).toContainEqual({ role: 'user', content: 'How do I run kubectl on 25 pods?' });
+  });
+
+  it('lets the user choose between readings of a low confidence result', async () => {
     const voiceButton = screen.getByRole('button', { name: /start voice input/i });
     expect(voiceButton).toBeInTheDocument();
     
@@ -363,12 +1036,52 @@ describe('Voice Chat Integration', () => {
         mockRecognitionInstance.onresult(lowConfidenceResult);
       }
       
-      mockRecognitionInstance.onend?.();
+      // Stopping also keeps the mock from delivering its usual transcript
+      mockRecognitionInstance.stop();
     });
 
-    // Wait for the low confidence alternatives to be displayed
-    await waitFor(() => {
-      expect(screen.getByText('First alternative OR Second alternative')).toBeInTheDocument();
+    // The readings are offered instead of being sent
+    const chooser = await screen.findByRole('group', { name: 'Did you mean…' });
+    expect(chooser).toBeInTheDocument();
+    expect(screen.queryByText(/ OR /)).not.toBeInTheDocument();
+    expect(server.requests.some(request => request.path === '/api/chat')).toBe(false);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Second alternative (40%)' }));
+
+    expect(await screen.findByText('AI response')).toBeInTheDocument();
+    expect(screen.queryByRole('group', { name: 'Did you mean…' })).not.toBeInTheDocument();
+    expect(screen.getByTitle('Recognised with 40% confidence')).toHaveTextContent('Second alternative');
+    const chatRequest = server.requests.find(request => request.path === '/api/chat');
+    expect(chatRequest?.jsonBody<OllamaChatBody>().messages).toContainEqual({ role: 'user', content: 'Second alternative' });
+  });
+
+  it('records again when none of the readings is right', async () => {
+    fireEvent.click(screen.getByRole('button', { name: 'Settings' }));
+    fireEvent.change(screen.getByRole('slider', { name: 'Offer alternatives below' }), { target: { value: '1' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Close settings' }));
+
+    const startRecognition = mockRecognitionInstance.start;
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: /start voice input/i }));
+      mockRecognitionInstance.onresult?.({
+        resultIndex: 0,
+        results: new SpeechRecognitionResultList([
+          new SpeechRecognitionResult([
+            new SpeechRecognitionAlternative('Whether report', 0.6),
+            new SpeechRecognitionAlternative('Weather report', 0.5)
+          ], true)
+        ]),
+        type: 'result'
+      } as SpeechRecognitionEvent);
+      mockRecognitionInstance.stop();
+    });
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Say it again' }));
+
+    expect(screen.queryByRole('group', { name: 'Did you mean…' })).not.toBeInTheDocument();
+    expect(startRecognition).toHaveBeenCalledTimes(2);
+    await act(async () => {
+      mockRecognitionInstance.stop();
     });
   });
 });
@@ -0,0 +1,47 @@
+import { isRecordingSupported, startAudioRecording } from '../recorder';
+import { createFakeMicrophone } from '../../../test-utils/fakeMicrophone';
+
+describe('startAudioRecording', () => {
+  let microphone: ReturnType<typeof createFakeMicrophone>;
+
+  beforeEach(() => {
+    microphone = createFakeMicrophone().install();
+  });
+
+  afterEach(() => {
+    microphone.restore();
+  });
+
+  it('records the microphone into a data URL', async () => {
+    let time = 1000;
+    const recording = await startAudioRecording(() => time);
+    time = 4200;
+
+    const audio = await recording.stop();
+
+    expect(microphone.getUserMedia).toHaveBeenCalledWith({ audio: true });
+    expect(microphone.recorders[0].mimeType).toBe('audio/webm;codecs=opus');
+    expect(audio).toEqual({
+      dataUrl: expect.stringMatching(/^data:audio\/webm;codecs=opus;base64,/),
+      mimeType: 'audio/webm;codecs=opus',
+      duration: 3200,
+    });
+    expect(microphone.track.stop).toHaveBeenCalled();
+  });
+
+  it('throws a cancelled recording away', async () => {
+    const recording = await startAudioRecording();
+
+    recording.cancel();
+
+    expect(await recording.stop()).toBeNull();
+    expect(microphone.recorders[0].state).toBe('inactive');
+  });
+
+  it('is unavailable without MediaRecorder', async () => {
+    microphone.restore();
+
+    expect(isRecordingSupported()).toBe(false);
+    await expect(startAudioRecording()).rejects.toThrow('Audio recording is not supported in this browser');
+  });
+});
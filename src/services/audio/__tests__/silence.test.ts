@@ -0,0 +1,78 @@
+import { audioLevel, watchForSilence } from '../silence';
+
+// An AudioContext whose microphone level the test sets
+const createFakeAudioContext = () => {
+  const audio = { level: 0, closed: false };
+  class FakeAudioContext {
+    createMediaStreamSource() {
+      return { connect: () => {}, disconnect: () => {} };
+    }
+
+    createAnalyser() {
+      return {
+        fftSize: 0,
+        getFloatTimeDomainData: (samples: Float32Array) => samples.fill(audio.level),
+      };
+    }
+
+    async close() {
+      audio.closed = true;
+    }
+  }
+  return { audio, FakeAudioContext };
+};
+
+describe('watchForSilence', () => {
+  const stream = {} as MediaStream;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete (window as { AudioContext?: unknown }).AudioContext;
+  });
+
+  it('waits for speech, then for the speaker to stay quiet', () => {
+    const { audio, FakeAudioContext } = createFakeAudioContext();
+    Object.assign(window, { AudioContext: FakeAudioContext });
+    const onSilence = jest.fn();
+
+    watchForSilence(stream, onSilence, { silenceDuration: 500, interval: 100 });
+
+    // Quiet before anything was said does not count
+    jest.advanceTimersByTime(1000);
+    expect(onSilence).not.toHaveBeenCalled();
+
+    audio.level = 0.3;
+    jest.advanceTimersByTime(300);
+    audio.level = 0.001;
+    jest.advanceTimersByTime(400);
+    expect(onSilence).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(100);
+    expect(onSilence).toHaveBeenCalledTimes(1);
+    expect(audio.closed).toBe(true);
+
+    jest.advanceTimersByTime(1000);
+    expect(onSilence).toHaveBeenCalledTimes(1);
+  });
+
+  it('does nothing without the Web Audio API', () => {
+    const onSilence = jest.fn();
+
+    const stop = watchForSilence(stream, onSilence);
+    jest.advanceTimersByTime(10000);
+    stop();
+
+    expect(onSilence).not.toHaveBeenCalled();
+  });
+});
+
+describe('audioLevel', () => {
+  it('measures how loud the samples are', () => {
+    expect(audioLevel(new Float32Array([0.5, -0.5, 0.5, -0.5]))).toBeCloseTo(0.5);
+    expect(audioLevel(new Float32Array([]))).toBe(0);
+  });
+});
@@ -0,0 +1,89 @@
+import { readFileDataUrl } from '../../utils/files';
+
+// A recording kept with a message. Held as a data: URL so it survives
+// storage and export as plain JSON.
+export interface RecordedAudio {
+  dataUrl: string;
+  mimeType: string;
+  // Milliseconds
+  duration: number;
+}
+
+export interface AudioRecording {
+  // The microphone being recorded, e.g. to watch how loud it is
+  stream: MediaStream;
+  // Ends the recording; resolves to null when nothing was captured
+  stop: () => Promise<RecordedAudio | null>;
+  // Ends the recording and throws it away
+  cancel: () => void;
+}
+
+// Formats tried in order; browsers differ in what MediaRecorder can write
+const PREFERRED_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+export const isRecordingSupported = (): boolean =>
+  typeof window !== 'undefined'
+  && typeof window.MediaRecorder === 'function'
+  && typeof navigator.mediaDevices?.getUserMedia === 'function';
+
+const pickMimeType = (): string | undefined =>
+  typeof MediaRecorder.isTypeSupported === 'function'
+    ? PREFERRED_TYPES.find(type => MediaRecorder.isTypeSupported(type))
+    : undefined;
+
+// Starts capturing the microphone. Rejects when recording is unsupported or
+// the user refuses access to the microphone.
+export const startAudioRecording = async (now: () => number = Date.now): Promise<AudioRecording> => {
+  if (!isRecordingSupported()) {
+    throw new Error('Audio recording is not supported in this browser');
+  }
+
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const mimeType = pickMimeType();
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  const startedAt = now();
+  // Set by whichever of stop and cancel comes first; the other does nothing
+  let ended = false;
+
+  recorder.ondataavailable = (event: BlobEvent) => {
+    if (event.data.size > 0) {
+      chunks.push(event.data);
+    }
+  };
+
+  // Resolves once the last data has arrived. Releasing the tracks turns off
+  // the browser's recording indicator.
+  const end = () => new Promise<void>(resolve => {
+    const release = () => {
+      stream.getTracks().forEach(track => track.stop());
+      resolve();
+    };
+    if (recorder.state === 'inactive') {
+      release();
+      return;
+    }
+    recorder.onstop = release;
+    recorder.stop();
+  });
+
+  recorder.start();
+
+  return {
+    stream,
+    stop: async () => {
+      if (ended) return null;
+      ended = true;
+      const duration = now() - startedAt;
+      await end();
+      if (chunks.length === 0) return null;
+      const blob = new Blob(chunks, { type: recorder.mimeType || mimeType || chunks[0].type || 'audio/webm' });
+      return { dataUrl: await readFileDataUrl(blob), mimeType: blob.type, duration };
+    },
+    cancel: () => {
+      if (ended) return;
+      ended = true;
+      end();
+    },
+  };
+};
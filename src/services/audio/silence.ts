@@ -0,0 +1,76 @@
+export interface SilenceOptions {
+  // How long the microphone must stay quiet after speech, in ms
+  silenceDuration?: number;
+  // Loudness (RMS, 0 to 1) below which the microphone counts as quiet
+  threshold?: number;
+  // How often the level is checked, in ms
+  interval?: number;
+}
+
+type AudioContextConstructor = typeof AudioContext;
+
+const getAudioContextConstructor = (): AudioContextConstructor | undefined =>
+  typeof window === 'undefined'
+    ? undefined
+    : window.AudioContext || (window as { webkitAudioContext?: AudioContextConstructor }).webkitAudioContext;
+
+export const isSilenceDetectionSupported = (): boolean => Boolean(getAudioContextConstructor());
+
+// Root mean square of the samples, roughly how loud they are
+export const audioLevel = (samples: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return samples.length > 0 ? Math.sqrt(sum / samples.length) : 0;
+};
+
+// Calls onSilence once, when the speaker has said something and then gone
+// quiet. Returns a function that stops watching. Does nothing where the Web
+// Audio API is missing; callers need another way to end the utterance.
+export const watchForSilence = (
+  stream: MediaStream,
+  onSilence: () => void,
+  { silenceDuration = 1200, threshold = 0.02, interval = 100 }: SilenceOptions = {}
+): (() => void) => {
+  const AudioContextClass = getAudioContextConstructor();
+  if (!AudioContextClass) {
+    return () => {};
+  }
+
+  const context = new AudioContextClass();
+  const source = context.createMediaStreamSource(stream);
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 2048;
+  source.connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+
+  let heardSpeech = false;
+  let quietFor = 0;
+  let stopped = false;
+
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    window.clearInterval(timer);
+    source.disconnect();
+    context.close().catch(() => {});
+  };
+
+  const timer = window.setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    if (audioLevel(samples) >= threshold) {
+      heardSpeech = true;
+      quietFor = 0;
+      return;
+    }
+    if (!heardSpeech) return;
+    quietFor += interval;
+    if (quietFor >= silenceDuration) {
+      stop();
+      onSilence();
+    }
+  }, interval);
+
+  return stop;
+};
@@ -0,0 +1,40 @@
+import { BadResponseError } from './errors';
+import { postJson } from './http';
+import { ChatBackend, ChatBackendOptions, ChatRequest, ChatResponse, TokenHandler } from './types';
+
+interface LegacyChatResponse {
+  message?: string;
+}
+
+// The original custom {message, context} API this frontend was written against
+export class LegacyBackend implements ChatBackend {
+  readonly kind = 'legacy' as const;
+
+  constructor(private readonly options: ChatBackendOptions) {}
+
+  // The legacy API cannot stream, so onToken receives the whole reply at once
+  async chat(request: ChatRequest, onToken?: TokenHandler): Promise<ChatResponse> {
+    const history = request.messages.slice(0, -1);
+    const current = request.messages[request.messages.length - 1];
+
+    const data = await postJson<LegacyChatResponse>(`${this.options.baseUrl}/api/chat`, {
+      message: current ? current.content : '',
+      context: history
+        .filter(turn => turn.role !== 'system')
+        .map(turn => ({ text: turn.content, isUser: turn.role === 'user' })),
+      ...(request.language ? { language: request.language } : {}),
+    }, { signal: request.signal, apiKey: this.options.apiKey });
+
+    if (typeof data.message !== 'string') {
+      throw new BadResponseError('Unexpected response from chat API: missing message');
+    }
+
+    onToken?.(data.message);
+    return { content: data.message };
+  }
+
+  // The legacy API has no model listing endpoint
+  async listModels(): Promise<string[]> {
+    return [];
+  }
+}
@@ -0,0 +1,93 @@
+import { BadResponseError } from './errors';
+import { getJson, parseJson, post, postJson } from './http';
+import { withLanguageInstruction } from './language';
+import { readLines } from './streaming';
+import {
+  ChatBackend,
+  ChatBackendOptions,
+  ChatRequest,
+  ChatResponse,
+  ChatTurn,
+  ModelParameters,
+  TokenHandler
+} from './types';
+
+interface OllamaTagsResponse {
+  models?: { name: string }[];
+}
+
+interface OllamaChatResponse {
+  model?: string;
+  message?: ChatTurn;
+  done?: boolean;
+  error?: string;
+}
+
+// Ollama takes sampling settings in `options`, under its own names
+export const toOllamaOptions = (parameters: ModelParameters = {}) => {
+  const options: Record<string, number | string[]> = {};
+  if (parameters.temperature !== undefined) options.temperature = parameters.temperature;
+  if (parameters.topP !== undefined) options.top_p = parameters.topP;
+  if (parameters.maxTokens !== undefined) options.num_predict = parameters.maxTokens;
+  if (parameters.stop?.length) options.stop = parameters.stop;
+  return Object.keys(options).length > 0 ? { options } : {};
+};
+
+// Native Ollama /api/chat
+export class OllamaBackend implements ChatBackend {
+  readonly kind = 'ollama' as const;
+
+  constructor(private readonly options: ChatBackendOptions) {}
+
+  async chat(request: ChatRequest, onToken?: TokenHandler): Promise<ChatResponse> {
+    if (onToken) {
+      return this.streamChat(request, onToken);
+    }
+
+    const data = await postJson<OllamaChatResponse>(`${this.options.baseUrl}/api/chat`, {
+      model: request.model,
+      messages: withLanguageInstruction(request.messages, request.language),
+      stream: false,
+      ...toOllamaOptions(request.parameters),
+    }, { signal: request.signal, apiKey: this.options.apiKey });
+
+    if (typeof data.message?.content !== 'string') {
+      throw new BadResponseError('Unexpected response from Ollama: missing message.content');
+    }
+
+    return { content: data.message.content, model: data.model };
+  }
+
+  // Ollama streams newline-delimited JSON objects, one per token batch
+  private async streamChat(request: ChatRequest, onToken: TokenHandler): Promise<ChatResponse> {
+    const response = await post(`${this.options.baseUrl}/api/chat`, {
+      model: request.model,
+      messages: withLanguageInstruction(request.messages, request.language),
+      stream: true,
+      ...toOllamaOptions(request.parameters),
+    }, { signal: request.signal, apiKey: this.options.apiKey });
+
+    let content = '';
+    let model: string | undefined;
+
+    await readLines(response, line => {
+      const chunk = parseJson<OllamaChatResponse>(line);
+      if (chunk.error) {
+        throw new BadResponseError(chunk.error);
+      }
+      model = chunk.model ?? model;
+      const token = chunk.message?.content;
+      if (token) {
+        content += token;
+        onToken(token);
+      }
+    }, request.signal);
+
+    return { content, model };
+  }
+
+  async listModels(): Promise<string[]> {
+    const data = await getJson<OllamaTagsResponse>(`${this.options.baseUrl}/api/tags`, { apiKey: this.options.apiKey });
+    return (data.models || []).map(model => model.name);
+  }
+}
@@ -0,0 +1,93 @@
+import { BadResponseError } from './errors';
+import { getJson, parseJson, post, postJson } from './http';
+import { withLanguageInstruction } from './language';
+import { readServerSentEvents } from './streaming';
+import {
+  ChatBackend,
+  ChatBackendOptions,
+  ChatRequest,
+  ChatResponse,
+  ChatTurn,
+  ModelParameters,
+  TokenHandler
+} from './types';
+
+interface OpenAIModelList {
+  data?: { id: string }[];
+}
+
+interface OpenAIChatCompletion {
+  model?: string;
+  choices?: { message?: ChatTurn }[];
+}
+
+interface OpenAIChatCompletionChunk {
+  model?: string;
+  choices?: { delta?: Partial<ChatTurn> }[];
+}
+
+// Chat completions take sampling settings as top-level fields
+export const toOpenAIParameters = (parameters: ModelParameters = {}) => {
+  const fields: Record<string, number | string[]> = {};
+  if (parameters.temperature !== undefined) fields.temperature = parameters.temperature;
+  if (parameters.topP !== undefined) fields.top_p = parameters.topP;
+  if (parameters.maxTokens !== undefined) fields.max_tokens = parameters.maxTokens;
+  if (parameters.stop?.length) fields.stop = parameters.stop;
+  return fields;
+};
+
+// Any server exposing OpenAI-compatible /v1/chat/completions
+export class OpenAIBackend implements ChatBackend {
+  readonly kind = 'openai' as const;
+
+  constructor(private readonly options: ChatBackendOptions) {}
+
+  async chat(request: ChatRequest, onToken?: TokenHandler): Promise<ChatResponse> {
+    if (onToken) {
+      return this.streamChat(request, onToken);
+    }
+
+    const data = await postJson<OpenAIChatCompletion>(`${this.options.baseUrl}/v1/chat/completions`, {
+      model: request.model,
+      messages: withLanguageInstruction(request.messages, request.language),
+      stream: false,
+      ...toOpenAIParameters(request.parameters),
+    }, { signal: request.signal, apiKey: this.options.apiKey });
+
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new BadResponseError('Unexpected response from chat completions: missing choices[0].message.content');
+    }
+
+    return { content, model: data.model };
+  }
+
+  private async streamChat(request: ChatRequest, onToken: TokenHandler): Promise<ChatResponse> {
+    const response = await post(`${this.options.baseUrl}/v1/chat/completions`, {
+      model: request.model,
+      messages: withLanguageInstruction(request.messages, request.language),
+      stream: true,
+      ...toOpenAIParameters(request.parameters),
+    }, { signal: request.signal, apiKey: this.options.apiKey });
+
+    let content = '';
+    let model: string | undefined;
+
+    await readServerSentEvents(response, data => {
+      const chunk = parseJson<OpenAIChatCompletionChunk>(data);
+      model = chunk.model ?? model;
+      const token = chunk.choices?.[0]?.delta?.content;
+      if (token) {
+        content += token;
+        onToken(token);
+      }
+    }, request.signal);
+
+    return { content, model };
+  }
+
+  async listModels(): Promise<string[]> {
+    const data = await getJson<OpenAIModelList>(`${this.options.baseUrl}/v1/models`, { apiKey: this.options.apiKey });
+    return (data.data || []).map(model => model.id);
+  }
+}
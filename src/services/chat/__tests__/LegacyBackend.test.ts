@@ -0,0 +1,74 @@
+import { LegacyBackend } from '../LegacyBackend';
+import { createMockServer } from '../../../test-utils/mockServer';
+
+describe('LegacyBackend', () => {
+  const server = createMockServer();
+
+  beforeEach(() => {
+    server.install();
+  });
+
+  afterEach(() => {
+    server.restore();
+  });
+
+  it('sends the last turn as message and earlier turns as context', async () => {
+    server.on('POST', '/api/chat', { json: { message: 'AI response' } });
+
+    const backend = new LegacyBackend({ baseUrl: server.origin });
+    const reply = await backend.chat({
+      model: 'ignored',
+      messages: [
+        { role: 'system', content: 'You are helpful' },
+        { role: 'user', content: 'First' },
+        { role: 'assistant', content: 'Reply' },
+        { role: 'user', content: 'Second' }
+      ]
+    });
+
+    expect(reply).toEqual({ content: 'AI response' });
+    expect(server.requests[0].body).toEqual({
+      message: 'Second',
+      context: [
+        { text: 'First', isUser: true },
+        { text: 'Reply', isUser: false }
+      ]
+    });
+  });
+
+  it('sends the language alongside the message', async () => {
+    server.on('POST', '/api/chat', { json: { message: 'Bonjour' } });
+
+    const backend = new LegacyBackend({ baseUrl: server.origin });
+    await backend.chat({ model: 'ignored', messages: [{ role: 'user', content: 'Salut' }], language: 'fr-FR' });
+
+    expect(server.requests[0].body).toEqual({ message: 'Salut', context: [], language: 'fr-FR' });
+  });
+
+  it('passes the whole reply to onToken at once', async () => {
+    server.on('POST', '/api/chat', { json: { message: 'AI response' } });
+
+    const onToken = jest.fn();
+    const backend = new LegacyBackend({ baseUrl: server.origin });
+    await backend.chat({ model: 'ignored', messages: [{ role: 'user', content: 'Hi' }] }, onToken);
+
+    expect(onToken).toHaveBeenCalledTimes(1);
+    expect(onToken).toHaveBeenCalledWith('AI response');
+  });
+
+  it('rejects when the reply has no message', async () => {
+    server.on('POST', '/api/chat', { json: {} });
+
+    const backend = new LegacyBackend({ baseUrl: server.origin });
+
+    await expect(backend.chat({ model: 'ignored', messages: [{ role: 'user', content: 'Hi' }] }))
+      .rejects.toThrow('missing message');
+  });
+
+  it('does not list models', async () => {
+    const backend = new LegacyBackend({ baseUrl: server.origin });
+
+    await expect(backend.listModels()).resolves.toEqual([]);
+    expect(server.requests).toHaveLength(0);
+  });
+});
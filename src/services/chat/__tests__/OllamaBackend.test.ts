@@ -0,0 +1,127 @@
+import { OllamaBackend } from '../OllamaBackend';
+import { createMockServer } from '../../../test-utils/mockServer';
+import { ChatTurn } from '../types';
+
+interface OllamaChatBody {
+  messages: ChatTurn[];
+  options?: Record<string, unknown>;
+  stream: boolean;
+}
+
+describe('OllamaBackend', () => {
+  const server = createMockServer();
+
+  beforeEach(() => {
+    server.install();
+  });
+
+  afterEach(() => {
+    server.restore();
+  });
+
+  it('posts model and messages to /api/chat and returns message.content', async () => {
+    server.on('POST', '/api/chat', {
+      json: { model: 'llama3.2', message: { role: 'assistant', content: 'Hi there' }, done: true }
+    });
+
+    const backend = new OllamaBackend({ baseUrl: server.origin });
+    const reply = await backend.chat({
+      model: 'llama3.2',
+      messages: [{ role: 'user', content: 'Hello' }]
+    });
+
+    expect(reply).toEqual({ content: 'Hi there', model: 'llama3.2' });
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0].headers['content-type']).toBe('application/json');
+    expect(server.requests[0].body).toEqual({
+      model: 'llama3.2',
+      messages: [{ role: 'user', content: 'Hello' }],
+      stream: false
+    });
+  });
+
+  it('asks the model to reply in the requested language', async () => {
+    server.on('POST', '/api/chat', { json: { message: { role: 'assistant', content: 'Hola' } } });
+
+    const backend = new OllamaBackend({ baseUrl: server.origin });
+    await backend.chat({ model: 'llama3.2', messages: [{ role: 'user', content: 'Hola' }], language: 'es-ES' });
+
+    expect(server.requests[0].jsonBody<OllamaChatBody>().messages).toEqual([
+      { role: 'system', content: 'Always reply in Spanish (es-ES), the language the user is speaking.' },
+      { role: 'user', content: 'Hola' }
+    ]);
+  });
+
+  it('sends model parameters as Ollama options', async () => {
+    server.on('POST', '/api/chat', { json: { message: { role: 'assistant', content: 'Hi' } } });
+
+    const backend = new OllamaBackend({ baseUrl: server.origin });
+    await backend.chat({
+      model: 'llama3.2',
+      messages: [{ role: 'user', content: 'Hello' }],
+      parameters: { temperature: 0.2, topP: 0.9, maxTokens: 256, stop: ['User:'] }
+    });
+    await backend.chat({ model: 'llama3.2', messages: [], parameters: {} });
+
+    expect(server.requests[0].jsonBody<OllamaChatBody>().options).toEqual({ temperature: 0.2, top_p: 0.9, num_predict: 256, stop: ['User:'] });
+    expect(server.requests[1].body).not.toHaveProperty('options');
+  });
+
+  it('rejects on a non-2xx status', async () => {
+    server.on('POST', '/api/chat', { status: 500, text: 'boom' });
+
+    const backend = new OllamaBackend({ baseUrl: server.origin });
+
+    await expect(backend.chat({ model: 'llama3.2', messages: [] }))
+      .rejects.toThrow('API request failed with status 500');
+  });
+
+  it('rejects when the reply has no message content', async () => {
+    server.on('POST', '/api/chat', { json: { done: true } });
+
+    const backend = new OllamaBackend({ baseUrl: server.origin });
+
+    await expect(backend.chat({ model: 'llama3.2', messages: [] }))
+      .rejects.toThrow('missing message.content');
+  });
+
+  it('lists model names from /api/tags', async () => {
+    server.on('GET', '/api/tags', {
+      json: { models: [{ name: 'llama3.2:latest' }, { name: 'mistral:7b' }] }
+    });
+
+    const backend = new OllamaBackend({ baseUrl: server.origin });
+
+    await expect(backend.listModels()).resolves.toEqual(['llama3.2:latest', 'mistral:7b']);
+  });
+
+  it('streams NDJSON tokens to onToken as they arrive', async () => {
+    server.on('POST', '/api/chat', {
+      chunks: [
+        '{"model":"llama3.2","message":{"role":"assistant","content":"Hel"},"done":false}\n{"model":"llama3.2",',
+        '"message":{"role":"assistant","content":"lo!"},"done":false}\n',
+        '{"model":"llama3.2","message":{"role":"assistant","content":""},"done":true}\n'
+      ]
+    });
+
+    const tokens: string[] = [];
+    const backend = new OllamaBackend({ baseUrl: server.origin });
+    const reply = await backend.chat(
+      { model: 'llama3.2', messages: [{ role: 'user', content: 'Hi' }] },
+      token => tokens.push(token)
+    );
+
+    expect(tokens).toEqual(['Hel', 'lo!']);
+    expect(reply).toEqual({ content: 'Hello!', model: 'llama3.2' });
+    expect(server.requests[0].jsonBody<OllamaChatBody>().stream).toBe(true);
+  });
+
+  it('rejects when the stream reports an error', async () => {
+    server.on('POST', '/api/chat', { chunks: ['{"error":"model not found"}\n'] });
+
+    const backend = new OllamaBackend({ baseUrl: server.origin });
+
+    await expect(backend.chat({ model: 'nope', messages: [] }, jest.fn()))
+      .rejects.toThrow('model not found');
+  });
+});
@@ -0,0 +1,130 @@
+import { OpenAIBackend } from '../OpenAIBackend';
+import { createMockServer } from '../../../test-utils/mockServer';
+import { ChatTurn } from '../types';
+
+interface OpenAIChatBody {
+  messages: ChatTurn[];
+  stream: boolean;
+}
+
+describe('OpenAIBackend', () => {
+  const server = createMockServer();
+
+  beforeEach(() => {
+    server.install();
+  });
+
+  afterEach(() => {
+    server.restore();
+  });
+
+  it('sends model parameters as top-level fields', async () => {
+    server.on('POST', '/v1/chat/completions', { json: { choices: [{ message: { role: 'assistant', content: 'Hi' } }] } });
+
+    const backend = new OpenAIBackend({ baseUrl: server.origin });
+    await backend.chat({
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'user', content: 'Hello' }],
+      parameters: { temperature: 0, maxTokens: 100, stop: ['\n\n', 'END'] }
+    });
+
+    expect(server.requests[0].body).toMatchObject({ temperature: 0, max_tokens: 100, stop: ['\n\n', 'END'] });
+    expect(server.requests[0].body).not.toHaveProperty('top_p');
+  });
+
+  it('sends the API key as a bearer token, and no header without one', async () => {
+    server.on('POST', '/v1/chat/completions', { json: { choices: [{ message: { role: 'assistant', content: 'Hi' } }] } });
+    server.on('GET', '/v1/models', { json: { data: [{ id: 'gpt-4o-mini' }] } });
+
+    const backend = new OpenAIBackend({ baseUrl: server.origin, apiKey: 'sk-test' });
+    await backend.chat({ model: 'gpt-4o-mini', messages: [] });
+    await backend.listModels();
+    await new OpenAIBackend({ baseUrl: server.origin }).chat({ model: 'gpt-4o-mini', messages: [] });
+
+    expect(server.requests[0].headers.authorization).toBe('Bearer sk-test');
+    expect(server.requests[1].headers.authorization).toBe('Bearer sk-test');
+    expect(server.requests[2].headers).not.toHaveProperty('authorization');
+  });
+
+  it('posts to /v1/chat/completions and returns the first choice', async () => {
+    server.on('POST', '/v1/chat/completions', {
+      json: {
+        model: 'gpt-4o-mini',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Hello!' } }]
+      }
+    });
+
+    const backend = new OpenAIBackend({ baseUrl: server.origin });
+    const reply = await backend.chat({
+      model: 'gpt-4o-mini',
+      messages: [
+        { role: 'system', content: 'Be brief' },
+        { role: 'user', content: 'Hi' }
+      ]
+    });
+
+    expect(reply).toEqual({ content: 'Hello!', model: 'gpt-4o-mini' });
+    expect(server.requests[0].body).toEqual({
+      model: 'gpt-4o-mini',
+      messages: [
+        { role: 'system', content: 'Be brief' },
+        { role: 'user', content: 'Hi' }
+      ],
+      stream: false
+    });
+  });
+
+  it('asks the model to reply in the requested language', async () => {
+    server.on('POST', '/v1/chat/completions', { json: { choices: [{ message: { role: 'assistant', content: 'Hallo' } }] } });
+
+    const backend = new OpenAIBackend({ baseUrl: server.origin });
+    await backend.chat({ model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Hallo' }], language: 'de-DE' });
+
+    expect(server.requests[0].jsonBody<OpenAIChatBody>().messages[0]).toEqual({
+      role: 'system',
+      content: 'Always reply in German (de-DE), the language the user is speaking.'
+    });
+  });
+
+  it('rejects when there are no choices', async () => {
+    server.on('POST', '/v1/chat/completions', { json: { choices: [] } });
+
+    const backend = new OpenAIBackend({ baseUrl: server.origin });
+
+    await expect(backend.chat({ model: 'gpt-4o-mini', messages: [] }))
+      .rejects.toThrow('missing choices[0].message.content');
+  });
+
+  it('lists model ids from /v1/models', async () => {
+    server.on('GET', '/v1/models', {
+      json: { object: 'list', data: [{ id: 'gpt-4o-mini', object: 'model' }, { id: 'qwen2.5', object: 'model' }] }
+    });
+
+    const backend = new OpenAIBackend({ baseUrl: server.origin });
+
+    await expect(backend.listModels()).resolves.toEqual(['gpt-4o-mini', 'qwen2.5']);
+  });
+
+  it('streams server-sent event deltas until [DONE]', async () => {
+    server.on('POST', '/v1/chat/completions', {
+      chunks: [
+        ': keep-alive\n\n',
+        'data: {"model":"gpt-4o-mini","choices":[{"delta":{"role":"assistant"}}]}\n\n',
+        'data: {"model":"gpt-4o-mini","choices":[{"delta":{"content":"Hi"}}]}\n\ndata: {"choices":[{"del',
+        'ta":{"content":" you"}}]}\n\n',
+        'data: [DONE]\n\n'
+      ]
+    });
+
+    const tokens: string[] = [];
+    const backend = new OpenAIBackend({ baseUrl: server.origin });
+    const reply = await backend.chat(
+      { model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Hello' }] },
+      token => tokens.push(token)
+    );
+
+    expect(tokens).toEqual(['Hi', ' you']);
+    expect(reply).toEqual({ content: 'Hi you', model: 'gpt-4o-mini' });
+    expect(server.requests[0].jsonBody<OpenAIChatBody>().stream).toBe(true);
+  });
+});
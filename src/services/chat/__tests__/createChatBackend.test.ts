@@ -0,0 +1,9 @@
+import { createChatBackend, LegacyBackend, OllamaBackend, OpenAIBackend } from '..';
+
+describe('createChatBackend', () => {
+  it('picks the adapter named in the configuration', () => {
+    expect(createChatBackend({ chatBackend: 'ollama', chatBaseUrl: 'http://x' })).toBeInstanceOf(OllamaBackend);
+    expect(createChatBackend({ chatBackend: 'openai', chatBaseUrl: 'http://x' })).toBeInstanceOf(OpenAIBackend);
+    expect(createChatBackend({ chatBackend: 'legacy', chatBaseUrl: 'http://x' })).toBeInstanceOf(LegacyBackend);
+  });
+});
@@ -0,0 +1,92 @@
+import { BadResponseError, CancelledError, HttpError, NetworkError } from '../errors';
+import { getJson, postJson } from '../http';
+import { OllamaBackend } from '../OllamaBackend';
+import { OpenAIBackend } from '../OpenAIBackend';
+import { failure } from '../../../test-utils/failure';
+import { createMockServer } from '../../../test-utils/mockServer';
+
+describe('chat HTTP errors', () => {
+  const server = createMockServer();
+
+  beforeEach(() => {
+    server.install();
+  });
+
+  afterEach(() => {
+    server.restore();
+  });
+
+  it('reports an unreachable server as a retryable network error', async () => {
+    server.on('GET', '/api/tags', () => {
+      throw new TypeError('Failed to fetch');
+    });
+
+    const error = await failure(getJson(`${server.origin}/api/tags`));
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).toMatchObject({ kind: 'network', retryable: true });
+  });
+
+  it('reports the HTTP status and retries only temporary failures', async () => {
+    server.on('POST', '/a', { status: 503 }).on('POST', '/b', { status: 400 }).on('POST', '/c', { status: 429 });
+
+    const unavailable = await failure(postJson(`${server.origin}/a`, {}));
+    const badRequest = await failure(postJson(`${server.origin}/b`, {}));
+    const rateLimited = await failure(postJson(`${server.origin}/c`, {}));
+
+    expect(unavailable).toBeInstanceOf(HttpError);
+    expect(unavailable).toMatchObject({ kind: 'http', status: 503, retryable: true, message: 'API request failed with status 503' });
+    expect(badRequest).toMatchObject({ status: 400, retryable: false });
+    expect(rateLimited).toMatchObject({ status: 429, retryable: true });
+  });
+
+  it('reports a body that is not JSON as a bad response', async () => {
+    server.on('POST', '/api/chat', { text: '<html>Gateway</html>' });
+
+    const error = await failure(new OllamaBackend({ baseUrl: server.origin }).chat({ model: 'llama3.2', messages: [] }));
+
+    expect(error).toBeInstanceOf(BadResponseError);
+    expect(error).toMatchObject({ retryable: false });
+  });
+
+  it('reports broken stream chunks as a bad response', async () => {
+    server.on('POST', '/v1/chat/completions', { chunks: ['data: {"choices":[{"delta"\n'] });
+
+    await expect(new OpenAIBackend({ baseUrl: server.origin }).chat({ model: 'gpt', messages: [] }, jest.fn()))
+      .rejects.toBeInstanceOf(BadResponseError);
+  });
+
+  it('reports a stream that breaks off as a retryable network error', async () => {
+    server.on('POST', '/api/chat', {
+      chunks: ['{"message":{"role":"assistant","content":"Hel"}}\n', Promise.reject(new TypeError('network error'))],
+    });
+
+    const error = await failure(new OllamaBackend({ baseUrl: server.origin }).chat({ model: 'llama3.2', messages: [] }, jest.fn()));
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).toMatchObject({ retryable: true });
+  });
+
+  it('reports a stream aborted partway through as cancelled', async () => {
+    const controller = new AbortController();
+    server.on('POST', '/v1/chat/completions', {
+      chunks: ['data: {"choices":[{"delta":{"content":"Hel"}}]}\n', new Promise<string>(() => {})],
+    });
+
+    const reply = new OpenAIBackend({ baseUrl: server.origin })
+      .chat({ model: 'gpt', messages: [], signal: controller.signal }, () => controller.abort());
+
+    await expect(reply).rejects.toBeInstanceOf(CancelledError);
+  });
+
+  it('reports an aborted request as cancelled', async () => {
+    server.on('POST', '/api/chat', () => new Promise(() => {}));
+    const controller = new AbortController();
+
+    const reply = new OllamaBackend({ baseUrl: server.origin })
+      .chat({ model: 'llama3.2', messages: [], signal: controller.signal });
+    controller.abort();
+
+    await expect(reply).rejects.toBeInstanceOf(CancelledError);
+  });
+});
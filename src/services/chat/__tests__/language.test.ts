@@ -0,0 +1,22 @@
+import { withLanguageInstruction } from '../language';
+
+describe('withLanguageInstruction', () => {
+  it('leaves the conversation alone without a language', () => {
+    const messages = [{ role: 'user' as const, content: 'Hi' }];
+
+    expect(withLanguageInstruction(messages)).toBe(messages);
+  });
+
+  it('adds the instruction before the first non-system turn', () => {
+    const result = withLanguageInstruction([
+      { role: 'system', content: 'You are a tutor' },
+      { role: 'user', content: 'Bonjour' }
+    ], 'fr-FR');
+
+    expect(result).toEqual([
+      { role: 'system', content: 'You are a tutor' },
+      { role: 'system', content: 'Always reply in French (fr-FR), the language the user is speaking.' },
+      { role: 'user', content: 'Bonjour' }
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+import {
+  EMPTY_PARAMETER_INPUTS,
+  mergeParameters,
+  parseParameterInputs,
+  toParameterInputs,
+  validateParameters
+} from '../parameters';
+
+describe('validateParameters', () => {
+  it('accepts values inside the ranges', () => {
+    expect(validateParameters({ temperature: 0, topP: 1, maxTokens: 1, stop: ['a', 'b', 'c', 'd'] })).toEqual({});
+    expect(validateParameters({})).toEqual({});
+  });
+
+  it('reports values outside the ranges', () => {
+    expect(validateParameters({ temperature: 2.5, topP: -0.1, maxTokens: 0 })).toEqual({
+      temperature: 'Must be between 0 and 2',
+      topP: 'Must be between 0 and 1',
+      maxTokens: 'Must be between 1 and 131072',
+    });
+  });
+
+  it('wants whole token counts and a few stop sequences', () => {
+    expect(validateParameters({ maxTokens: 10.5, stop: ['1', '2', '3', '4', '5'] })).toEqual({
+      maxTokens: 'Must be a whole number',
+      stop: 'At most 4 stop sequences',
+    });
+  });
+});
+
+describe('parseParameterInputs', () => {
+  it('reads numbers and one stop sequence per line, leaving empty fields out', () => {
+    expect(parseParameterInputs({ temperature: ' 0.4 ', topP: '', maxTokens: '300', stop: 'User:\n\n###' })).toEqual({
+      parameters: { temperature: 0.4, maxTokens: 300, stop: ['User:', '###'] },
+      errors: {},
+    });
+    expect(parseParameterInputs(EMPTY_PARAMETER_INPUTS)).toEqual({ parameters: {}, errors: {} });
+  });
+
+  it('reports text that is not a number or out of range', () => {
+    const { errors } = parseParameterInputs({ ...EMPTY_PARAMETER_INPUTS, temperature: 'warm', topP: '3' });
+
+    expect(errors).toEqual({ temperature: 'Must be a number', topP: 'Must be between 0 and 1' });
+  });
+
+  it('round-trips through the form inputs', () => {
+    const parameters = { temperature: 0.7, topP: 0.95, maxTokens: 512, stop: ['END', 'User:'] };
+
+    expect(parseParameterInputs(toParameterInputs(parameters)).parameters).toEqual(parameters);
+    expect(toParameterInputs()).toEqual(EMPTY_PARAMETER_INPUTS);
+  });
+});
+
+describe('mergeParameters', () => {
+  it('lets later layers override earlier ones', () => {
+    expect(mergeParameters({ temperature: 0.7, maxTokens: 100 }, { temperature: 0.1, stop: ['x'] })).toEqual({
+      temperature: 0.1,
+      maxTokens: 100,
+      stop: ['x'],
+    });
+  });
+
+  it('skips missing layers and undefined values', () => {
+    expect(mergeParameters(undefined, { temperature: 0.5 }, { temperature: undefined }, undefined)).toEqual({
+      temperature: 0.5,
+    });
+    expect(mergeParameters()).toEqual({});
+  });
+});
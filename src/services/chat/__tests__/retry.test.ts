@@ -0,0 +1,186 @@
+import { CancelledError, HttpError, NetworkError, TimeoutError } from '../errors';
+import { OllamaBackend } from '../OllamaBackend';
+import { backoffDelay, chatWithRetry, withRetry, withTimeout } from '../retry';
+import { failure } from '../../../test-utils/failure';
+import { createMockServer } from '../../../test-utils/mockServer';
+
+const never = () => new Promise<never>(() => {});
+
+describe('backoffDelay', () => {
+  it('doubles with every retry up to a cap', () => {
+    expect([0, 1, 2, 3].map(retry => backoffDelay(retry, 500))).toEqual([500, 1000, 2000, 4000]);
+    expect(backoffDelay(20, 1000)).toBe(30000);
+  });
+});
+
+describe('withTimeout', () => {
+  it('resolves with the result of a prompt attempt', async () => {
+    await expect(withTimeout(async () => 'done', 50)).resolves.toBe('done');
+  });
+
+  it('fails with a timeout and aborts the attempt when it goes quiet', async () => {
+    let attemptSignal: AbortSignal | undefined;
+
+    const error = await failure(withTimeout(signal => {
+      attemptSignal = signal;
+      return never();
+    }, 20));
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error).toMatchObject({ retryable: true });
+    expect(attemptSignal?.aborted).toBe(true);
+  });
+
+  it('restarts the clock whenever the attempt shows progress', async () => {
+    const result = withTimeout(async (signal, touch) => {
+      for (let i = 0; i < 4; i++) {
+        await new Promise(resolve => setTimeout(resolve, 15));
+        touch();
+      }
+      return 'streamed';
+    }, 30);
+
+    await expect(result).resolves.toBe('streamed');
+  });
+
+  it('waits forever when the timeout is 0', async () => {
+    const result = withTimeout(() => new Promise(resolve => setTimeout(() => resolve('late'), 30)), 0);
+
+    await expect(result).resolves.toBe('late');
+  });
+
+  it('is cancelled by the caller', async () => {
+    const controller = new AbortController();
+    const result = withTimeout(never, 1000, controller.signal);
+
+    controller.abort();
+
+    await expect(result).rejects.toBeInstanceOf(CancelledError);
+  });
+
+  it('does not start when already cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const run = jest.fn(never);
+
+    await expect(withTimeout(run, 1000, controller.signal)).rejects.toBeInstanceOf(CancelledError);
+    expect(run).not.toHaveBeenCalled();
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient failures with growing delays', async () => {
+    const run = jest.fn()
+      .mockRejectedValueOnce(new NetworkError())
+      .mockRejectedValueOnce(new HttpError(503))
+      .mockResolvedValueOnce('ok');
+    const onRetry = jest.fn();
+
+    await expect(withRetry(run, { retries: 2, retryDelay: 5, onRetry })).resolves.toBe('ok');
+
+    expect(run).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls).toEqual([
+      [1, expect.any(NetworkError), 5],
+      [2, expect.any(HttpError), 10],
+    ]);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const run = jest.fn().mockRejectedValue(new NetworkError());
+
+    await expect(withRetry(run, { retries: 2, retryDelay: 1 })).rejects.toBeInstanceOf(NetworkError);
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry errors that would happen again', async () => {
+    const run = jest.fn().mockRejectedValue(new HttpError(400));
+
+    await expect(withRetry(run, { retries: 2, retryDelay: 1 })).rejects.toBeInstanceOf(HttpError);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting for the next attempt when cancelled', async () => {
+    const controller = new AbortController();
+    const run = jest.fn().mockRejectedValue(new NetworkError());
+    const result = withRetry(run, {
+      retries: 2,
+      retryDelay: 10000,
+      signal: controller.signal,
+      onRetry: () => controller.abort(),
+    });
+
+    await expect(result).rejects.toBeInstanceOf(CancelledError);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('chatWithRetry', () => {
+  const server = createMockServer();
+  const backend = new OllamaBackend({ baseUrl: server.origin });
+  const request = { model: 'llama3.2', messages: [{ role: 'user' as const, content: 'Hi' }] };
+  const options = { timeout: 1000, retries: 2, retryDelay: 1 };
+
+  beforeEach(() => {
+    server.install();
+  });
+
+  afterEach(() => {
+    server.restore();
+  });
+
+  it('recovers from a dropped connection', async () => {
+    let calls = 0;
+    server.on('POST', '/api/chat', () => {
+      if (calls++ === 0) {
+        throw new TypeError('Failed to fetch');
+      }
+      return { json: { message: { role: 'assistant', content: 'Hello' } } };
+    });
+
+    await expect(chatWithRetry(backend, request, undefined, options)).resolves.toEqual({ content: 'Hello' });
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('starts over when the stream breaks off', async () => {
+    let calls = 0;
+    server.on('POST', '/api/chat', () => ({
+      chunks: calls++ === 0
+        ? ['{"message":{"role":"assistant","content":"Hel"}}\n', Promise.reject(new TypeError('network error'))]
+        : ['{"message":{"role":"assistant","content":"Hello"}}\n'],
+    }));
+    const onRetry = jest.fn();
+
+    await expect(chatWithRetry(backend, request, jest.fn(), { ...options, onRetry })).resolves.toEqual({ content: 'Hello' });
+    expect(onRetry).toHaveBeenCalledWith(1, expect.any(NetworkError), 1);
+  });
+
+  it('times out a server that never answers and tries again', async () => {
+    server.on('POST', '/api/chat', never);
+
+    const error = await failure(chatWithRetry(backend, request, undefined, { ...options, timeout: 20, retries: 1 }));
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('passes streamed tokens through', async () => {
+    server.on('POST', '/api/chat', {
+      chunks: ['{"message":{"role":"assistant","content":"Hel"}}\n', '{"message":{"role":"assistant","content":"lo"}}\n'],
+    });
+    const onToken = jest.fn();
+
+    await expect(chatWithRetry(backend, request, onToken, options)).resolves.toEqual({ content: 'Hello' });
+    expect(onToken.mock.calls).toEqual([['Hel'], ['lo']]);
+  });
+
+  it('cancels the request in flight', async () => {
+    server.on('POST', '/api/chat', never);
+    const controller = new AbortController();
+    const reply = chatWithRetry(backend, request, undefined, { ...options, signal: controller.signal });
+
+    controller.abort();
+
+    await expect(reply).rejects.toBeInstanceOf(CancelledError);
+    expect(server.requests).toHaveLength(1);
+  });
+});
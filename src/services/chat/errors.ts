@@ -0,0 +1,64 @@
+export type ChatErrorKind = 'network' | 'http' | 'bad-response' | 'timeout' | 'cancelled';
+
+export class ChatError extends Error {
+  constructor(readonly kind: ChatErrorKind, message: string) {
+    super(message);
+    this.name = 'ChatError';
+    // Keeps instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+
+  // Whether trying the same request again might succeed
+  get retryable(): boolean {
+    return this.kind === 'network' || this.kind === 'timeout';
+  }
+}
+
+// The server could not be reached at all
+export class NetworkError extends ChatError {
+  constructor(message = 'Could not reach the chat server') {
+    super('network', message);
+    this.name = 'NetworkError';
+  }
+}
+
+export class HttpError extends ChatError {
+  constructor(readonly status: number) {
+    super('http', `API request failed with status ${status}`);
+    this.name = 'HttpError';
+  }
+
+  // Rate limits and server-side failures are usually temporary
+  get retryable(): boolean {
+    return this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+}
+
+// The server answered with something that is not the expected JSON
+export class BadResponseError extends ChatError {
+  constructor(message = 'The chat server sent a reply that could not be read') {
+    super('bad-response', message);
+    this.name = 'BadResponseError';
+  }
+}
+
+export class TimeoutError extends ChatError {
+  constructor(readonly timeout: number) {
+    super('timeout', `No reply within ${Math.round(timeout / 1000)} seconds`);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class CancelledError extends ChatError {
+  constructor() {
+    super('cancelled', 'Reply cancelled');
+    this.name = 'CancelledError';
+  }
+}
+
+export const toChatError = (error: unknown): ChatError => {
+  if (error instanceof ChatError) {
+    return error;
+  }
+  return new ChatError('bad-response', error instanceof Error ? error.message : String(error));
+};
@@ -0,0 +1,76 @@
+import { BadResponseError, CancelledError, HttpError, NetworkError } from './errors';
+
+const send = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    if (init.signal?.aborted) {
+      throw new CancelledError();
+    }
+    // fetch only rejects when the request never got an answer
+    throw new NetworkError();
+  }
+
+  if (!response.ok) {
+    throw new HttpError(response.status);
+  }
+
+  return response;
+};
+
+const readJson = async <T>(response: Response): Promise<T> => {
+  try {
+    return (await response.json()) as T;
+  } catch (error) {
+    throw new BadResponseError();
+  }
+};
+
+export const parseJson = <T>(text: string): T => {
+  try {
+    return JSON.parse(text) as T;
+  } catch (error) {
+    throw new BadResponseError();
+  }
+};
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // Sent as a bearer token
+  apiKey?: string | null;
+}
+
+const authorization = (apiKey?: string | null): Record<string, string> =>
+  apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+export const post = (url: string, body: unknown, { signal, apiKey }: RequestOptions = {}): Promise<Response> =>
+  send(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authorization(apiKey),
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+export const postJson = async <T>(url: string, body: unknown, options?: RequestOptions): Promise<T> =>
+  readJson<T>(await post(url, body, options));
+
+export const getJson = async <T>(url: string, { signal, apiKey }: RequestOptions = {}): Promise<T> =>
+  readJson<T>(await send(url, { headers: authorization(apiKey), signal }));
+
+// Multipart upload, e.g. audio to transcribe; the browser sets the boundary
+export const postFormJson = async <T>(url: string, form: FormData, { signal, apiKey }: RequestOptions = {}): Promise<T> =>
+  readJson<T>(await send(url, { method: 'POST', headers: authorization(apiKey), body: form, signal }));
+
+// Binary reply, e.g. synthesised speech
+export const postForBlob = async (url: string, body: unknown, options?: RequestOptions): Promise<Blob> => {
+  const response = await post(url, body, options);
+  try {
+    return await response.blob();
+  } catch (error) {
+    throw new BadResponseError();
+  }
+};
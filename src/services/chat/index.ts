@@ -0,0 +1,27 @@
+import { AppConfig } from '../config/types';
+import { LegacyBackend } from './LegacyBackend';
+import { OllamaBackend } from './OllamaBackend';
+import { OpenAIBackend } from './OpenAIBackend';
+import { ChatBackend } from './types';
+
+export * from './errors';
+export * from './parameters';
+export * from './retry';
+export * from './types';
+export { LegacyBackend, OllamaBackend, OpenAIBackend };
+
+export const createChatBackend = (
+  config: Pick<AppConfig, 'chatBackend' | 'chatBaseUrl'> & Partial<Pick<AppConfig, 'apiKey'>>
+): ChatBackend => {
+  const options = { baseUrl: config.chatBaseUrl, apiKey: config.apiKey };
+
+  switch (config.chatBackend) {
+    case 'openai':
+      return new OpenAIBackend(options);
+    case 'legacy':
+      return new LegacyBackend(options);
+    case 'ollama':
+    default:
+      return new OllamaBackend(options);
+  }
+};
@@ -0,0 +1,17 @@
+import { getLanguageName } from '../../utils/languages';
+import { ChatTurn } from './types';
+
+// Adds a system turn asking the model to answer in the user's language,
+// placed after any system turns the conversation already starts with
+export const withLanguageInstruction = (messages: ChatTurn[], language?: string): ChatTurn[] => {
+  if (!language) return messages;
+
+  const instruction: ChatTurn = {
+    role: 'system',
+    content: `Always reply in ${getLanguageName(language)} (${language}), the language the user is speaking.`,
+  };
+  const firstNonSystem = messages.findIndex(turn => turn.role !== 'system');
+  const insertAt = firstNonSystem === -1 ? messages.length : firstNonSystem;
+
+  return [...messages.slice(0, insertAt), instruction, ...messages.slice(insertAt)];
+};
@@ -0,0 +1,88 @@
+import { ModelParameters } from './types';
+
+export const PARAMETER_LIMITS = {
+  temperature: { min: 0, max: 2, step: 0.1 },
+  topP: { min: 0, max: 1, step: 0.05 },
+  maxTokens: { min: 1, max: 131072, step: 1 },
+};
+
+// The most OpenAI-compatible servers accept
+export const MAX_STOP_SEQUENCES = 4;
+
+export type NumericParameter = keyof typeof PARAMETER_LIMITS;
+
+export type ParameterErrors = Partial<Record<keyof ModelParameters, string>>;
+
+// Parameters as typed into a form: numbers as text, stop sequences one per line
+export interface ParameterInputs {
+  temperature: string;
+  topP: string;
+  maxTokens: string;
+  stop: string;
+}
+
+export const EMPTY_PARAMETER_INPUTS: ParameterInputs = { temperature: '', topP: '', maxTokens: '', stop: '' };
+
+const NUMERIC_PARAMETERS: NumericParameter[] = ['temperature', 'topP', 'maxTokens'];
+
+export const toParameterInputs = (parameters: ModelParameters = {}): ParameterInputs => ({
+  temperature: parameters.temperature?.toString() ?? '',
+  topP: parameters.topP?.toString() ?? '',
+  maxTokens: parameters.maxTokens?.toString() ?? '',
+  stop: (parameters.stop ?? []).join('\n'),
+});
+
+export const validateParameters = (parameters: ModelParameters): ParameterErrors => {
+  const errors: ParameterErrors = {};
+
+  NUMERIC_PARAMETERS.forEach(key => {
+    const value = parameters[key];
+    if (value === undefined) return;
+    const { min, max } = PARAMETER_LIMITS[key];
+    if (!Number.isFinite(value) || value < min || value > max) {
+      errors[key] = `Must be between ${min} and ${max}`;
+    } else if (key === 'maxTokens' && !Number.isInteger(value)) {
+      errors[key] = 'Must be a whole number';
+    }
+  });
+
+  if (parameters.stop && parameters.stop.length > MAX_STOP_SEQUENCES) {
+    errors.stop = `At most ${MAX_STOP_SEQUENCES} stop sequences`;
+  }
+
+  return errors;
+};
+
+// Empty fields are left out, so the model's own default applies
+export const parseParameterInputs = (inputs: ParameterInputs): { parameters: ModelParameters; errors: ParameterErrors } => {
+  const parameters: ModelParameters = {};
+  const errors: ParameterErrors = {};
+
+  NUMERIC_PARAMETERS.forEach(key => {
+    const text = inputs[key].trim();
+    if (text === '') return;
+    const value = Number(text);
+    if (Number.isNaN(value)) {
+      errors[key] = 'Must be a number';
+    } else {
+      parameters[key] = value;
+    }
+  });
+
+  const stop = inputs.stop.split('\n').filter(sequence => sequence !== '');
+  if (stop.length > 0) {
+    parameters.stop = stop;
+  }
+
+  return { parameters, errors: { ...validateParameters(parameters), ...errors } };
+};
+
+export const hasParameterErrors = (errors: ParameterErrors): boolean => Object.keys(errors).length > 0;
+
+// Later layers win; a layer that leaves a parameter out keeps the earlier value
+export const mergeParameters = (...layers: (ModelParameters | undefined)[]): ModelParameters =>
+  layers.reduce<ModelParameters>((merged, layer) => {
+    if (!layer) return merged;
+    const defined = Object.entries(layer).filter(([, value]) => value !== undefined);
+    return { ...merged, ...Object.fromEntries(defined) };
+  }, {});
@@ -0,0 +1,127 @@
+import { CancelledError, ChatError, TimeoutError, toChatError } from './errors';
+import { ChatBackend, ChatRequest, ChatResponse, TokenHandler } from './types';
+
+export interface RetryOptions {
+  // Attempts after the first one; only retryable errors are tried again
+  retries: number;
+  // Delay before the first retry in ms, doubled for every retry after it
+  retryDelay: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, error: ChatError, delay: number) => void;
+}
+
+export interface ChatCallOptions extends RetryOptions {
+  // How long the server may stay silent, in ms; 0 waits forever
+  timeout: number;
+}
+
+const MAX_RETRY_DELAY = 30000;
+
+export const backoffDelay = (retry: number, retryDelay: number): number =>
+  Math.min(retryDelay * 2 ** retry, MAX_RETRY_DELAY);
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new CancelledError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new CancelledError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort);
+});
+
+// Runs one attempt with its own AbortController, which is aborted when the
+// caller's signal fires or when the attempt goes `timeout` ms without calling
+// `touch`. Settles straight away either way, even if the attempt ignores the
+// signal.
+export const withTimeout = <T>(
+  run: (signal: AbortSignal, touch: () => void) => Promise<T>,
+  timeout: number,
+  signal?: AbortSignal
+): Promise<T> => new Promise<T>((resolve, reject) => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let settled = false;
+
+  const settle = () => {
+    settled = true;
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  };
+  const fail = (error: ChatError) => {
+    if (settled) return;
+    settle();
+    controller.abort();
+    reject(error);
+  };
+  const onAbort = () => fail(new CancelledError());
+  const touch = () => {
+    if (settled || timeout <= 0) return;
+    clearTimeout(timer);
+    timer = setTimeout(() => fail(new TimeoutError(timeout)), timeout);
+  };
+
+  if (signal?.aborted) {
+    reject(new CancelledError());
+    return;
+  }
+  signal?.addEventListener('abort', onAbort);
+  touch();
+
+  run(controller.signal, touch).then(
+    value => {
+      if (settled) return;
+      settle();
+      resolve(value);
+    },
+    error => {
+      if (settled) return;
+      settle();
+      reject(toChatError(error));
+    }
+  );
+});
+
+// Retries transient failures with exponential backoff
+export const withRetry = async <T>(run: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> => {
+  let attempt = 0;
+  while (true) {
+    try {
+      return await run(attempt);
+    } catch (error) {
+      const chatError = toChatError(error);
+      if (!chatError.retryable || attempt >= options.retries || options.signal?.aborted) {
+        throw chatError;
+      }
+      const delay = backoffDelay(attempt, options.retryDelay);
+      attempt++;
+      options.onRetry?.(attempt, chatError, delay);
+      await wait(delay, options.signal);
+    }
+  }
+};
+
+// One chat request with a timeout between tokens, cancellation and retries
+export const chatWithRetry = (
+  backend: ChatBackend,
+  request: ChatRequest,
+  onToken: TokenHandler | undefined,
+  options: ChatCallOptions
+): Promise<ChatResponse> =>
+  withRetry(
+    () => withTimeout(
+      (signal, touch) => backend.chat({ ...request, signal }, onToken && (token => {
+        touch();
+        onToken(token);
+      })),
+      options.timeout,
+      options.signal
+    ),
+    options
+  );
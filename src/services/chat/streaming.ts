@@ -0,0 +1,74 @@
+import { CancelledError, NetworkError } from './errors';
+
+// Calls onLine for every non-empty line of the response body as it arrives.
+// Used for both NDJSON (Ollama) and server-sent events (OpenAI). `signal` is
+// the request's, to tell a cancelled reply from a dropped connection.
+export const readLines = async (
+  response: Response,
+  onLine: (line: string) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const emit = (line: string) => {
+    const trimmed = line.trim();
+    if (trimmed) {
+      onLine(trimmed);
+    }
+  };
+
+  if (!response.body || typeof TextDecoder === 'undefined') {
+    // No streaming support in this environment: handle the whole body at once
+    const text = await response.text();
+    text.split('\n').forEach(emit);
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  // Reading only fails when the connection is lost or the request aborted
+  const read = async () => {
+    try {
+      return await reader.read();
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new CancelledError();
+      }
+      throw new NetworkError('The connection to the chat server was lost');
+    }
+  };
+
+  while (true) {
+    const { done, value } = await read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.forEach(emit);
+  }
+
+  buffer += decoder.decode();
+  emit(buffer);
+};
+
+// Extracts the payloads of `data:` lines from a server-sent event stream,
+// stopping at the OpenAI `[DONE]` sentinel
+export const readServerSentEvents = async (
+  response: Response,
+  onData: (data: string) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  let finished = false;
+
+  await readLines(response, line => {
+    if (finished || !line.startsWith('data:')) return;
+
+    const data = line.slice('data:'.length).trim();
+    if (data === '[DONE]') {
+      finished = true;
+      return;
+    }
+    onData(data);
+  }, signal);
+};
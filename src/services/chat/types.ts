@@ -0,0 +1,51 @@
+export type ChatBackendKind = 'ollama' | 'openai' | 'legacy';
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatTurn {
+  role: ChatRole;
+  content: string;
+}
+
+// Sampling settings; anything left out uses the model's own default
+export interface ModelParameters {
+  temperature?: number;
+  topP?: number;
+  // Longest reply in tokens
+  maxTokens?: number;
+  // Generation stops before any of these strings
+  stop?: string[];
+}
+
+export interface ChatRequest {
+  model: string;
+  // Full conversation, oldest first, ending with the turn to answer
+  messages: ChatTurn[];
+  // BCP 47 tag of the language the reply should be written in
+  language?: string;
+  parameters?: ModelParameters;
+  // Aborts the request, including a reply that is still streaming
+  signal?: AbortSignal;
+}
+
+export interface ChatResponse {
+  content: string;
+  model?: string;
+}
+
+export type TokenHandler = (token: string) => void;
+
+export interface ChatBackend {
+  readonly kind: ChatBackendKind;
+  // When onToken is given the reply is streamed and every delta is passed to
+  // it as it arrives; the promise still resolves with the complete reply
+  chat(request: ChatRequest, onToken?: TokenHandler): Promise<ChatResponse>;
+  // Names of the models the backend can serve; empty when it cannot list them
+  listModels(): Promise<string[]>;
+}
+
+export interface ChatBackendOptions {
+  baseUrl: string;
+  // Sent as a bearer token with every request
+  apiKey?: string | null;
+}
@@ -0,0 +1,163 @@
+import {
+  apiKeyFor,
+  buildConfig,
+  DEFAULT_CONFIG,
+  diffConfig,
+  formatConfigIssue,
+  loadRuntimeConfig,
+  readEnvironment,
+  resolveConfig,
+  validateValues
+} from '..';
+import { createMockServer } from '../../../test-utils/mockServer';
+
+const env = (values: Record<string, string>) => values as unknown as NodeJS.ProcessEnv;
+
+describe('configuration layers', () => {
+  it('reads the REACT_APP_* variables over the defaults', () => {
+    expect(buildConfig(env({}))).toEqual({ config: DEFAULT_CONFIG, issues: [] });
+    expect(buildConfig(env({
+      REACT_APP_CHAT_BACKEND: 'openai',
+      REACT_APP_CHAT_BASE_URL: 'http://llm.internal:8080/',
+      REACT_APP_API_KEY: 'sk-test',
+      REACT_APP_DEFAULT_MODEL: 'qwen2.5',
+      REACT_APP_DEFAULT_LANGUAGE: 'fr-fr',
+      REACT_APP_DEFAULT_VOICE: 'thomas',
+      REACT_APP_REQUEST_TIMEOUT_MS: '0',
+      REACT_APP_MAX_RETRIES: '5',
+      REACT_APP_RETRY_DELAY_MS: '250',
+      REACT_APP_CONTEXT_MAX_TOKENS: '8000',
+      REACT_APP_CONTEXT_MAX_CHARACTERS: '20000',
+      REACT_APP_RECOGNITION_ENGINE: 'whisper',
+      REACT_APP_TRANSCRIPTION_BASE_URL: 'http://whisper.internal:8080',
+      REACT_APP_TRANSCRIPTION_MODEL: 'large-v3',
+      REACT_APP_SPEECH_ENGINE: 'http',
+      REACT_APP_SPEECH_BASE_URL: 'http://piper.internal:8000/',
+      REACT_APP_SPEECH_MODEL: 'piper',
+      REACT_APP_SPEECH_VOICES: 'en_US-amy-medium,en_GB-alan-low',
+      REACT_APP_UNRELATED: 'ignored'
+    })).config).toEqual({
+      chatBackend: 'openai',
+      chatBaseUrl: 'http://llm.internal:8080',
+      apiKey: 'sk-test',
+      defaultModel: 'qwen2.5',
+      defaultLanguage: 'fr-FR',
+      defaultVoice: 'thomas',
+      requestTimeout: 0,
+      maxRetries: 5,
+      retryDelay: 250,
+      contextMaxTokens: 8000,
+      contextMaxCharacters: 20000,
+      recognitionEngine: 'whisper',
+      transcriptionBaseUrl: 'http://whisper.internal:8080',
+      transcriptionModel: 'large-v3',
+      speechEngine: 'http',
+      speechBaseUrl: 'http://piper.internal:8000',
+      speechModel: 'piper',
+      speechVoices: 'en_US-amy-medium, en_GB-alan-low'
+    });
+  });
+
+  it('treats empty variables as unset', () => {
+    expect(readEnvironment(env({ REACT_APP_CHAT_BACKEND: '', REACT_APP_DEFAULT_MODEL: 'phi3' }))).toEqual({
+      defaultModel: 'phi3'
+    });
+  });
+
+  it('reports invalid values instead of quietly using the default', () => {
+    const { config, issues } = buildConfig(env({ REACT_APP_MAX_RETRIES: 'lots', REACT_APP_CHAT_BACKEND: 'bogus' }));
+
+    expect(config.maxRetries).toBe(2);
+    expect(config.chatBackend).toBe('ollama');
+    expect(issues.map(formatConfigIssue)).toEqual([
+      'REACT_APP_CHAT_BACKEND must be one of ollama, openai, legacy',
+      'REACT_APP_MAX_RETRIES must be a whole number, 0 or more'
+    ]);
+  });
+
+  it('applies later layers over earlier ones', () => {
+    const { config, issues } = resolveConfig([
+      { source: 'environment', values: { chatBaseUrl: 'http://build:11434', defaultModel: 'llama3.2' } },
+      { source: 'config.json', values: { chatBaseUrl: 'https://llm.example.com', apiKey: 'secret' } },
+      { source: 'settings', values: { defaultModel: 'mistral', apiKey: null } },
+    ]);
+
+    expect(issues).toEqual([]);
+    expect(config).toMatchObject({
+      chatBaseUrl: 'https://llm.example.com',
+      defaultModel: 'mistral',
+      apiKey: null,
+    });
+  });
+
+  it('reports unknown settings and values of the wrong type', () => {
+    const { values, issues } = validateValues({ chatBaseUrl: 'ftp://files', baseUrl: 'http://x', maxRetries: 1.5, defaultModel: 'phi3' }, 'config.json');
+
+    expect(values).toEqual({ defaultModel: 'phi3' });
+    expect(issues.map(formatConfigIssue)).toEqual([
+      'config.json: "chatBaseUrl" must be an http:// or https:// URL',
+      'config.json: "baseUrl" is not a known setting',
+      'config.json: "maxRetries" must be a whole number, 0 or more'
+    ]);
+    expect(validateValues(['x'], 'settings').issues.map(formatConfigIssue)).toEqual([
+      'Your saved settings must be an object of settings'
+    ]);
+    expect(validateValues({ toString: 'x' }, 'settings').issues).toHaveLength(1);
+  });
+
+  it('keeps only the values that differ from the deployment', () => {
+    expect(diffConfig(DEFAULT_CONFIG, { defaultModel: 'llama3.2', apiKey: 'secret' })).toEqual({ apiKey: 'secret' });
+  });
+});
+
+describe('apiKeyFor', () => {
+  const config = { chatBaseUrl: 'http://llm.local', apiKey: 'sk-test' };
+
+  it('sends the key to the chat server, or when no other server is set', () => {
+    expect(apiKeyFor(null, config)).toBe('sk-test');
+    expect(apiKeyFor('http://llm.local', config)).toBe('sk-test');
+    expect(apiKeyFor(null, { chatBaseUrl: 'http://llm.local' })).toBeNull();
+  });
+
+  it('keeps the key from other servers', () => {
+    expect(apiKeyFor('http://tts.local', config)).toBeNull();
+  });
+});
+
+describe('loadRuntimeConfig', () => {
+  const server = createMockServer('http://app.local');
+  const url = `${server.origin}/config.json`;
+
+  beforeEach(() => {
+    server.install();
+  });
+
+  afterEach(() => {
+    server.restore();
+  });
+
+  it('loads config.json without using a cached copy', async () => {
+    server.on('GET', '/config.json', { json: { chatBaseUrl: 'https://llm.example.com' } });
+
+    expect(await loadRuntimeConfig(url)).toEqual({
+      status: 'loaded',
+      values: { chatBaseUrl: 'https://llm.example.com' },
+    });
+    expect(global.fetch).toHaveBeenCalledWith(url, { cache: 'no-store' });
+  });
+
+  it('treats a missing file as no runtime configuration', async () => {
+    expect(await loadRuntimeConfig(url)).toEqual({ status: 'absent' });
+
+    server.on('GET', '/config.json', { text: '<!DOCTYPE html><html></html>' });
+    expect(await loadRuntimeConfig(url)).toEqual({ status: 'absent' });
+  });
+
+  it('fails on a broken file or server error', async () => {
+    server.on('GET', '/config.json', { text: '{ "chatBaseUrl": ' });
+    expect(await loadRuntimeConfig(url)).toEqual({ status: 'failed', message: 'is not valid JSON' });
+
+    server.on('GET', '/config.json', { status: 500 });
+    expect(await loadRuntimeConfig(url)).toEqual({ status: 'failed', message: 'could not be loaded (status 500)' });
+  });
+});
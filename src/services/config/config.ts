@@ -0,0 +1,107 @@
+import { AppConfig, ConfigIssue, ConfigKey, ConfigLayer, ConfigValues } from './types';
+import { validateValues } from './validate';
+
+export const DEFAULT_CONFIG: AppConfig = {
+  chatBackend: 'ollama',
+  chatBaseUrl: 'http://localhost:11434',
+  apiKey: null,
+  defaultModel: 'llama3.2',
+  defaultLanguage: null,
+  defaultVoice: null,
+  requestTimeout: 60000,
+  maxRetries: 2,
+  retryDelay: 1000,
+  contextMaxTokens: 4096,
+  contextMaxCharacters: 0,
+  recognitionEngine: 'auto',
+  transcriptionBaseUrl: null,
+  transcriptionModel: 'whisper-1',
+  speechEngine: 'browser',
+  speechBaseUrl: null,
+  speechModel: 'tts-1',
+  speechVoices: 'alloy, echo, fable, onyx, nova, shimmer',
+};
+
+// The REACT_APP_* variable behind each setting
+export const ENV_VARIABLES: Record<ConfigKey, string> = {
+  chatBackend: 'REACT_APP_CHAT_BACKEND',
+  chatBaseUrl: 'REACT_APP_CHAT_BASE_URL',
+  apiKey: 'REACT_APP_API_KEY',
+  defaultModel: 'REACT_APP_DEFAULT_MODEL',
+  defaultLanguage: 'REACT_APP_DEFAULT_LANGUAGE',
+  defaultVoice: 'REACT_APP_DEFAULT_VOICE',
+  requestTimeout: 'REACT_APP_REQUEST_TIMEOUT_MS',
+  maxRetries: 'REACT_APP_MAX_RETRIES',
+  retryDelay: 'REACT_APP_RETRY_DELAY_MS',
+  contextMaxTokens: 'REACT_APP_CONTEXT_MAX_TOKENS',
+  contextMaxCharacters: 'REACT_APP_CONTEXT_MAX_CHARACTERS',
+  recognitionEngine: 'REACT_APP_RECOGNITION_ENGINE',
+  transcriptionBaseUrl: 'REACT_APP_TRANSCRIPTION_BASE_URL',
+  transcriptionModel: 'REACT_APP_TRANSCRIPTION_MODEL',
+  speechEngine: 'REACT_APP_SPEECH_ENGINE',
+  speechBaseUrl: 'REACT_APP_SPEECH_BASE_URL',
+  speechModel: 'REACT_APP_SPEECH_MODEL',
+  speechVoices: 'REACT_APP_SPEECH_VOICES',
+};
+
+// Build-time layer: the REACT_APP_* variables that are set, unvalidated
+export const readEnvironment = (env: NodeJS.ProcessEnv = process.env): Record<string, string> => {
+  const values: Record<string, string> = {};
+  (Object.keys(ENV_VARIABLES) as ConfigKey[]).forEach(key => {
+    const value = env[ENV_VARIABLES[key]];
+    if (value !== undefined && value !== '') {
+      values[key] = value;
+    }
+  });
+  return values;
+};
+
+export interface ResolvedConfig {
+  config: AppConfig;
+  issues: ConfigIssue[];
+}
+
+// Applies the layers over the defaults, later layers winning. Every layer is
+// validated; invalid values are left out and reported.
+export const resolveConfig = (layers: ConfigLayer[]): ResolvedConfig => {
+  let config: AppConfig = DEFAULT_CONFIG;
+  const issues: ConfigIssue[] = [];
+  layers.forEach(layer => {
+    const validated = validateValues(layer.values, layer.source);
+    config = { ...config, ...validated.values };
+    issues.push(...validated.issues);
+  });
+  return { config, issues };
+};
+
+// The configuration the app was built with, before config.json and the
+// user's own settings are applied
+export const buildConfig = (env: NodeJS.ProcessEnv = process.env): ResolvedConfig =>
+  resolveConfig([{ source: 'environment', values: readEnvironment(env) }]);
+
+// The API key to send to another server, such as a speech or transcription
+// one: only the chat server's own, when that server is the chat server
+export const apiKeyFor = (
+  baseUrl: string | null,
+  config: Pick<AppConfig, 'chatBaseUrl'> & Partial<Pick<AppConfig, 'apiKey'>>
+): string | null => (baseUrl && baseUrl !== config.chatBaseUrl ? null : config.apiKey ?? null);
+
+// Only the values that differ from `base`, so settings the user never
+// touched keep following the deployment
+export const diffConfig = (base: AppConfig, values: ConfigValues): ConfigValues =>
+  Object.fromEntries(
+    Object.entries(values).filter(([key, value]) => base[key as ConfigKey] !== value)
+  ) as ConfigValues;
+
+// One line for the error screen, naming the setting the way its source does
+export const formatConfigIssue = ({ source, key, message }: ConfigIssue): string => {
+  switch (source) {
+    case 'environment':
+      return `${ENV_VARIABLES[key as ConfigKey] ?? key} ${message}`;
+    case 'config.json':
+      return key ? `config.json: "${key}" ${message}` : `config.json ${message}`;
+    case 'settings':
+      return key ? `Your saved setting "${key}" ${message}` : `Your saved settings ${message}`;
+  }
+  return message;
+};
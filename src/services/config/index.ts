@@ -0,0 +1,4 @@
+export * from './config';
+export * from './runtime';
+export * from './types';
+export * from './validate';
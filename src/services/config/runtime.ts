@@ -0,0 +1,38 @@
+// Where the runtime configuration is served from; replace public/config.json
+// (or mount over it) to point one build at another server
+export const RUNTIME_CONFIG_URL = `${process.env.PUBLIC_URL ?? ''}/config.json`;
+
+export type RuntimeConfig =
+  | { status: 'absent' }
+  | { status: 'loaded'; values: unknown }
+  | { status: 'failed'; message: string };
+
+// Fetches config.json. A missing file is fine: the build-time configuration
+// then applies on its own.
+export const loadRuntimeConfig = async (url: string = RUNTIME_CONFIG_URL): Promise<RuntimeConfig> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { cache: 'no-store' });
+  } catch (error) {
+    console.error('Error loading runtime configuration:', error);
+    return { status: 'failed', message: 'could not be loaded' };
+  }
+
+  if (response.status === 404) {
+    return { status: 'absent' };
+  }
+  if (!response.ok) {
+    return { status: 'failed', message: `could not be loaded (status ${response.status})` };
+  }
+
+  const text = await response.text();
+  // Development servers answer unknown paths with the app's index.html
+  if (!text.trim() || text.trimStart().startsWith('<')) {
+    return { status: 'absent' };
+  }
+  try {
+    return { status: 'loaded', values: JSON.parse(text) };
+  } catch (error) {
+    return { status: 'failed', message: 'is not valid JSON' };
+  }
+};
@@ -0,0 +1,62 @@
+import { ChatBackendKind } from '../chat/types';
+import { RecognitionEngineChoice } from '../recognition/types';
+import { SpeechEngineKind } from '../speech/types';
+
+export interface AppConfig {
+  chatBackend: ChatBackendKind;
+  chatBaseUrl: string;
+  // Sent as a bearer token with every chat request; null sends none
+  apiKey: string | null;
+  defaultModel: string;
+  // Language and voice used until the user picks their own; null picks from
+  // the browser
+  defaultLanguage: string | null;
+  defaultVoice: string | null;
+  // How long the chat or speech server may stay silent before a request
+  // fails, in ms
+  requestTimeout: number;
+  // Automatic retries after network errors, timeouts and 5xx/429 responses
+  maxRetries: number;
+  // Delay before the first retry in ms; doubles with every retry
+  retryDelay: number;
+  // How much history is sent with each request; 0 means no limit. The
+  // oldest turns are dropped first.
+  contextMaxTokens: number;
+  contextMaxCharacters: number;
+  // How speech is turned into text: the browser's own recognition, or a
+  // Whisper-compatible transcription server
+  recognitionEngine: RecognitionEngineChoice;
+  // Server with an OpenAI-compatible /v1/audio/transcriptions endpoint; null
+  // uses the chat server
+  transcriptionBaseUrl: string | null;
+  transcriptionModel: string;
+  // How replies are spoken: the browser's own voices, or audio from an
+  // OpenAI-compatible /v1/audio/speech endpoint
+  speechEngine: SpeechEngineKind;
+  // Server for the http engine; null uses the chat server
+  speechBaseUrl: string | null;
+  speechModel: string;
+  // Comma-separated voices the server offers; the first is the default
+  speechVoices: string;
+}
+
+export type ConfigKey = keyof AppConfig;
+
+// Part of the configuration set by one layer
+export type ConfigValues = Partial<AppConfig>;
+
+// Where a layer comes from, in the order layers are applied
+export type ConfigSource = 'environment' | 'config.json' | 'settings';
+
+export interface ConfigLayer {
+  source: ConfigSource;
+  // As read, before validation
+  values: unknown;
+}
+
+export interface ConfigIssue {
+  source: ConfigSource;
+  // The setting at fault; empty when the whole layer is
+  key: string;
+  message: string;
+}
@@ -0,0 +1,127 @@
+import { SUPPORTED_LANGUAGES } from '../../utils/languages';
+import { ChatBackendKind } from '../chat/types';
+import { RecognitionEngineChoice } from '../recognition/types';
+import { SpeechEngineKind } from '../speech/types';
+import { AppConfig, ConfigIssue, ConfigKey, ConfigSource, ConfigValues } from './types';
+
+type Parsed<T> = { value: T } | { error: string };
+
+type FieldParser<T> = (value: unknown) => Parsed<T>;
+
+const BACKEND_KINDS: ChatBackendKind[] = ['ollama', 'openai', 'legacy'];
+
+const backendKind: FieldParser<ChatBackendKind> = value =>
+  typeof value === 'string' && (BACKEND_KINDS as string[]).includes(value)
+    ? { value: value as ChatBackendKind }
+    : { error: `must be one of ${BACKEND_KINDS.join(', ')}` };
+
+const RECOGNITION_ENGINES: RecognitionEngineChoice[] = ['auto', 'web-speech', 'whisper'];
+
+const recognitionEngine: FieldParser<RecognitionEngineChoice> = value =>
+  typeof value === 'string' && (RECOGNITION_ENGINES as string[]).includes(value)
+    ? { value: value as RecognitionEngineChoice }
+    : { error: `must be one of ${RECOGNITION_ENGINES.join(', ')}` };
+
+const SPEECH_ENGINES: SpeechEngineKind[] = ['browser', 'http'];
+
+const speechEngine: FieldParser<SpeechEngineKind> = value =>
+  typeof value === 'string' && (SPEECH_ENGINES as string[]).includes(value)
+    ? { value: value as SpeechEngineKind }
+    : { error: `must be one of ${SPEECH_ENGINES.join(', ')}` };
+
+const httpUrl: FieldParser<string> = value => {
+  if (typeof value === 'string') {
+    try {
+      const url = new URL(value.trim());
+      if (url.protocol === 'http:' || url.protocol === 'https:') {
+        return { value: value.trim().replace(/\/+$/, '') };
+      }
+    } catch {
+      // Reported below
+    }
+  }
+  return { error: 'must be an http:// or https:// URL' };
+};
+
+const text: FieldParser<string> = value =>
+  typeof value === 'string' && value.trim() ? { value: value.trim() } : { error: 'must not be empty' };
+
+// Empty strings and null both mean "not set"
+const optional = <T>(parse: FieldParser<T>): FieldParser<T | null> => value =>
+  value === null || (typeof value === 'string' && !value.trim()) ? { value: null } : parse(value);
+
+// A comma-separated list, tidied to "a, b, c"
+const names: FieldParser<string> = value => {
+  const list = typeof value === 'string' ? value.split(',').map(name => name.trim()).filter(Boolean) : [];
+  return list.length > 0 ? { value: list.join(', ') } : { error: 'must list at least one name' };
+};
+
+const count: FieldParser<number> = value => {
+  const parsed = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isInteger(parsed) && parsed >= 0
+    ? { value: parsed }
+    : { error: 'must be a whole number, 0 or more' };
+};
+
+const language: FieldParser<string> = value => {
+  const match = typeof value === 'string'
+    ? SUPPORTED_LANGUAGES.find(option => option.code.toLowerCase() === value.trim().toLowerCase())
+    : undefined;
+  return match
+    ? { value: match.code }
+    : { error: `must be one of ${SUPPORTED_LANGUAGES.map(option => option.code).join(', ')}` };
+};
+
+const FIELDS: { [K in ConfigKey]: FieldParser<AppConfig[K]> } = {
+  chatBackend: backendKind,
+  chatBaseUrl: httpUrl,
+  apiKey: optional(text),
+  defaultModel: text,
+  defaultLanguage: optional(language),
+  defaultVoice: optional(text),
+  requestTimeout: count,
+  maxRetries: count,
+  retryDelay: count,
+  contextMaxTokens: count,
+  contextMaxCharacters: count,
+  recognitionEngine,
+  transcriptionBaseUrl: optional(httpUrl),
+  transcriptionModel: text,
+  speechEngine,
+  speechBaseUrl: optional(httpUrl),
+  speechModel: text,
+  speechVoices: names,
+};
+
+export const CONFIG_KEYS = Object.keys(FIELDS) as ConfigKey[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Checks one layer's values, keeping the valid ones. Unknown keys are
+// reported too: a misspelt setting would otherwise be silently ignored.
+export const validateValues = (values: unknown, source: ConfigSource): { values: ConfigValues; issues: ConfigIssue[] } => {
+  if (!isRecord(values)) {
+    return { values: {}, issues: [{ source, key: '', message: 'must be an object of settings' }] };
+  }
+
+  const valid: Record<string, unknown> = {};
+  const issues: ConfigIssue[] = [];
+  Object.entries(values).forEach(([key, value]) => {
+    if (value === undefined) return;
+    const parse = Object.prototype.hasOwnProperty.call(FIELDS, key)
+      ? FIELDS[key as ConfigKey] as FieldParser<unknown>
+      : undefined;
+    if (!parse) {
+      issues.push({ source, key, message: 'is not a known setting' });
+      return;
+    }
+    const parsed = parse(value);
+    if ('error' in parsed) {
+      issues.push({ source, key, message: parsed.error });
+    } else {
+      valid[key] = parsed.value;
+    }
+  });
+  return { values: valid as ConfigValues, issues };
+};
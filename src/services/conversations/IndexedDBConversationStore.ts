@@ -0,0 +1,49 @@
+import { migrateConversations, toStoredConversation } from './schema';
+import { Conversation, ConversationStore } from './types';
+
+export const DATABASE_NAME = 'voice-chat';
+// Version of the database layout (object stores and indexes), not of the
+// records in it; see SCHEMA_VERSION for those
+const DATABASE_VERSION = 1;
+const CONVERSATIONS = 'conversations';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openDatabase = (factory: IDBFactory = window.indexedDB): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = factory.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CONVERSATIONS)) {
+        db.createObjectStore(CONVERSATIONS, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('The conversation database is open in an older tab'));
+  });
+
+export class IndexedDBConversationStore implements ConversationStore {
+  constructor(private db: IDBDatabase) {}
+
+  async list(): Promise<Conversation[]> {
+    const records = await promisify(this.objectStore('readonly').getAll());
+    return migrateConversations(records);
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    await promisify(this.objectStore('readwrite').put(toStoredConversation(conversation)));
+  }
+
+  async delete(id: string): Promise<void> {
+    await promisify(this.objectStore('readwrite').delete(id));
+  }
+
+  private objectStore(mode: IDBTransactionMode): IDBObjectStore {
+    return this.db.transaction(CONVERSATIONS, mode).objectStore(CONVERSATIONS);
+  }
+}
@@ -0,0 +1,40 @@
+import { migrateConversations, StoredConversation, toStoredConversation } from './schema';
+import { Conversation, ConversationStore } from './types';
+
+export const LOCAL_STORAGE_KEY = 'voice-chat:conversations';
+
+// Fallback for browsers without IndexedDB (or with it disabled, as in some
+// private windows). Every conversation lives under one key.
+export class LocalStorageConversationStore implements ConversationStore {
+  constructor(private storage: Storage = window.localStorage, private key = LOCAL_STORAGE_KEY) {}
+
+  async list(): Promise<Conversation[]> {
+    return migrateConversations(this.readRecords());
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    const records = this.readRecords().filter(record => record?.id !== conversation.id);
+    this.writeRecords([...records, toStoredConversation(conversation)]);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.writeRecords(this.readRecords().filter(record => record?.id !== id));
+  }
+
+  // Records are kept as stored, so ones this version cannot read survive a save
+  private readRecords(): StoredConversation[] {
+    const raw = this.storage.getItem(this.key);
+    if (!raw) return [];
+    try {
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.warn('Ignoring unreadable stored conversations:', error);
+      return [];
+    }
+  }
+
+  private writeRecords(records: StoredConversation[]) {
+    this.storage.setItem(this.key, JSON.stringify(records));
+  }
+}
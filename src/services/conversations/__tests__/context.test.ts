@@ -0,0 +1,185 @@
+import { buildContext, estimateTokens, toChatTurns } from '../context';
+import { createMessage } from '../conversation';
+import { Message } from '../types';
+
+const user = (content: string, fields: Partial<Message> = {}) => createMessage('user', content, fields);
+const assistant = (content: string, fields: Partial<Message> = {}) => createMessage('assistant', content, fields);
+const system = (content: string) => createMessage('system', content);
+
+// Ten characters of content each: 4 + 3 = 7 estimated tokens per turn
+const tenChars = (label: string) => label.padEnd(10, '.');
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token plus a per-turn overhead', () => {
+    expect(estimateTokens({ role: 'user', content: '' })).toBe(4);
+    expect(estimateTokens({ role: 'user', content: 'abcd' })).toBe(5);
+    expect(estimateTokens({ role: 'user', content: 'abcde' })).toBe(6);
+  });
+});
+
+describe('toChatTurns', () => {
+  it('keeps finished messages, oldest first', () => {
+    expect(toChatTurns([user('Hi'), assistant('Hello'), user('How are you?')])).toEqual([
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello' },
+      { role: 'user', content: 'How are you?' },
+    ]);
+  });
+
+  it('leaves out replies that are unfinished, failed or empty', () => {
+    const turns = toChatTurns([
+      user('One'),
+      assistant('', { status: 'pending' }),
+      assistant('Half a', { status: 'streaming' }),
+      assistant('Cut off', { status: 'error', errorKind: 'cancelled' }),
+      assistant('   '),
+      user('Two'),
+    ]);
+
+    expect(turns).toEqual([
+      { role: 'user', content: 'One' },
+      { role: 'user', content: 'Two' },
+    ]);
+  });
+
+  it('sends only role and content', () => {
+    expect(toChatTurns([user('Hi', { source: 'voice', confidence: 0.9 })])).toEqual([{ role: 'user', content: 'Hi' }]);
+  });
+});
+
+describe('buildContext', () => {
+  it('ends with the new user turn after the history in order', () => {
+    expect(buildContext([user('First'), assistant('Reply one')], 'Second')).toEqual([
+      { role: 'user', content: 'First' },
+      { role: 'assistant', content: 'Reply one' },
+      { role: 'user', content: 'Second' },
+    ]);
+  });
+
+  it('sends just the new turn for a new conversation', () => {
+    expect(buildContext([], 'Hello')).toEqual([{ role: 'user', content: 'Hello' }]);
+  });
+
+  it('sends everything without a budget or with a zero budget', () => {
+    const history = Array.from({ length: 50 }, (_, i) => (i % 2 === 0 ? user(`Q${i}`) : assistant(`A${i}`)));
+
+    expect(buildContext(history, 'Last')).toHaveLength(51);
+    expect(buildContext(history, 'Last', { maxTokens: 0, maxCharacters: 0 })).toHaveLength(51);
+  });
+
+  it('drops the oldest exchanges to fit a token budget', () => {
+    const history = [user(tenChars('q1')), assistant(tenChars('a1')), user(tenChars('q2')), assistant(tenChars('a2'))];
+
+    // Room for three turns of 7 tokens: the last exchange and the new turn
+    expect(buildContext(history, tenChars('q3'), { maxTokens: 21 })).toEqual([
+      { role: 'user', content: tenChars('q2') },
+      { role: 'assistant', content: tenChars('a2') },
+      { role: 'user', content: tenChars('q3') },
+    ]);
+    // One token short: the whole exchange goes rather than leaving a reply
+    // without its question
+    expect(buildContext(history, tenChars('q3'), { maxTokens: 20 })).toEqual([
+      { role: 'user', content: tenChars('q3') },
+    ]);
+  });
+
+  it('drops the oldest exchanges to fit a character budget', () => {
+    const history = [user(tenChars('q1')), assistant(tenChars('a1')), user(tenChars('q2')), assistant(tenChars('a2'))];
+
+    expect(buildContext(history, tenChars('q3'), { maxCharacters: 40 }).map(turn => turn.content)).toEqual([
+      tenChars('q2'),
+      tenChars('a2'),
+      tenChars('q3'),
+    ]);
+    expect(buildContext(history, tenChars('q3'), { maxCharacters: 50 })).toHaveLength(5);
+  });
+
+  it('applies whichever budget is tighter', () => {
+    const history = [user(tenChars('q1')), assistant(tenChars('a1'))];
+
+    expect(buildContext(history, tenChars('q2'), { maxTokens: 1000, maxCharacters: 10 })).toHaveLength(1);
+    expect(buildContext(history, tenChars('q2'), { maxTokens: 7, maxCharacters: 1000 })).toHaveLength(1);
+    expect(buildContext(history, tenChars('q2'), { maxTokens: 1000, maxCharacters: 1000 })).toHaveLength(3);
+  });
+
+  it('keeps the new turn even when it alone is over budget', () => {
+    const long = 'x'.repeat(500);
+
+    expect(buildContext([user('Earlier'), assistant('Reply')], long, { maxTokens: 10, maxCharacters: 10 })).toEqual([
+      { role: 'user', content: long },
+    ]);
+  });
+
+  it('keeps system turns first and never trims them', () => {
+    const history = [
+      system(tenChars('persona')),
+      user(tenChars('q1')),
+      assistant(tenChars('a1')),
+      user(tenChars('q2')),
+      assistant(tenChars('a2')),
+    ];
+
+    expect(buildContext(history, tenChars('q3'), { maxTokens: 28 })).toEqual([
+      { role: 'system', content: tenChars('persona') },
+      { role: 'user', content: tenChars('q2') },
+      { role: 'assistant', content: tenChars('a2') },
+      { role: 'user', content: tenChars('q3') },
+    ]);
+    expect(buildContext(history, tenChars('q3'), { maxTokens: 1 })).toEqual([
+      { role: 'system', content: tenChars('persona') },
+      { role: 'user', content: tenChars('q3') },
+    ]);
+  });
+
+  it('starts with the system prompt and counts it against the budget', () => {
+    const history = [user(tenChars('q1')), assistant(tenChars('a1'))];
+
+    expect(buildContext(history, tenChars('q2'), { systemPrompt: ' Be a tutor ' })[0]).toEqual({
+      role: 'system',
+      content: 'Be a tutor',
+    });
+    expect(buildContext(history, tenChars('q2'), { systemPrompt: tenChars('prompt'), maxTokens: 21 })).toEqual([
+      { role: 'system', content: tenChars('prompt') },
+      { role: 'user', content: tenChars('q2') },
+    ]);
+    expect(buildContext(history, 'Next', { systemPrompt: '  ' })[0].role).toBe('user');
+  });
+
+  it('moves system turns from later in the conversation to the front', () => {
+    expect(buildContext([user('Hi'), system('Be brief'), assistant('Hello')], 'Next').map(turn => turn.role)).toEqual([
+      'system',
+      'user',
+      'assistant',
+      'user',
+    ]);
+  });
+
+  it('does not leave a reply at the start once its question is trimmed', () => {
+    const history = [assistant('Welcome!'), user('Hi'), assistant('Hello')];
+
+    // An opening greeting is kept while nothing is trimmed
+    expect(buildContext(history, 'Next')[0]).toEqual({ role: 'assistant', content: 'Welcome!' });
+    expect(buildContext(history, 'Next', { maxTokens: 1000 })[0].role).toBe('assistant');
+    expect(buildContext(history, tenChars('Next'), { maxCharacters: 16 })).toEqual([
+      { role: 'user', content: tenChars('Next') },
+    ]);
+  });
+
+  it('keeps consecutive user turns left by a failed reply', () => {
+    const history = [user('Lost question'), assistant('', { status: 'error' })];
+
+    expect(buildContext(history, 'Again')).toEqual([
+      { role: 'user', content: 'Lost question' },
+      { role: 'user', content: 'Again' },
+    ]);
+  });
+
+  it('does not change the history it is given', () => {
+    const history = [user(tenChars('q1')), assistant(tenChars('a1'))];
+    const copy = history.map(message => ({ ...message }));
+
+    buildContext(history, 'Next', { maxTokens: 8 });
+
+    expect(history).toEqual(copy);
+  });
+});
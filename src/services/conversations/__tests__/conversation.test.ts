@@ -0,0 +1,59 @@
+import {
+  conversationTitle,
+  createConversation,
+  createMessage,
+  DEFAULT_CONVERSATION_TITLE,
+  isEmptyConversation
+} from '../conversation';
+
+const withMessages = (...texts: [string, boolean][]) => ({
+  ...createConversation(),
+  messages: texts.map(([text, isUser]) => createMessage(isUser ? 'user' : 'assistant', text)),
+});
+
+describe('createMessage', () => {
+  it('creates a finished message with a unique id', () => {
+    const message = createMessage('user', 'Hello', { source: 'typed' });
+
+    expect(message).toMatchObject({ role: 'user', content: 'Hello', status: 'done', source: 'typed' });
+    expect(message.timestamp).toEqual(expect.any(Number));
+    expect(message.id).not.toBe(createMessage('user', 'Hello').id);
+  });
+});
+
+describe('createConversation', () => {
+  it('starts an empty, unnamed conversation', () => {
+    const conversation = createConversation(1000);
+
+    expect(conversation).toMatchObject({ title: null, messages: [], createdAt: 1000, updatedAt: 1000 });
+    expect(conversation.id).not.toBe(createConversation(1000).id);
+    expect(isEmptyConversation(conversation)).toBe(true);
+  });
+});
+
+describe('conversationTitle', () => {
+  it('uses the first thing the user said', () => {
+    expect(conversationTitle(withMessages(['Hi there', false], ['What is the weather?', true], ['Later', true]))).toBe(
+      'What is the weather?'
+    );
+  });
+
+  it('uses only the first line', () => {
+    expect(conversationTitle(withMessages(['Fix this code:\nconst a = 1', true]))).toBe('Fix this code:');
+  });
+
+  it('shortens long messages at a word boundary', () => {
+    expect(conversationTitle(withMessages(['Can you explain how photosynthesis works in desert plants please', true]))).toBe(
+      'Can you explain how photosynthesis works…'
+    );
+  });
+
+  it('prefers a title the user chose', () => {
+    expect(conversationTitle({ ...withMessages(['Hello', true]), title: ' Trip planning ' })).toBe('Trip planning');
+  });
+
+  it('falls back to a default', () => {
+    expect(conversationTitle(createConversation())).toBe(DEFAULT_CONVERSATION_TITLE);
+    expect(conversationTitle({ ...createConversation(), title: '  ' })).toBe(DEFAULT_CONVERSATION_TITLE);
+  });
+});
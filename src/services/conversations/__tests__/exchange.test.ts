@@ -0,0 +1,148 @@
+import {
+  ConversationImportError,
+  exportFileName,
+  parseConversationExport,
+  toExportJson,
+  toMarkdown,
+  toTranscript
+} from '../exchange';
+import { SCHEMA_VERSION } from '../schema';
+import { Conversation } from '../types';
+
+const at = (hours: number, minutes: number, seconds = 0) => new Date(2024, 0, 2, hours, minutes, seconds).getTime();
+
+const conversation: Conversation = {
+  id: 'c1',
+  title: 'Trip to Lisbon',
+  messages: [
+    { id: 'm1', role: 'user', content: 'Where should I eat?', timestamp: at(9, 5, 7), status: 'done', source: 'voice', confidence: 0.92 },
+    { id: 'm2', role: 'assistant', content: 'Try **Time Out Market**.\nIt is central.', timestamp: at(9, 5, 9), status: 'done', model: 'llama3.2' },
+    { id: 'm3', role: 'user', content: 'And tomorrow?', timestamp: at(9, 6), status: 'done', source: 'voice', audio: { dataUrl: 'data:audio/webm;base64,GkXfow==', mimeType: 'audio/webm', duration: 1200 } },
+    { id: 'm4', role: 'assistant', content: '', timestamp: at(9, 6, 1), status: 'error', error: 'Could not reach the chat server', errorKind: 'network' },
+  ],
+  personaId: 'tutor',
+  parameters: { temperature: 0.3 },
+  createdAt: at(9, 5),
+  updatedAt: at(9, 6, 1),
+};
+
+const failure = (run: () => unknown): ConversationImportError => {
+  try {
+    run();
+  } catch (error) {
+    return error as ConversationImportError;
+  }
+  throw new Error('Expected the import to fail');
+};
+
+describe('conversation export', () => {
+  it('writes Markdown with who said what and when', () => {
+    expect(toMarkdown(conversation)).toBe([
+      '# Trip to Lisbon',
+      '',
+      'Started 2024-01-02 09:05:00',
+      '',
+      '**You (voice, 92%)** · 2024-01-02 09:05:07',
+      '',
+      'Where should I eat?',
+      '',
+      '**Assistant (llama3.2)** · 2024-01-02 09:05:09',
+      '',
+      'Try **Time Out Market**.\nIt is central.',
+      '',
+      '**You (voice)** · 2024-01-02 09:06:00',
+      '',
+      'And tomorrow?',
+      '',
+      '**Assistant** · 2024-01-02 09:06:01',
+      '',
+      '(Failed: Could not reach the chat server)',
+      '',
+    ].join('\n'));
+  });
+
+  it('writes a plain-text transcript with a timestamp per message', () => {
+    expect(toTranscript(conversation)).toBe([
+      'Trip to Lisbon',
+      '',
+      '[2024-01-02 09:05:07] You (voice, 92%): Where should I eat?',
+      '[2024-01-02 09:05:09] Assistant (llama3.2): Try **Time Out Market**.',
+      '                                            It is central.',
+      '[2024-01-02 09:06:00] You (voice): And tomorrow?',
+      '[2024-01-02 09:06:01] Assistant: (Failed: Could not reach the chat server)',
+      '',
+    ].join('\n'));
+  });
+
+  it('names files after the conversation', () => {
+    expect(exportFileName(conversation, 'markdown')).toBe('trip-to-lisbon-2024-01-02.md');
+    expect(exportFileName({ ...conversation, title: 'Café ☕ ideas' }, 'json')).toBe('cafe-ideas-2024-01-02.json');
+    expect(exportFileName({ ...conversation, title: '???' }, 'transcript')).toBe('conversation-2024-01-02.txt');
+  });
+
+  it('writes JSON with the schema version', () => {
+    const exported = JSON.parse(toExportJson(conversation, Date.UTC(2024, 0, 3)));
+
+    expect(exported).toEqual({
+      format: 'voice-chat-conversation',
+      exportedAt: '2024-01-03T00:00:00.000Z',
+      conversation: { ...conversation, schemaVersion: SCHEMA_VERSION },
+    });
+  });
+});
+
+describe('conversation import', () => {
+  it('reads an export back as a new conversation', () => {
+    const imported = parseConversationExport(toExportJson(conversation), 1000);
+
+    expect(imported.id).not.toBe(conversation.id);
+    expect(imported.updatedAt).toBe(1000);
+    expect(imported.messages.map(message => message.id)).not.toContain('m1');
+    expect({ ...imported, id: 'c1', updatedAt: conversation.updatedAt, messages: imported.messages.map((message, index) => ({ ...message, id: conversation.messages[index].id })) })
+      .toEqual(conversation);
+  });
+
+  it('marks replies that were still streaming as cut off', () => {
+    const streaming = { ...conversation, messages: [{ ...conversation.messages[1], status: 'streaming' as const }] };
+
+    expect(parseConversationExport(toExportJson(streaming)).messages[0]).toMatchObject({
+      content: 'Try **Time Out Market**.\nIt is central.',
+      status: 'error',
+      error: 'The reply was cut off before it finished',
+    });
+  });
+
+  it('upgrades conversations exported by older versions', () => {
+    const file = JSON.stringify({
+      format: 'voice-chat-conversation',
+      conversation: { id: 'old', title: null, messages: [{ text: 'Hello', isUser: true }], createdAt: 1, updatedAt: 2, schemaVersion: 1 },
+    });
+
+    expect(parseConversationExport(file).messages).toEqual([
+      expect.objectContaining({ role: 'user', content: 'Hello', status: 'done', timestamp: 1 }),
+    ]);
+  });
+
+  it('rejects files that are not valid exports', () => {
+    const exportWith = (changes: object) => JSON.stringify({
+      format: 'voice-chat-conversation',
+      conversation: { ...conversation, schemaVersion: SCHEMA_VERSION, ...changes },
+    });
+
+    expect(failure(() => parseConversationExport('{ "format": '))).toBeInstanceOf(ConversationImportError);
+    expect(failure(() => parseConversationExport('{ "format": ')).message).toBe('The file is not valid JSON');
+    expect(failure(() => parseConversationExport('[]')).message).toBe('The file is not a conversation exported from this app');
+    expect(failure(() => parseConversationExport(exportWith({ schemaVersion: SCHEMA_VERSION + 1 }))).message)
+      .toBe('The conversation was exported from a newer version of the app');
+    expect(failure(() => parseConversationExport(exportWith({ messages: 'none' }))).message)
+      .toBe('The conversation has no messages');
+    expect(failure(() => parseConversationExport(exportWith({ messages: [conversation.messages[0], { ...conversation.messages[1], role: 'robot' }] }))).message)
+      .toBe('Message 2 has an unknown role "robot"');
+    expect(failure(() => parseConversationExport(exportWith({ messages: [{ ...conversation.messages[0], timestamp: 'yesterday' }] }))).message)
+      .toBe('Message 1 has no valid timestamp');
+    expect(failure(() => parseConversationExport(exportWith({ messages: [{ ...conversation.messages[2], audio: { ...conversation.messages[2].audio, dataUrl: 'https://example.com/a.webm' } }] }))).message)
+      .toBe('Message 1 has an invalid recording');
+    expect(failure(() => parseConversationExport(exportWith({ parameters: { temperature: 5 } }))).message)
+      .toBe('The conversation has invalid model parameters');
+  });
+});
@@ -0,0 +1,118 @@
+import { migrateConversation, migrateConversations, SCHEMA_VERSION, toStoredConversation } from '../schema';
+
+const conversation = {
+  id: 'c1',
+  title: null,
+  messages: [{ id: 'm1', role: 'user' as const, content: 'Hello', timestamp: 1, status: 'done' as const }],
+  createdAt: 1,
+  updatedAt: 2,
+};
+
+const versionOne = {
+  id: 'c1',
+  title: null,
+  messages: [
+    { text: 'Hello', isUser: true, confidence: 0.9 },
+    { text: 'Hi there', isUser: false },
+    { text: 'Typed', isUser: true },
+    { text: 'Sorry, there was an error processing your request.', isUser: false },
+  ],
+  createdAt: 1,
+  updatedAt: 2,
+};
+
+describe('conversation schema', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('stamps stored records with the current schema version', () => {
+    expect(toStoredConversation(conversation)).toEqual({ ...conversation, schemaVersion: SCHEMA_VERSION });
+  });
+
+  it('reads current records back unchanged', () => {
+    expect(migrateConversation(toStoredConversation(conversation))).toEqual(conversation);
+  });
+
+  it('treats records without a version as version 1', () => {
+    expect(migrateConversation(versionOne)?.messages.map(message => message.content)).toEqual(['Hello', 'Hi there', 'Typed', '']);
+  });
+
+  it('upgrades version 1 messages to full message records', () => {
+    const migrated = migrateConversation({ ...versionOne, schemaVersion: 1 });
+
+    expect(migrated?.messages).toEqual([
+      { id: expect.any(String), role: 'user', content: 'Hello', timestamp: 1, status: 'done', confidence: 0.9, source: 'voice' },
+      { id: expect.any(String), role: 'assistant', content: 'Hi there', timestamp: 1, status: 'done' },
+      { id: expect.any(String), role: 'user', content: 'Typed', timestamp: 1, status: 'done' },
+      { id: expect.any(String), role: 'assistant', content: '', timestamp: 1, status: 'error' },
+    ]);
+    expect(new Set(migrated?.messages.map(message => message.id)).size).toBe(4);
+  });
+
+  it('runs each migration in turn up to the current version', () => {
+    const migrations = {
+      [SCHEMA_VERSION - 1]: jest.fn((record: Record<string, unknown>) => ({ ...record, title: 'Migrated' })),
+    };
+
+    expect(migrateConversation({ ...conversation, schemaVersion: SCHEMA_VERSION - 1 }, migrations)).toEqual({
+      ...conversation,
+      title: 'Migrated',
+    });
+    expect(migrations[SCHEMA_VERSION - 1]).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips records it has no migration for', () => {
+    expect(migrateConversation({ ...conversation, schemaVersion: SCHEMA_VERSION - 1 }, {})).toBeNull();
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it('skips records written by a newer version', () => {
+    expect(migrateConversation({ ...conversation, schemaVersion: SCHEMA_VERSION + 1 })).toBeNull();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('newer schema version'));
+  });
+
+  it('skips records that are not conversations', () => {
+    expect(migrateConversation(null)).toBeNull();
+    expect(migrateConversation('text')).toBeNull();
+    expect(migrateConversation({ title: 'No id' })).toBeNull();
+  });
+
+  it('skips records that do not match the schema', () => {
+    expect(migrateConversation({ ...conversation, title: 42, schemaVersion: SCHEMA_VERSION })).toBeNull();
+    expect(migrateConversation({ ...conversation, updatedAt: 'yesterday', schemaVersion: SCHEMA_VERSION })).toBeNull();
+    expect(console.warn).toHaveBeenCalledWith('Skipping conversation c1: The conversation title is not text');
+  });
+
+  it('drops messages that cannot be shown and keeps the rest', () => {
+    const damaged = {
+      ...conversation,
+      messages: [...conversation.messages, { id: 'm2', role: 'robot', content: 'Beep', timestamp: 1, status: 'done' }, { id: 'm3', content: 7 }],
+      schemaVersion: SCHEMA_VERSION,
+    };
+
+    expect(migrateConversation(damaged)).toEqual(conversation);
+    expect(console.warn).toHaveBeenCalledWith('Dropping a message of conversation c1 that has an unknown role "robot"');
+  });
+
+  it('marks replies that never finished as cut off when loading', () => {
+    const interrupted = {
+      ...conversation,
+      messages: [
+        ...conversation.messages,
+        { id: 'm2', role: 'assistant' as const, content: 'Half a', timestamp: 2, status: 'streaming' as const },
+        { id: 'm3', role: 'assistant' as const, content: '', timestamp: 3, status: 'pending' as const },
+      ],
+    };
+
+    expect(migrateConversations([toStoredConversation(interrupted)])[0].messages).toEqual([
+      conversation.messages[0],
+      { ...interrupted.messages[1], status: 'error', error: 'The reply was cut off before it finished' },
+      { ...interrupted.messages[2], status: 'error', error: 'The reply was cut off before it finished' },
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+import { asIDBFactory, createFakeIndexedDB } from '../../../test-utils/fakeIndexedDB';
+import { IndexedDBConversationStore, openDatabase } from '../IndexedDBConversationStore';
+import { LOCAL_STORAGE_KEY, LocalStorageConversationStore } from '../LocalStorageConversationStore';
+import { SCHEMA_VERSION } from '../schema';
+import { ConversationStore, openConversationStore } from '..';
+
+const conversation = (id: string, updatedAt: number) => ({
+  id,
+  title: null,
+  messages: [{ id: `${id}-1`, role: 'user' as const, content: `Message in ${id}`, timestamp: 0, status: 'done' as const }],
+  createdAt: 0,
+  updatedAt,
+});
+
+const STORES: [string, () => Promise<ConversationStore>][] = [
+  ['LocalStorageConversationStore', async () => new LocalStorageConversationStore()],
+  ['IndexedDBConversationStore', async () => new IndexedDBConversationStore(await openDatabase(asIDBFactory(createFakeIndexedDB())))],
+];
+
+describe('conversation stores', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe.each(STORES)('%s', (_name, createStore) => {
+    let store: ConversationStore;
+
+    beforeEach(async () => {
+      store = await createStore();
+    });
+
+    it('starts empty', async () => {
+      expect(await store.list()).toEqual([]);
+    });
+
+    it('saves, updates and lists conversations, most recent first', async () => {
+      await store.save(conversation('a', 1));
+      await store.save(conversation('b', 2));
+      await store.save({ ...conversation('a', 3), title: 'Renamed' });
+
+      expect(await store.list()).toEqual([{ ...conversation('a', 3), title: 'Renamed' }, conversation('b', 2)]);
+    });
+
+    it('deletes conversations', async () => {
+      await store.save(conversation('a', 1));
+      await store.save(conversation('b', 2));
+      await store.delete('a');
+
+      expect(await store.list()).toEqual([conversation('b', 2)]);
+    });
+  });
+
+  it('keeps records from a newer version of the app when saving', async () => {
+    const future = { ...conversation('future', 5), schemaVersion: SCHEMA_VERSION + 1 };
+    window.localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify([future]));
+    const store = new LocalStorageConversationStore();
+
+    await store.save(conversation('a', 1));
+
+    expect(await store.list()).toEqual([conversation('a', 1)]);
+    expect(JSON.parse(window.localStorage.getItem(LOCAL_STORAGE_KEY) || '[]')).toContainEqual(future);
+  });
+
+  it('ignores unreadable localStorage data', async () => {
+    window.localStorage.setItem(LOCAL_STORAGE_KEY, '{not json');
+
+    expect(await new LocalStorageConversationStore().list()).toEqual([]);
+  });
+
+  describe('openConversationStore', () => {
+    const originalIndexedDB = window.indexedDB;
+
+    afterEach(() => {
+      Object.defineProperty(window, 'indexedDB', { value: originalIndexedDB, configurable: true });
+    });
+
+    it('uses IndexedDB when available', async () => {
+      Object.defineProperty(window, 'indexedDB', { value: createFakeIndexedDB(), configurable: true });
+
+      expect(await openConversationStore()).toBeInstanceOf(IndexedDBConversationStore);
+    });
+
+    it('falls back to localStorage without IndexedDB', async () => {
+      Object.defineProperty(window, 'indexedDB', { value: undefined, configurable: true });
+
+      expect(await openConversationStore()).toBeInstanceOf(LocalStorageConversationStore);
+    });
+
+    it('falls back to localStorage when IndexedDB cannot be opened', async () => {
+      const failing = {
+        open: () => {
+          const request: { error: Error; onerror: (() => void) | null } = { error: new Error('denied'), onerror: null };
+          setTimeout(() => request.onerror?.());
+          return request;
+        },
+      };
+      Object.defineProperty(window, 'indexedDB', { value: failing, configurable: true });
+
+      expect(await openConversationStore()).toBeInstanceOf(LocalStorageConversationStore);
+      expect(console.warn).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { ChatTurn } from '../chat/types';
+import { Message } from './types';
+
+export interface ContextOptions extends ContextBudget {
+  // Persona instructions, sent first and never trimmed
+  systemPrompt?: string;
+}
+
+export interface ContextBudget {
+  // Estimated tokens for the whole request; 0 or missing means no limit
+  maxTokens?: number;
+  // Characters of message content for the whole request; 0 or missing means no limit
+  maxCharacters?: number;
+}
+
+// Role markers and separators each chat template wraps around a message
+const TOKENS_PER_TURN = 4;
+// A rough average for English text; close enough to stay under a model's window
+const CHARACTERS_PER_TOKEN = 4;
+
+export const estimateTokens = (turn: ChatTurn): number =>
+  TOKENS_PER_TURN + Math.ceil(turn.content.length / CHARACTERS_PER_TOKEN);
+
+// The finished messages of a conversation as chat turns, oldest first.
+// Pending, streaming and failed replies are left out.
+export const toChatTurns = (messages: Message[]): ChatTurn[] =>
+  messages
+    .filter(message => message.status === 'done' && message.content.trim() !== '')
+    .map(({ role, content }) => ({ role, content }));
+
+const fitsBudget = (turns: ChatTurn[], { maxTokens, maxCharacters }: ContextBudget): boolean => {
+  if (maxTokens && turns.reduce((total, turn) => total + estimateTokens(turn), 0) > maxTokens) {
+    return false;
+  }
+  if (maxCharacters && turns.reduce((total, turn) => total + turn.content.length, 0) > maxCharacters) {
+    return false;
+  }
+  return true;
+};
+
+// The turns to send when answering `text`: the system prompt and any system
+// turns in the history first, then as much
+// of the history as fits the budget, then the new user turn. The oldest
+// exchanges are dropped first; system turns and the new turn always stay,
+// even when they alone exceed the budget.
+export const buildContext = (history: Message[], text: string, options: ContextOptions = {}): ChatTurn[] => {
+  const { systemPrompt, ...budget } = options;
+  const turns = toChatTurns(history);
+  const system = turns.filter(turn => turn.role === 'system');
+  if (systemPrompt?.trim()) {
+    system.unshift({ role: 'system', content: systemPrompt.trim() });
+  }
+  const latest: ChatTurn = { role: 'user', content: text };
+  let conversation = turns.filter(turn => turn.role !== 'system');
+  let trimmed = false;
+
+  while (conversation.length > 0 && !fitsBudget([...system, ...conversation, latest], budget)) {
+    conversation = conversation.slice(1);
+    trimmed = true;
+  }
+  // A reply makes little sense without the question it answered
+  while (trimmed && conversation.length > 0 && conversation[0].role === 'assistant') {
+    conversation = conversation.slice(1);
+  }
+
+  return [...system, ...conversation, latest];
+};
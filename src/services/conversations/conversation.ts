@@ -0,0 +1,52 @@
+import { createId } from '../../utils/ids';
+import { ChatRole } from '../chat/types';
+import { Conversation, Message } from './types';
+
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+
+export const CUT_OFF_ERROR = 'The reply was cut off before it finished';
+
+const MAX_TITLE_LENGTH = 40;
+
+export const createConversation = (now = Date.now()): Conversation => ({
+  id: createId(),
+  title: null,
+  messages: [],
+  createdAt: now,
+  updatedAt: now,
+});
+
+export const createMessage = (role: ChatRole, content: string, fields: Partial<Message> = {}): Message => ({
+  id: createId(),
+  role,
+  content,
+  timestamp: Date.now(),
+  status: 'done',
+  ...fields,
+});
+
+// The user's title, or the start of the first thing they said
+export const conversationTitle = (conversation: Conversation): string => {
+  if (conversation.title?.trim()) return conversation.title.trim();
+
+  const firstMessage = conversation.messages.find(message => message.role === 'user');
+  const firstLine = firstMessage?.content.trim().split('\n')[0].replace(/\s+/g, ' ') ?? '';
+  if (!firstLine) return DEFAULT_CONVERSATION_TITLE;
+  if (firstLine.length <= MAX_TITLE_LENGTH) return firstLine;
+
+  // One extra character shows whether the cut falls between words
+  const cut = firstLine.slice(0, MAX_TITLE_LENGTH + 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut.slice(0, MAX_TITLE_LENGTH)}…`;
+};
+
+// Blank, unnamed conversations are not worth keeping
+export const isEmptyConversation = (conversation: Conversation): boolean =>
+  conversation.messages.length === 0 && conversation.title === null;
+
+// Replies still pending or streaming when the page went away will never
+// finish; they are marked as failed so they can be retried or deleted
+export const settleUnfinishedMessages = (messages: Message[]): Message[] =>
+  messages.map(message => (message.status === 'pending' || message.status === 'streaming'
+    ? { ...message, status: 'error', error: CUT_OFF_ERROR }
+    : message));
@@ -0,0 +1,147 @@
+import { createId } from '../../utils/ids';
+import { ChatRole } from '../chat/types';
+import { conversationTitle, settleUnfinishedMessages } from './conversation';
+import { SCHEMA_VERSION, StoredConversation, toStoredConversation, upgradeRecord } from './schema';
+import { Conversation, Message } from './types';
+import { conversationProblem, isConversation, isRecord } from './validate';
+
+export type ExportFormat = 'markdown' | 'json' | 'transcript';
+
+// Marks a JSON file as a conversation exported from this app
+export const EXPORT_FILE_FORMAT = 'voice-chat-conversation';
+
+export interface ConversationExport {
+  format: typeof EXPORT_FILE_FORMAT;
+  exportedAt: string;
+  conversation: StoredConversation;
+}
+
+// Why a file could not be imported, in words the user can act on
+export class ConversationImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConversationImportError';
+    // Keeps instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+const SPEAKERS: Record<ChatRole, string> = {
+  user: 'You',
+  assistant: 'Assistant',
+  system: 'System',
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Local date and time, e.g. "2024-01-02 09:05:07"
+export const formatTimestamp = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} `
+    + `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+// A failed reply with no text says why instead
+const exportedText = (message: Message): string =>
+  message.status === 'error' && !message.content ? `(Failed: ${message.error ?? 'no reply'})` : message.content;
+
+// Who said it and how, e.g. "You (voice, 92%)" or "Assistant (llama3.2)"
+const describeSpeaker = (message: Message): string => {
+  const details = [
+    message.source === 'voice' ? 'voice' : undefined,
+    message.confidence !== undefined ? `${Math.round(message.confidence * 100)}%` : undefined,
+    message.model,
+  ].filter(Boolean);
+  return details.length > 0 ? `${SPEAKERS[message.role]} (${details.join(', ')})` : SPEAKERS[message.role];
+};
+
+export const toMarkdown = (conversation: Conversation): string => {
+  const lines = [`# ${conversationTitle(conversation)}`, '', `Started ${formatTimestamp(conversation.createdAt)}`];
+  conversation.messages.forEach(message => {
+    lines.push('', `**${describeSpeaker(message)}** · ${formatTimestamp(message.timestamp)}`, '', exportedText(message));
+    if (message.status === 'error' && message.content) {
+      lines.push('', `_Failed: ${message.error ?? 'no reply'}_`);
+    }
+  });
+  return `${lines.join('\n')}\n`;
+};
+
+// One line per message, continuation lines indented under the first
+export const toTranscript = (conversation: Conversation): string => {
+  const lines = [conversationTitle(conversation), ''];
+  conversation.messages.forEach(message => {
+    const [first, ...rest] = exportedText(message).split('\n');
+    const prefix = `[${formatTimestamp(message.timestamp)}] ${describeSpeaker(message)}: `;
+    lines.push(prefix + first, ...rest.map(line => (line ? ' '.repeat(prefix.length) + line : '')));
+  });
+  return `${lines.join('\n')}\n`;
+};
+
+export const toExportJson = (conversation: Conversation, now = Date.now()): string => {
+  const exported: ConversationExport = {
+    format: EXPORT_FILE_FORMAT,
+    exportedAt: new Date(now).toISOString(),
+    conversation: toStoredConversation(conversation),
+  };
+  return JSON.stringify(exported, null, 2);
+};
+
+export const EXPORT_FORMATS: Record<ExportFormat, { extension: string; type: string; render: (conversation: Conversation) => string }> = {
+  markdown: { extension: 'md', type: 'text/markdown', render: toMarkdown },
+  json: { extension: 'json', type: 'application/json', render: conversation => toExportJson(conversation) },
+  transcript: { extension: 'txt', type: 'text/plain', render: toTranscript },
+};
+
+// e.g. "trip-to-lisbon-2024-01-02.md"
+export const exportFileName = (conversation: Conversation, format: ExportFormat): string => {
+  const slug = conversationTitle(conversation)
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40)
+    .replace(/-+$/, '') || 'conversation';
+  return `${slug}-${formatTimestamp(conversation.updatedAt).slice(0, 10)}.${EXPORT_FORMATS[format].extension}`;
+};
+
+// Reads an exported JSON file into a new conversation: fresh ids, so it never
+// replaces one already here, and replies that were cut off marked as failed.
+// Throws ConversationImportError when the file is not a valid export.
+export const parseConversationExport = (text: string, now = Date.now()): Conversation => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ConversationImportError('The file is not valid JSON');
+  }
+  if (!isRecord(data) || data.format !== EXPORT_FILE_FORMAT || !isRecord(data.conversation)) {
+    throw new ConversationImportError('The file is not a conversation exported from this app');
+  }
+  const record = data.conversation;
+  if (typeof record.schemaVersion === 'number' && record.schemaVersion > SCHEMA_VERSION) {
+    throw new ConversationImportError('The conversation was exported from a newer version of the app');
+  }
+
+  let upgraded: Record<string, unknown> | null;
+  try {
+    upgraded = upgradeRecord({ ...record, id: typeof record.id === 'string' ? record.id : 'imported' });
+  } catch {
+    upgraded = null;
+  }
+  if (!upgraded) {
+    throw new ConversationImportError('The conversation could not be read');
+  }
+  const { schemaVersion, ...conversation } = upgraded;
+  const problem = conversationProblem(conversation);
+  if (problem || !isConversation(conversation)) {
+    throw new ConversationImportError(problem ?? 'The conversation could not be read');
+  }
+
+  return {
+    ...conversation,
+    id: createId(),
+    messages: settleUnfinishedMessages(conversation.messages).map(message => ({ ...message, id: createId() })),
+    updatedAt: now,
+  };
+};
@@ -0,0 +1,23 @@
+import { IndexedDBConversationStore, openDatabase } from './IndexedDBConversationStore';
+import { LocalStorageConversationStore } from './LocalStorageConversationStore';
+import { ConversationStore } from './types';
+
+export * from './types';
+export * from './context';
+export * from './conversation';
+export * from './exchange';
+export { SCHEMA_VERSION, migrateConversation } from './schema';
+export { IndexedDBConversationStore } from './IndexedDBConversationStore';
+export { LocalStorageConversationStore } from './LocalStorageConversationStore';
+
+// IndexedDB where it works, localStorage otherwise
+export const openConversationStore = async (): Promise<ConversationStore> => {
+  if (typeof window !== 'undefined' && window.indexedDB) {
+    try {
+      return new IndexedDBConversationStore(await openDatabase(window.indexedDB));
+    } catch (error) {
+      console.warn('IndexedDB is unavailable, keeping conversations in localStorage:', error);
+    }
+  }
+  return new LocalStorageConversationStore();
+};
@@ -0,0 +1,105 @@
+import { createId } from '../../utils/ids';
+import { settleUnfinishedMessages } from './conversation';
+import { Conversation } from './types';
+import { conversationProblem, isConversation, isRecord, messageProblem } from './validate';
+
+// Bump when the stored shape of a conversation changes and add a migration
+// from the previous version below
+export const SCHEMA_VERSION = 2;
+
+export type StoredConversation = Conversation & { schemaVersion: number };
+
+// A stored record of any version, before it is known to be a Conversation
+type StoredRecord = Record<string, unknown>;
+
+type Migration = (record: StoredRecord) => StoredRecord;
+
+// Replies that failed used to be stored as this text
+const LEGACY_ERROR_TEXT = 'Sorry, there was an error processing your request.';
+
+// Keyed by the version a migration upgrades from
+export const MIGRATIONS: Record<number, Migration> = {
+  // { text, isUser } messages became full Message records
+  1: record => ({
+    ...record,
+    messages: (Array.isArray(record.messages) ? record.messages : []).filter(isRecord).map(message => {
+      const failed = !message.isUser && message.text === LEGACY_ERROR_TEXT;
+      return {
+        id: createId(),
+        role: message.isUser ? 'user' : 'assistant',
+        content: failed ? '' : message.text,
+        timestamp: record.createdAt,
+        status: failed ? 'error' : 'done',
+        ...(message.confidence !== undefined && { confidence: message.confidence, source: 'voice' }),
+      };
+    }),
+  }),
+};
+
+export const toStoredConversation = (conversation: Conversation): StoredConversation => ({
+  ...conversation,
+  schemaVersion: SCHEMA_VERSION,
+});
+
+// Runs the migrations that bring a stored record up to the current version,
+// still unchecked. Records written by a newer version of the app are left
+// alone rather than guessed at.
+export const upgradeRecord = (record: unknown, migrations: Record<number, Migration> = MIGRATIONS): StoredRecord | null => {
+  if (!isRecord(record) || typeof record.id !== 'string') {
+    return null;
+  }
+
+  let version = typeof record.schemaVersion === 'number' ? record.schemaVersion : 1;
+  if (version > SCHEMA_VERSION) {
+    console.warn(`Skipping conversation ${record.id} saved with newer schema version ${version}`);
+    return null;
+  }
+
+  let migrated = record;
+  while (version < SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      console.warn(`No migration from schema version ${version} for conversation ${record.id}`);
+      return null;
+    }
+    migrated = migrate(migrated);
+    version++;
+  }
+
+  return migrated;
+};
+
+// Upgrades a stored record and checks it can be shown. A message that cannot
+// is dropped rather than the whole conversation.
+export const migrateConversation = (record: unknown, migrations: Record<number, Migration> = MIGRATIONS): Conversation | null => {
+  const upgraded = upgradeRecord(record, migrations);
+  if (!upgraded) return null;
+
+  const { schemaVersion, ...stored } = upgraded;
+  const conversation = Array.isArray(stored.messages)
+    ? {
+      ...stored,
+      messages: stored.messages.filter(message => {
+        const problem = messageProblem(message);
+        if (problem) {
+          console.warn(`Dropping a message of conversation ${upgraded.id} that ${problem}`);
+        }
+        return !problem;
+      }),
+    }
+    : stored;
+  if (!isConversation(conversation)) {
+    console.warn(`Skipping conversation ${upgraded.id}: ${conversationProblem(conversation)}`);
+    return null;
+  }
+  return conversation;
+};
+
+// Reads what a store holds; replies that were still coming in when the page
+// was closed are marked as cut off
+export const migrateConversations = (records: unknown[]): Conversation[] =>
+  records
+    .map(record => migrateConversation(record))
+    .filter((conversation): conversation is Conversation => conversation !== null)
+    .map(conversation => ({ ...conversation, messages: settleUnfinishedMessages(conversation.messages) }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
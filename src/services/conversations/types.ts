@@ -0,0 +1,49 @@
+import { RecordedAudio } from '../audio';
+import { ChatErrorKind } from '../chat/errors';
+import { ChatRole, ModelParameters } from '../chat/types';
+
+// pending: waiting for the first token; streaming: tokens are arriving
+export type MessageStatus = 'pending' | 'streaming' | 'done' | 'error';
+
+export type MessageSource = 'voice' | 'typed';
+
+export interface Message {
+  id: string;
+  role: ChatRole;
+  content: string;
+  // Milliseconds since the epoch
+  timestamp: number;
+  status: MessageStatus;
+  // How a user message was entered
+  source?: MessageSource;
+  // Recogniser confidence for spoken messages, 0 to 1
+  confidence?: number;
+  // What the user actually said, when recording is switched on
+  audio?: RecordedAudio;
+  // Model that wrote an assistant message
+  model?: string;
+  // Why an assistant message failed
+  error?: string;
+  errorKind?: ChatErrorKind;
+}
+
+export interface Conversation {
+  id: string;
+  // Set when the user renames the conversation; otherwise the title is
+  // derived from the first message
+  title: string | null;
+  messages: Message[];
+  // Persona whose system prompt and settings the conversation uses
+  personaId?: string | null;
+  // Overrides the persona's model parameters
+  parameters?: ModelParameters;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ConversationStore {
+  // Most recently updated first
+  list(): Promise<Conversation[]>;
+  save(conversation: Conversation): Promise<void>;
+  delete(id: string): Promise<void>;
+}
@@ -0,0 +1,73 @@
+import { ChatErrorKind } from '../chat/errors';
+import { hasParameterErrors, validateParameters } from '../chat/parameters';
+import { ChatRole } from '../chat/types';
+import { Conversation, MessageStatus } from './types';
+
+// Checks that records read from storage or an imported file match the
+// Conversation schema before anything renders them
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const ROLES: ChatRole[] = ['user', 'assistant', 'system'];
+const STATUSES: MessageStatus[] = ['pending', 'streaming', 'done', 'error'];
+const ERROR_KINDS: ChatErrorKind[] = ['network', 'http', 'bad-response', 'timeout', 'cancelled'];
+
+const isOneOf = <T>(values: readonly T[], value: unknown): value is T => (values as readonly unknown[]).includes(value);
+
+const isTime = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Recordings must be embedded audio; a link could fetch anything from anywhere
+const isRecordedAudio = (audio: unknown): boolean =>
+  isRecord(audio)
+  && typeof audio.dataUrl === 'string'
+  && audio.dataUrl.startsWith('data:audio/')
+  && typeof audio.mimeType === 'string'
+  && isTime(audio.duration);
+
+// What is wrong with a message, or null when it matches the Message schema
+export const messageProblem = (message: unknown): string | null => {
+  if (!isRecord(message)) return 'is not an object';
+  if (typeof message.id !== 'string' || !message.id) return 'has no id';
+  if (!isOneOf(ROLES, message.role)) return `has an unknown role "${message.role}"`;
+  if (typeof message.content !== 'string') return 'has no text';
+  if (!isTime(message.timestamp)) return 'has no valid timestamp';
+  if (!isOneOf(STATUSES, message.status)) return `has an unknown status "${message.status}"`;
+  if (message.source !== undefined && message.source !== 'voice' && message.source !== 'typed') return 'has an unknown source';
+  if (message.confidence !== undefined && !(typeof message.confidence === 'number' && message.confidence >= 0 && message.confidence <= 1)) {
+    return 'has a confidence outside 0 to 1';
+  }
+  if (message.model !== undefined && typeof message.model !== 'string') return 'has an invalid model name';
+  if (message.error !== undefined && typeof message.error !== 'string') return 'has an invalid error';
+  if (message.errorKind !== undefined && !isOneOf(ERROR_KINDS, message.errorKind)) return 'has an unknown error kind';
+  if (message.audio !== undefined && !isRecordedAudio(message.audio)) return 'has an invalid recording';
+  return null;
+};
+
+// What is wrong with a conversation, or null when it matches the schema
+export const conversationProblem = (conversation: unknown): string | null => {
+  if (!isRecord(conversation)) return 'The conversation is not an object';
+  if (conversation.title !== null && typeof conversation.title !== 'string') return 'The conversation title is not text';
+  if (!isTime(conversation.createdAt) || !isTime(conversation.updatedAt)) return 'The conversation has no valid dates';
+  if (conversation.personaId !== undefined && conversation.personaId !== null && typeof conversation.personaId !== 'string') {
+    return 'The conversation persona is not valid';
+  }
+  if (conversation.parameters !== undefined) {
+    const { parameters } = conversation;
+    const valid = isRecord(parameters)
+      && Object.entries(parameters).every(([key, value]) => (key === 'stop'
+        ? Array.isArray(value) && value.every(item => typeof item === 'string')
+        : ['temperature', 'topP', 'maxTokens'].includes(key) && typeof value === 'number'))
+      && !hasParameterErrors(validateParameters(parameters));
+    if (!valid) return 'The conversation has invalid model parameters';
+  }
+  if (!Array.isArray(conversation.messages)) return 'The conversation has no messages';
+  for (let index = 0; index < conversation.messages.length; index++) {
+    const problem = messageProblem(conversation.messages[index]);
+    if (problem) return `Message ${index + 1} ${problem}`;
+  }
+  return null;
+};
+
+// Whether a record matches the Conversation schema
+export const isConversation = (value: unknown): value is Conversation => conversationProblem(value) === null;
@@ -0,0 +1,24 @@
+import { createPersona, DEFAULT_PERSONAS, findPersona } from '../personas';
+
+describe('personas', () => {
+  it('ships presets with unique ids and a system prompt each', () => {
+    expect(new Set(DEFAULT_PERSONAS.map(persona => persona.id)).size).toBe(DEFAULT_PERSONAS.length);
+    DEFAULT_PERSONAS.forEach(persona => {
+      expect(persona.name).not.toBe('');
+      expect(persona.systemPrompt).not.toBe('');
+    });
+  });
+
+  it('creates blank personas that keep the user voice and language', () => {
+    const persona = createPersona({ name: 'Chef' });
+
+    expect(persona).toMatchObject({ name: 'Chef', systemPrompt: '', voiceId: null, language: null, parameters: {} });
+    expect(persona.id).not.toBe(createPersona().id);
+  });
+
+  it('finds a persona by id', () => {
+    expect(findPersona(DEFAULT_PERSONAS, 'preset-tutor')?.name).toBe('Language tutor');
+    expect(findPersona(DEFAULT_PERSONAS, 'deleted')).toBeNull();
+    expect(findPersona(DEFAULT_PERSONAS, null)).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { createId } from '../../utils/ids';
+import { Persona } from './types';
+
+// Presets cover the ways the app is used most; users can edit or remove them
+export const DEFAULT_PERSONAS: Persona[] = [
+  {
+    id: 'preset-tutor',
+    name: 'Language tutor',
+    systemPrompt:
+      'You are a patient language tutor. Keep replies short and conversational so they are easy to follow ' +
+      'when read aloud. Gently correct mistakes in what the user says, explain the correction in one sentence ' +
+      'and then carry on the conversation with a question.',
+    voiceId: null,
+    language: null,
+    parameters: { temperature: 0.7 },
+  },
+  {
+    id: 'preset-interviewer',
+    name: 'Interview partner',
+    systemPrompt:
+      'You are an interviewer running a practice job interview. Ask one question at a time and wait for the ' +
+      'answer. After each answer give brief, specific feedback, then ask the next question. Stay in role ' +
+      'unless the user asks to stop.',
+    voiceId: null,
+    language: null,
+    parameters: { temperature: 0.8 },
+  },
+  {
+    id: 'preset-assistant',
+    name: 'Quick answers',
+    systemPrompt:
+      'You are a concise assistant. Answer in one to three sentences of plain text without lists, tables or ' +
+      'code unless asked, because replies are read aloud.',
+    voiceId: null,
+    language: null,
+    parameters: { temperature: 0.3 },
+  },
+];
+
+export const createPersona = (fields: Partial<Persona> = {}): Persona => ({
+  id: createId(),
+  name: 'New persona',
+  systemPrompt: '',
+  voiceId: null,
+  language: null,
+  parameters: {},
+  ...fields,
+});
+
+export const findPersona = (personas: Persona[], id: string | null | undefined): Persona | null =>
+  (id && personas.find(persona => persona.id === id)) || null;
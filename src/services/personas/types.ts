@@ -0,0 +1,13 @@
+import { ModelParameters } from '../chat/types';
+
+export interface Persona {
+  id: string;
+  name: string;
+  // Sent as the first system turn of every request
+  systemPrompt: string;
+  // Voice to read replies with; null keeps the voice chosen in the settings
+  voiceId: string | null;
+  // Language to listen and reply in; null keeps the selected language
+  language: string | null;
+  parameters: ModelParameters;
+}
@@ -0,0 +1,96 @@
+import { ListenOptions, RecognitionEngine, RecognitionSession } from './types';
+import {
+  alternativesFromResult,
+  getSpeechRecognitionConstructor,
+  MAX_ALTERNATIVES,
+  RECOGNITION_UNSUPPORTED_MESSAGE,
+  resultConfidence,
+  transcriptFromResult
+} from './webSpeech';
+
+// The browser's own speech recognition. Hears words as they are spoken, but
+// most browsers send the audio to their vendor's servers to do it.
+export class WebSpeechEngine implements RecognitionEngine {
+  readonly kind = 'web-speech';
+  readonly capturesAudio = false;
+  readonly unsupportedMessage = RECOGNITION_UNSUPPORTED_MESSAGE;
+
+  isSupported(): boolean {
+    return Boolean(getSpeechRecognitionConstructor());
+  }
+
+  listen({ lang, continuous, onInterim, onResult, onError, onEnd }: ListenOptions): RecognitionSession {
+    const SpeechRecognition = getSpeechRecognitionConstructor();
+    if (!SpeechRecognition) {
+      throw new Error(RECOGNITION_UNSUPPORTED_MESSAGE);
+    }
+
+    const recognition = new SpeechRecognition();
+    let cancelled = false;
+    let delivered = false;
+
+    recognition.continuous = continuous;     // Single utterance mode unless the caller decides when to stop
+    recognition.interimResults = true;       // Get interim results for real-time feedback
+    recognition.lang = lang;
+    recognition.maxAlternatives = MAX_ALTERNATIVES; // Other readings to offer when unsure
+
+    // Continuous listening collects everything said and delivers it at the end
+    const finalTranscripts: string[] = [];
+    let lowestConfidence = 1;
+    let interimTranscript = '';
+
+    recognition.onresult = (event: SpeechRecognitionEvent) => {
+      if (cancelled || delivered) return;
+
+      interimTranscript = '';
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results.item(i);
+        if (!result) continue;
+
+        const transcript = transcriptFromResult(result);
+        if (!result.isFinal) {
+          interimTranscript = [interimTranscript, transcript].filter(Boolean).join(' ');
+        } else if (transcript && continuous) {
+          finalTranscripts.push(transcript);
+          lowestConfidence = Math.min(lowestConfidence, resultConfidence(result));
+        } else if (transcript) {
+          delivered = true;
+          onResult({
+            transcript,
+            confidence: resultConfidence(result),
+            alternatives: alternativesFromResult(result)
+          });
+          return;
+        }
+      }
+
+      onInterim?.([...finalTranscripts, interimTranscript].filter(Boolean).join(' '));
+    };
+
+    recognition.onerror = (event) => onError(event.error);
+
+    recognition.onend = () => {
+      if (continuous && !cancelled && !delivered) {
+        // Words still pending when listening stopped only exist as interim
+        // text, which the recogniser never vouched for
+        const text = [...finalTranscripts, interimTranscript].filter(Boolean).join(' ');
+        if (text) {
+          const confidence = interimTranscript ? 0 : lowestConfidence;
+          delivered = true;
+          onResult({ transcript: text, confidence, alternatives: [{ transcript: text, confidence }] });
+        }
+      }
+      onEnd();
+    };
+
+    recognition.start();
+
+    return {
+      stop: () => recognition.stop(),
+      cancel: () => {
+        cancelled = true;
+        recognition.stop();
+      },
+    };
+  }
+}
@@ -0,0 +1,170 @@
+import { dataUrlToBlob } from '../../utils/files';
+import { AudioRecording, isRecordingSupported, RecordedAudio, startAudioRecording, watchForSilence } from '../audio';
+import { BadResponseError, ChatError, HttpError } from '../chat/errors';
+import { postFormJson } from '../chat/http';
+import { ListenOptions, RecognitionEngine, RecognitionSession } from './types';
+
+export interface WhisperEngineOptions {
+  // Server root, e.g. "http://localhost:8080"; audio is sent to its
+  // /v1/audio/transcriptions endpoint
+  baseUrl: string;
+  model: string;
+  // Sent as a bearer token
+  apiKey?: string | null;
+  // Longest utterance recorded before it is sent anyway, in ms
+  maxDuration?: number;
+}
+
+interface TranscriptionResponse {
+  text?: unknown;
+}
+
+export const TRANSCRIPTION_UNSUPPORTED_MESSAGE = 'Recording audio for transcription is not supported in this browser.';
+
+// Whisper takes ISO 639-1 codes: "fr-FR" -> "fr"
+export const transcriptionLanguage = (lang: string): string => lang.split('-')[0].toLowerCase();
+
+// Whisper marks stretches without speech with tags like "[BLANK_AUDIO]"
+export const cleanTranscription = (text: string): string =>
+  text.replace(/\[[A-Z_ ]+\]/g, ' ').trim().replace(/\s+/g, ' ');
+
+// Servers tell formats apart by the file name, e.g. "speech.webm"
+const fileName = (mimeType: string): string => `speech.${mimeType.split(';')[0].split('/')[1] || 'webm'}`;
+
+// The Web Speech error code nearest to a failure, so callers can treat both
+// engines alike
+const errorCode = (error: unknown): string => {
+  if (error instanceof ChatError) {
+    // Only a server that refuses the request outright is worth giving up on
+    return error instanceof HttpError && !error.retryable ? 'service-not-allowed' : 'network';
+  }
+  const name = (error as { name?: string } | null)?.name;
+  return name === 'NotAllowedError' || name === 'SecurityError' ? 'not-allowed' : 'audio-capture';
+};
+
+// Records the microphone and has an OpenAI-compatible server, such as a local
+// whisper.cpp, transcribe it once the speaker falls silent. Works in any
+// browser that can record audio, and the audio goes only where it is sent.
+export class WhisperEngine implements RecognitionEngine {
+  readonly kind = 'whisper';
+  readonly capturesAudio = true;
+  readonly unsupportedMessage = TRANSCRIPTION_UNSUPPORTED_MESSAGE;
+
+  constructor(private readonly options: WhisperEngineOptions) {}
+
+  isSupported(): boolean {
+    return isRecordingSupported();
+  }
+
+  async transcribe(audio: RecordedAudio, lang: string, signal?: AbortSignal): Promise<string> {
+    const form = new FormData();
+    form.append('file', dataUrlToBlob(audio.dataUrl), fileName(audio.mimeType));
+    form.append('model', this.options.model);
+    form.append('language', transcriptionLanguage(lang));
+    form.append('response_format', 'json');
+
+    const data = await postFormJson<TranscriptionResponse>(`${this.options.baseUrl}/v1/audio/transcriptions`, form, {
+      signal,
+      apiKey: this.options.apiKey,
+    });
+    if (typeof data.text !== 'string') {
+      throw new BadResponseError('The transcription server sent a reply that could not be read');
+    }
+    return cleanTranscription(data.text);
+  }
+
+  listen({ lang, continuous, onResult, onError, onEnd }: ListenOptions): RecognitionSession {
+    if (!this.isSupported()) {
+      throw new Error(TRANSCRIPTION_UNSUPPORTED_MESSAGE);
+    }
+
+    const controller = new AbortController();
+    let recording: AudioRecording | null = null;
+    let stopRequested = false;
+    let cancelled = false;
+    // Set once recording has stopped and the audio is on its way to the server
+    let ending = false;
+    let finished = false;
+    let stopWatching = () => {};
+    let timer: number | undefined;
+
+    const finish = (error?: string) => {
+      if (finished) return;
+      finished = true;
+      if (error) {
+        onError(error);
+      }
+      onEnd();
+    };
+
+    const stopListening = () => {
+      stopWatching();
+      window.clearTimeout(timer);
+    };
+
+    const end = async () => {
+      if (ending || !recording) return;
+      ending = true;
+      stopListening();
+      try {
+        const audio = await recording.stop();
+        if (!audio || cancelled) {
+          finish();
+          return;
+        }
+        const transcript = await this.transcribe(audio, lang, controller.signal);
+        // Nothing but silence gets no result, as with Web Speech
+        if (transcript && !cancelled) {
+          onResult({ transcript, confidence: 0, alternatives: [{ transcript, confidence: 0 }] }, audio);
+        }
+        finish();
+      } catch (error) {
+        if (cancelled) {
+          finish();
+          return;
+        }
+        console.error('Error transcribing speech:', error);
+        finish(errorCode(error));
+      }
+    };
+
+    startAudioRecording().then(started => {
+      recording = started;
+      if (cancelled) {
+        started.cancel();
+        finish();
+      } else if (stopRequested) {
+        end();
+      } else {
+        if (!continuous) {
+          stopWatching = watchForSilence(started.stream, end);
+        }
+        timer = window.setTimeout(end, this.options.maxDuration ?? 60000);
+      }
+    }, error => {
+      console.error('Error recording audio:', error);
+      finish(errorCode(error));
+    });
+
+    return {
+      stop: () => {
+        if (recording) {
+          end();
+        } else {
+          stopRequested = true;
+        }
+      },
+      cancel: () => {
+        if (cancelled) return;
+        cancelled = true;
+        stopListening();
+        // An upload in progress is abandoned and finishes through end()
+        controller.abort();
+        if (recording && !ending) {
+          recording.cancel();
+          finish();
+        }
+      },
+    };
+  }
+}
@@ -0,0 +1,127 @@
+import { cleanTranscription, transcriptionLanguage, WhisperEngine } from '../WhisperEngine';
+import { RecognitionResult } from '../webSpeech';
+import { RecordedAudio } from '../../audio';
+import { readFileText } from '../../../utils/files';
+import { createFakeMicrophone } from '../../../test-utils/fakeMicrophone';
+import { createMockServer } from '../../../test-utils/mockServer';
+
+const server = createMockServer('http://whisper.local');
+
+interface Heard {
+  results: [RecognitionResult, RecordedAudio | undefined][];
+  errors: string[];
+}
+
+// Listens with the engine; `ended` resolves once onEnd has been called
+const listen = (engine: WhisperEngine, continuous = false) => {
+  const heard: Heard = { results: [], errors: [] };
+  let session: ReturnType<WhisperEngine['listen']> | undefined;
+  const ended = new Promise<Heard>(resolve => {
+    session = engine.listen({
+      lang: 'fr-FR',
+      continuous,
+      onResult: (result, audio) => heard.results.push([result, audio]),
+      onError: error => heard.errors.push(error),
+      onEnd: () => resolve(heard),
+    });
+  });
+  return { session: session!, ended };
+};
+
+// Lets getUserMedia resolve so the recording has started
+const recordingStarted = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('WhisperEngine', () => {
+  let microphone: ReturnType<typeof createFakeMicrophone>;
+
+  beforeEach(() => {
+    server.install();
+    microphone = createFakeMicrophone().install();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    server.restore();
+    microphone.restore();
+  });
+
+  it('sends the recording to the transcription endpoint and hands over the text', async () => {
+    server.on('POST', '/v1/audio/transcriptions', { json: { text: ' Bonjour  tout le monde ' } });
+    const engine = new WhisperEngine({ baseUrl: 'http://whisper.local', model: 'large-v3', apiKey: 'sk-test' });
+    const { session, ended } = listen(engine);
+
+    await recordingStarted();
+    session.stop();
+    const { results, errors } = await ended;
+
+    expect(errors).toEqual([]);
+    expect(results).toEqual([[
+      { transcript: 'Bonjour tout le monde', confidence: 0, alternatives: [{ transcript: 'Bonjour tout le monde', confidence: 0 }] },
+      expect.objectContaining({ mimeType: 'audio/webm;codecs=opus' }),
+    ]]);
+
+    const [request] = server.requests;
+    expect(request.headers.authorization).toBe('Bearer sk-test');
+    const form = request.body as FormData;
+    expect(form.get('model')).toBe('large-v3');
+    expect(form.get('language')).toBe('fr');
+    const file = form.get('file') as File;
+    expect(file.name).toBe('speech.webm');
+    expect(await readFileText(file)).toBe('fake audio');
+    expect(microphone.track.stop).toHaveBeenCalled();
+  });
+
+  it('reports no result when only silence was heard', async () => {
+    server.on('POST', '/v1/audio/transcriptions', { json: { text: ' [BLANK_AUDIO]' } });
+    const { session, ended } = listen(new WhisperEngine({ baseUrl: 'http://whisper.local', model: 'whisper-1' }));
+
+    await recordingStarted();
+    session.stop();
+
+    expect(await ended).toEqual({ results: [], errors: [] });
+  });
+
+  it('throws the recording away when cancelled', async () => {
+    const { session, ended } = listen(new WhisperEngine({ baseUrl: 'http://whisper.local', model: 'whisper-1' }), true);
+
+    await recordingStarted();
+    session.cancel();
+
+    expect(await ended).toEqual({ results: [], errors: [] });
+    expect(server.requests).toHaveLength(0);
+    expect(microphone.recorders[0].state).toBe('inactive');
+  });
+
+  it('reports failures with the nearest Web Speech error code', async () => {
+    server.on('POST', '/v1/audio/transcriptions', { status: 404 });
+    const engine = new WhisperEngine({ baseUrl: 'http://whisper.local', model: 'whisper-1' });
+
+    const refused = listen(engine);
+    await recordingStarted();
+    refused.session.stop();
+    expect((await refused.ended).errors).toEqual(['service-not-allowed']);
+
+    microphone.getUserMedia.mockRejectedValueOnce(new DOMException('Permission denied', 'NotAllowedError'));
+    expect((await listen(engine).ended).errors).toEqual(['not-allowed']);
+  });
+
+  it('needs a browser that can record audio', () => {
+    microphone.restore();
+    const engine = new WhisperEngine({ baseUrl: 'http://whisper.local', model: 'whisper-1' });
+
+    expect(engine.isSupported()).toBe(false);
+    expect(() => engine.listen({ lang: 'en-US', continuous: false, onResult: jest.fn(), onError: jest.fn(), onEnd: jest.fn() }))
+      .toThrow(engine.unsupportedMessage);
+  });
+});
+
+describe('transcription helpers', () => {
+  it('passes Whisper the language without its region', () => {
+    expect(transcriptionLanguage('pt-BR')).toBe('pt');
+    expect(transcriptionLanguage('en')).toBe('en');
+  });
+
+  it('drops the markers Whisper puts where nobody spoke', () => {
+    expect(cleanTranscription(' [BLANK_AUDIO] Hello  there [MUSIC]')).toBe('Hello there');
+  });
+});
@@ -0,0 +1,34 @@
+import { createRecognitionEngine, WebSpeechEngine, WhisperEngine } from '..';
+import { DEFAULT_CONFIG } from '../../config';
+import { createFakeMicrophone } from '../../../test-utils/fakeMicrophone';
+
+describe('createRecognitionEngine', () => {
+  let microphone: ReturnType<typeof createFakeMicrophone>;
+
+  beforeEach(() => {
+    microphone = createFakeMicrophone().install();
+  });
+
+  afterEach(() => {
+    microphone.restore();
+    delete (window as { SpeechRecognition?: unknown }).SpeechRecognition;
+  });
+
+  it('picks the engine named in the configuration', () => {
+    expect(createRecognitionEngine({ ...DEFAULT_CONFIG, recognitionEngine: 'web-speech' })).toBeInstanceOf(WebSpeechEngine);
+    expect(createRecognitionEngine({ ...DEFAULT_CONFIG, recognitionEngine: 'whisper' })).toBeInstanceOf(WhisperEngine);
+  });
+
+  it('falls back to the transcription server when the browser cannot recognise speech', () => {
+    expect(createRecognitionEngine(DEFAULT_CONFIG)).toBeInstanceOf(WhisperEngine);
+
+    Object.assign(window, { SpeechRecognition: jest.fn() });
+    expect(createRecognitionEngine(DEFAULT_CONFIG)).toBeInstanceOf(WebSpeechEngine);
+  });
+
+  it('keeps Web Speech when nothing else would work either', () => {
+    microphone.restore();
+
+    expect(createRecognitionEngine(DEFAULT_CONFIG)).toBeInstanceOf(WebSpeechEngine);
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  alternativesFromResult,
+  mapTranscripts,
+  needsDisambiguation,
+  resultConfidence,
+  transcriptFromResult
+} from '../webSpeech';
+
+const makeResult = (alternatives: [string, number][]): SpeechRecognitionResult => ({
+  isFinal: true,
+  length: alternatives.length,
+  item: (index: number) => alternatives[index] && { transcript: alternatives[index][0], confidence: alternatives[index][1] }
+} as unknown as SpeechRecognitionResult);
+
+describe('transcriptFromResult', () => {
+  it('tidies the whitespace of the best reading and keeps its punctuation', () => {
+    expect(transcriptFromResult(makeResult([['  hello,   world! ', 0.9], ['yellow world', 0.2]]))).toBe('hello, world!');
+  });
+
+  it('keeps only the best reading when confidence is low', () => {
+    expect(transcriptFromResult(makeResult([['first', 0.3], ['second', 0.2]]))).toBe('first');
+  });
+
+  it('returns an empty string for an empty result', () => {
+    expect(transcriptFromResult(makeResult([]))).toBe('');
+  });
+});
+
+describe('resultConfidence', () => {
+  it('reads the confidence of the best reading', () => {
+    expect(resultConfidence(makeResult([['hi', 0.7]]))).toBe(0.7);
+    expect(resultConfidence(makeResult([]))).toBe(0);
+  });
+});
+
+describe('alternativesFromResult', () => {
+  it('lists distinct readings, best first', () => {
+    expect(alternativesFromResult(makeResult([['weather', 0.5], [' weather ', 0.4], ['whether', 0.3], ['  ', 0.1]]))).toEqual([
+      { transcript: 'weather', confidence: 0.5 },
+      { transcript: 'whether', confidence: 0.3 }
+    ]);
+  });
+});
+
+describe('mapTranscripts', () => {
+  it('transforms every reading and merges the ones that end up equal', () => {
+    const result = {
+      transcript: 'weather',
+      confidence: 0.5,
+      alternatives: [
+        { transcript: 'weather', confidence: 0.5 },
+        { transcript: 'Weather', confidence: 0.4 },
+        { transcript: 'whether', confidence: 0.3 }
+      ]
+    };
+
+    expect(mapTranscripts(result, text => text.toUpperCase())).toEqual({
+      transcript: 'WEATHER',
+      confidence: 0.5,
+      alternatives: [
+        { transcript: 'WEATHER', confidence: 0.5 },
+        { transcript: 'WHETHER', confidence: 0.3 }
+      ]
+    });
+  });
+});
+
+describe('needsDisambiguation', () => {
+  const alternatives = [
+    { transcript: 'Weather', confidence: 0.5 },
+    { transcript: 'Whether', confidence: 0.3 }
+  ];
+
+  it('asks when a result with several readings is below the threshold', () => {
+    expect(needsDisambiguation({ transcript: 'Weather', confidence: 0.5, alternatives }, 0.8)).toBe(true);
+  });
+
+  it('does not ask about confident results', () => {
+    expect(needsDisambiguation({ transcript: 'Weather', confidence: 0.9, alternatives }, 0.8)).toBe(false);
+  });
+
+  it('does not ask when there is nothing to choose from', () => {
+    expect(needsDisambiguation({ transcript: 'Weather', confidence: 0.5, alternatives: alternatives.slice(0, 1) }, 0.8)).toBe(false);
+  });
+});
@@ -0,0 +1,35 @@
+import { apiKeyFor } from '../config/config';
+import { AppConfig } from '../config/types';
+import { RecognitionEngine } from './types';
+import { WebSpeechEngine } from './WebSpeechEngine';
+import { WhisperEngine } from './WhisperEngine';
+
+export * from './types';
+export * from './webSpeech';
+export * from './WhisperEngine';
+export { WebSpeechEngine };
+
+// The engine to listen with. 'auto' prefers the browser's own recognition and
+// falls back to the transcription server where there is none, e.g. in
+// Firefox.
+export const createRecognitionEngine = (
+  config: Pick<AppConfig, 'recognitionEngine' | 'chatBaseUrl' | 'transcriptionBaseUrl' | 'transcriptionModel'>
+    & Partial<Pick<AppConfig, 'apiKey'>>
+): RecognitionEngine => {
+  const webSpeech = new WebSpeechEngine();
+  const whisper = new WhisperEngine({
+    baseUrl: config.transcriptionBaseUrl ?? config.chatBaseUrl,
+    model: config.transcriptionModel,
+    apiKey: apiKeyFor(config.transcriptionBaseUrl, config),
+  });
+
+  switch (config.recognitionEngine) {
+    case 'web-speech':
+      return webSpeech;
+    case 'whisper':
+      return whisper;
+    case 'auto':
+    default:
+      return webSpeech.isSupported() || !whisper.isSupported() ? webSpeech : whisper;
+  }
+};
@@ -0,0 +1,46 @@
+import { RecordedAudio } from '../audio';
+import { RecognitionResult } from './webSpeech';
+
+export type RecognitionEngineKind = 'web-speech' | 'whisper';
+
+// 'auto' uses the browser's own recognition where there is one and falls back
+// to the transcription server
+export type RecognitionEngineChoice = 'auto' | RecognitionEngineKind;
+
+export interface ListenOptions {
+  // BCP 47 locale to recognise, e.g. "fr-FR"
+  lang: string;
+  // Keeps listening until stop() is called; otherwise the utterance ends
+  // when the speaker falls silent
+  continuous: boolean;
+  // Live text of what is being heard, for engines that can tell
+  onInterim?: (text: string) => void;
+  // Called at most once, with everything that was said. `audio` is the
+  // recording the engine transcribed, when it made one.
+  onResult: (result: RecognitionResult, audio?: RecordedAudio) => void;
+  // A Web Speech error code, e.g. "not-allowed" or "network"; engines that
+  // are not Web Speech report the nearest one
+  onError: (error: string) => void;
+  // Always called last, whether or not there was a result
+  onEnd: () => void;
+}
+
+export interface RecognitionSession {
+  // Ends the utterance; what was said so far is still delivered
+  stop(): void;
+  // Ends the utterance and throws away what was said
+  cancel(): void;
+}
+
+export interface RecognitionEngine {
+  readonly kind: RecognitionEngineKind;
+  // Whether onResult passes on the recording it transcribed, so nothing else
+  // needs to record the microphone for it
+  readonly capturesAudio: boolean;
+  // Shown, or logged, when the engine cannot run in this browser
+  readonly unsupportedMessage: string;
+  isSupported(): boolean;
+  // Starts listening straight away; failures are reported through onError
+  // followed by onEnd
+  listen(options: ListenOptions): RecognitionSession;
+}
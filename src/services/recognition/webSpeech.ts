@@ -0,0 +1,63 @@
+export const RECOGNITION_UNSUPPORTED_MESSAGE =
+  'Speech recognition is not supported in this browser. Please use Chrome, Edge, Safari (14.1+), or Opera.';
+
+export const getSpeechRecognitionConstructor = (): SpeechRecognitionConstructor | undefined =>
+  typeof window === 'undefined' ? undefined : window.SpeechRecognition || window.webkitSpeechRecognition;
+
+export interface RecognitionAlternative {
+  transcript: string;
+  // Between 0 and 1, 0 when the recogniser did not report one
+  confidence: number;
+}
+
+export interface RecognitionResult extends RecognitionAlternative {
+  // Other readings of the same speech, best first, including the transcript
+  // itself; a single entry when there is nothing to choose from
+  alternatives: RecognitionAlternative[];
+}
+
+// How many readings to ask the recogniser for so a doubtful result can be
+// offered as a choice
+export const MAX_ALTERNATIVES = 3;
+
+// Confidence the recogniser reported for its best guess, 0 when unknown
+export const resultConfidence = (result: SpeechRecognitionResult): number =>
+  result.item(0)?.confidence || 0;
+
+// Punctuation, capitalisation and the like are left to normalizeTranscript
+const cleanTranscript = (transcript: string): string => transcript.trim().replace(/\s+/g, ' ');
+
+// Turns a recognition result into the text to send: the recogniser's best
+// guess, with its whitespace tidied
+export const transcriptFromResult = (result: SpeechRecognitionResult): string =>
+  cleanTranscript(result.item(0)?.transcript || '');
+
+// Every distinct reading of a final result, best first
+export const alternativesFromResult = (result: SpeechRecognitionResult): RecognitionAlternative[] => {
+  const alternatives: RecognitionAlternative[] = [];
+  for (let j = 0; j < result.length; j++) {
+    const alt = result.item(j);
+    const transcript = cleanTranscript(alt?.transcript || '');
+    if (transcript && !alternatives.some(existing => existing.transcript === transcript)) {
+      alternatives.push({ transcript, confidence: alt?.confidence || 0 });
+    }
+  }
+  return alternatives;
+};
+
+// Applies a transcript cleanup to every reading, dropping readings that
+// become the same
+export const mapTranscripts = (result: RecognitionResult, transform: (text: string) => string): RecognitionResult => {
+  const alternatives: RecognitionAlternative[] = [];
+  result.alternatives.forEach(alternative => {
+    const transcript = transform(alternative.transcript);
+    if (transcript && !alternatives.some(existing => existing.transcript === transcript)) {
+      alternatives.push({ ...alternative, transcript });
+    }
+  });
+  return { ...result, transcript: transform(result.transcript), alternatives };
+};
+
+// Whether the user should pick between readings before anything is sent
+export const needsDisambiguation = (result: RecognitionResult, threshold: number): boolean =>
+  result.alternatives.length > 1 && result.confidence < threshold;
@@ -0,0 +1,152 @@
+import { SpeakOptions } from './SpeechController';
+import { SpeechCallbacks, SpeechEngine, SpeechPlayback } from './types';
+
+// The subset of window.speechSynthesis the engine relies on. Tests pass a
+// fake implementation instead of patching the window.
+export type SpeechSynthesisLike = Pick<
+  SpeechSynthesis,
+  'speak' | 'cancel' | 'pause' | 'resume' | 'getVoices' | 'onvoiceschanged'
+>;
+
+export type UtteranceFactory = (text: string) => SpeechSynthesisUtterance;
+
+// Chrome silently stops utterances that run longer than ~15 seconds unless
+// synthesis is nudged with pause/resume while it speaks
+const KEEP_ALIVE_INTERVAL_MS = 14000;
+
+const getBrowserSynthesis = (): SpeechSynthesisLike | null =>
+  typeof window !== 'undefined' && window.speechSynthesis ? window.speechSynthesis : null;
+
+const createBrowserUtterance: UtteranceFactory = (text) => new SpeechSynthesisUtterance(text);
+
+const isHighQualityVoice = (voice: SpeechSynthesisVoice) =>
+  voice.name.includes('Microsoft') || voice.name.includes('Google') || voice.name.includes('English');
+
+// Prefers the exact locale, then any voice of the same language, favouring
+// well-known high quality voices within each
+export const pickVoiceForLanguage = (voices: SpeechSynthesisVoice[], lang = 'en'): SpeechSynthesisVoice | null => {
+  const normalize = (tag: string) => tag.replace('_', '-').toLowerCase();
+  const target = normalize(lang);
+  const primary = target.split('-')[0];
+
+  const exact = voices.filter(voice => normalize(voice.lang) === target);
+  const sameLanguage = voices.filter(voice => normalize(voice.lang).split('-')[0] === primary);
+
+  return exact.find(isHighQualityVoice) || exact[0] ||
+    sameLanguage.find(isHighQualityVoice) || sameLanguage[0] || null;
+};
+
+// Speaks with window.speechSynthesis and the voices installed with the
+// browser or operating system
+export class BrowserSpeechEngine implements SpeechEngine {
+  readonly kind = 'browser';
+  onVoicesChanged: (() => void) | null = null;
+
+  constructor(
+    private readonly synthesis: SpeechSynthesisLike | null = getBrowserSynthesis(),
+    private readonly createUtterance: UtteranceFactory = createBrowserUtterance
+  ) {
+    if (synthesis) {
+      synthesis.onvoiceschanged = () => this.onVoicesChanged?.();
+    }
+  }
+
+  get available(): boolean {
+    return this.synthesis !== null;
+  }
+
+  getVoices(): SpeechSynthesisVoice[] {
+    try {
+      return this.synthesis?.getVoices() || [];
+    } catch (error) {
+      console.error('Error loading voices:', error);
+      return [];
+    }
+  }
+
+  speak(text: string, options: SpeakOptions, { onStart, onBoundary, onEnd, onError }: SpeechCallbacks): SpeechPlayback {
+    const { synthesis } = this;
+    if (!synthesis) {
+      throw new Error('Speech synthesis not available');
+    }
+
+    const utterance = this.createUtterance(text);
+    const { voice, lang, rate = 1.0, pitch = 1.0, volume = 1.0 } = options;
+    const selectedVoice = voice === undefined ? pickVoiceForLanguage(this.getVoices(), lang) : voice;
+    if (selectedVoice) {
+      utterance.voice = selectedVoice;
+    }
+    if (lang) {
+      utterance.lang = lang;
+    }
+    utterance.rate = rate;
+    utterance.pitch = pitch;
+    utterance.volume = volume;
+
+    let paused = false;
+    let keepAliveTimer: ReturnType<typeof setInterval> | null = null;
+
+    const stopKeepAlive = () => {
+      if (keepAliveTimer !== null) {
+        clearInterval(keepAliveTimer);
+        keepAliveTimer = null;
+      }
+    };
+
+    const startKeepAlive = () => {
+      stopKeepAlive();
+      keepAliveTimer = setInterval(() => {
+        if (paused) return;
+        synthesis.pause();
+        synthesis.resume();
+      }, KEEP_ALIVE_INTERVAL_MS);
+    };
+
+    utterance.onstart = () => {
+      startKeepAlive();
+      onStart();
+    };
+    utterance.onboundary = (event) => {
+      onBoundary(event.charIndex, event.charLength ?? 0);
+    };
+    utterance.onend = () => {
+      stopKeepAlive();
+      onEnd();
+    };
+    utterance.onerror = (event) => {
+      stopKeepAlive();
+      onError(event.error);
+    };
+
+    synthesis.speak(utterance);
+
+    return {
+      pause: () => {
+        paused = true;
+        stopKeepAlive();
+        synthesis.pause();
+      },
+      resume: () => {
+        paused = false;
+        synthesis.resume();
+        startKeepAlive();
+      },
+      cancel: () => {
+        // Detach first: browsers report a cancelled utterance as an error or
+        // end at unpredictable times, and the controller has accounted for it
+        utterance.onstart = null;
+        utterance.onboundary = null;
+        utterance.onend = null;
+        utterance.onerror = null;
+
+        stopKeepAlive();
+        synthesis.cancel();
+        if (paused) {
+          // A paused engine stays paused after cancel() in Chrome
+          paused = false;
+          synthesis.resume();
+        }
+      },
+    };
+  }
+}
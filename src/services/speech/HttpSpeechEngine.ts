@@ -0,0 +1,195 @@
+import { ChatError } from '../chat/errors';
+import { postForBlob } from '../chat/http';
+import { withTimeout } from '../chat/retry';
+import { SpeakOptions } from './SpeechController';
+import { SpeechCallbacks, SpeechEngine, SpeechPlayback } from './types';
+
+export interface HttpSpeechEngineOptions {
+  // Server root, e.g. "http://localhost:8000"; speech is requested from its
+  // /v1/audio/speech endpoint
+  baseUrl: string;
+  model: string;
+  // Voices the server offers, e.g. ["alloy", "nova"]; the first is the default
+  voices: string[];
+  // Sent as a bearer token
+  apiKey?: string | null;
+  // How long the server may take to send the audio, in ms; 0 waits forever
+  timeout?: number;
+}
+
+interface Prefetched {
+  audio: Promise<Blob>;
+  controller: AbortController;
+}
+
+// A server voice shaped like a browser one, so the voice picker and saved
+// settings work with either engine. Server voices have no language of their
+// own: they read whatever they are given.
+export const toServerVoice = (name: string, index: number): SpeechSynthesisVoice => ({
+  name,
+  voiceURI: name,
+  lang: '',
+  localService: false,
+  default: index === 0,
+});
+
+const DEFAULT_TIMEOUT = 60000;
+
+// The range OpenAI accepts; other servers ignore what they do not support
+const speedFor = (rate = 1): number => Math.min(4, Math.max(0.25, rate));
+
+// The SpeechSynthesis error code nearest to a failure
+const errorCode = (error: unknown): string => {
+  if (error instanceof ChatError) {
+    return error.kind === 'network' || error.kind === 'timeout' ? 'network' : 'synthesis-failed';
+  }
+  // Autoplay rules refuse to play audio before the user has interacted
+  return (error as { name?: string } | null)?.name === 'NotAllowedError' ? 'not-allowed' : 'audio-hardware';
+};
+
+// Has an OpenAI-compatible server, such as a local Piper or Coqui server,
+// turn text into audio and plays it through one managed audio element. The
+// next item is requested while the current one plays, so sentences follow
+// each other without a pause.
+export class HttpSpeechEngine implements SpeechEngine {
+  readonly kind = 'http';
+  onVoicesChanged: (() => void) | null = null;
+  private readonly voices: SpeechSynthesisVoice[];
+  private readonly prefetched = new Map<string, Prefetched>();
+  private audioElement: HTMLAudioElement | null = null;
+
+  constructor(private readonly options: HttpSpeechEngineOptions) {
+    this.voices = options.voices.map(toServerVoice);
+  }
+
+  get available(): boolean {
+    return typeof window !== 'undefined' && typeof window.Audio === 'function';
+  }
+
+  getVoices(): SpeechSynthesisVoice[] {
+    return this.voices;
+  }
+
+  // Unknown voices, such as a browser voice chosen before switching engines,
+  // get the server's default
+  private voiceName(options: SpeakOptions): string {
+    const name = options.voice?.name;
+    return name && this.voices.some(voice => voice.name === name) ? name : this.options.voices[0];
+  }
+
+  private requestKey(text: string, options: SpeakOptions): string {
+    return JSON.stringify([text, this.voiceName(options), speedFor(options.rate)]);
+  }
+
+  private get audio(): HTMLAudioElement {
+    if (!this.audioElement) {
+      this.audioElement = new Audio();
+    }
+    return this.audioElement;
+  }
+
+  // A stalled server fails with a timeout, which is reported like a lost
+  // connection
+  synthesize(text: string, options: SpeakOptions, signal?: AbortSignal): Promise<Blob> {
+    return withTimeout(attemptSignal => postForBlob(`${this.options.baseUrl}/v1/audio/speech`, {
+      model: this.options.model,
+      input: text,
+      voice: this.voiceName(options),
+      speed: speedFor(options.rate),
+      response_format: 'mp3',
+    }, { signal: attemptSignal, apiKey: this.options.apiKey }), this.options.timeout ?? DEFAULT_TIMEOUT, signal);
+  }
+
+  prefetch(text: string, options: SpeakOptions) {
+    const key = this.requestKey(text, options);
+    if (this.prefetched.has(key)) return;
+    const controller = new AbortController();
+    const audio = this.synthesize(text, options, controller.signal);
+    // Reported if the item is ever spoken
+    audio.catch(() => {});
+    this.prefetched.set(key, { audio, controller });
+  }
+
+  clearPrefetched() {
+    this.prefetched.forEach(({ controller }) => controller.abort());
+    this.prefetched.clear();
+  }
+
+  speak(text: string, options: SpeakOptions, { onStart, onEnd, onError }: SpeechCallbacks): SpeechPlayback {
+    const key = this.requestKey(text, options);
+    const prefetched = this.prefetched.get(key);
+    this.prefetched.delete(key);
+    const controller = prefetched?.controller ?? new AbortController();
+    const request = prefetched?.audio ?? this.synthesize(text, options, controller.signal);
+
+    const { audio } = this;
+    let url: string | null = null;
+    let started = false;
+    let paused = false;
+    let cancelled = false;
+
+    const release = () => {
+      audio.onended = null;
+      audio.onerror = null;
+      if (url) {
+        URL.revokeObjectURL(url);
+        url = null;
+      }
+    };
+
+    const fail = (error: unknown) => {
+      if (cancelled) return;
+      console.error('Error playing synthesised speech:', error);
+      release();
+      onError(errorCode(error));
+    };
+
+    const play = () => {
+      Promise.resolve(audio.play()).then(() => {
+        if (!started && !cancelled) {
+          started = true;
+          onStart();
+        }
+      }, fail);
+    };
+
+    request.then(blob => {
+      if (cancelled) return;
+      url = URL.createObjectURL(blob);
+      audio.src = url;
+      audio.volume = options.volume ?? 1;
+      audio.onended = () => {
+        release();
+        onEnd();
+      };
+      audio.onerror = () => fail(audio.error);
+      if (!paused) {
+        play();
+      }
+    }, fail);
+
+    return {
+      pause: () => {
+        paused = true;
+        if (url) {
+          audio.pause();
+        }
+      },
+      resume: () => {
+        paused = false;
+        if (url) {
+          play();
+        }
+      },
+      cancel: () => {
+        cancelled = true;
+        controller.abort();
+        if (url) {
+          audio.pause();
+          audio.removeAttribute('src');
+        }
+        release();
+      },
+    };
+  }
+}
@@ -0,0 +1,196 @@
+import { SpeechEngine, SpeechPlayback } from './types';
+
+export interface SpeakOptions {
+  // undefined lets the engine pick a voice for lang; null leaves the choice
+  // to the browser or server
+  voice?: SpeechSynthesisVoice | null;
+  lang?: string;
+  rate?: number;
+  pitch?: number;
+  volume?: number;
+  // What the text is read from, such as a message id, so listeners can tell
+  // what is being spoken; the speech engine never sees it
+  sourceId?: string;
+}
+
+export interface SpeechItem {
+  id: number;
+  text: string;
+  options: SpeakOptions;
+}
+
+export type SpeechEvent =
+  | { type: 'started'; item: SpeechItem }
+  | { type: 'boundary'; item: SpeechItem; charIndex: number; charLength: number }
+  // interrupted is set when the item was cut short by stop() or skip()
+  | { type: 'ended'; item: SpeechItem; interrupted: boolean }
+  | { type: 'error'; item: SpeechItem; error: string }
+  | { type: 'paused'; item: SpeechItem }
+  | { type: 'resumed'; item: SpeechItem }
+  | { type: 'voiceschanged'; voices: SpeechSynthesisVoice[] };
+
+export type SpeechListener = (event: SpeechEvent) => void;
+
+// Owns a queue of items and hands them to the speech engine one at a time,
+// so individual items can be skipped without dropping the rest
+export class SpeechController {
+  private readonly queue: SpeechItem[] = [];
+  private readonly listeners = new Set<SpeechListener>();
+  private current: { item: SpeechItem; playback: SpeechPlayback | null } | null = null;
+  private nextId = 1;
+  private isPaused = false;
+
+  constructor(readonly engine: SpeechEngine) {
+    engine.onVoicesChanged = () => {
+      this.emit({ type: 'voiceschanged', voices: this.getVoices() });
+    };
+  }
+
+  get available(): boolean {
+    return this.engine.available;
+  }
+
+  get speaking(): boolean {
+    return this.current !== null || this.queue.length > 0;
+  }
+
+  get paused(): boolean {
+    return this.isPaused;
+  }
+
+  get currentItem(): SpeechItem | null {
+    return this.current ? this.current.item : null;
+  }
+
+  getVoices(): SpeechSynthesisVoice[] {
+    return this.engine.getVoices();
+  }
+
+  subscribe(listener: SpeechListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Queues text behind anything already waiting to be spoken
+  speak(text: string, options: SpeakOptions = {}): SpeechItem {
+    const item: SpeechItem = { id: this.nextId++, text, options };
+    this.queue.push(item);
+    this.playNext();
+    this.prefetchNext();
+    return item;
+  }
+
+  pause() {
+    if (!this.current?.playback || this.isPaused) return;
+    this.isPaused = true;
+    this.current.playback.pause();
+    this.emit({ type: 'paused', item: this.current.item });
+  }
+
+  resume() {
+    if (!this.isPaused) return;
+    this.isPaused = false;
+    if (this.current?.playback) {
+      this.current.playback.resume();
+      this.emit({ type: 'resumed', item: this.current.item });
+    }
+  }
+
+  // Drops the queue and silences the current item
+  stop() {
+    this.queue.length = 0;
+    this.engine.clearPrefetched?.();
+    this.interruptCurrent();
+  }
+
+  // Cuts the current item short and moves on to the next one
+  skip() {
+    this.interruptCurrent();
+    this.playNext();
+    this.prefetchNext();
+  }
+
+  private emit(event: SpeechEvent) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Speech listener failed:', error);
+      }
+    });
+  }
+
+  // The engine gets the item after the current one ready while it speaks
+  private prefetchNext() {
+    if (this.current && this.queue.length > 0) {
+      this.engine.prefetch?.(this.queue[0].text, this.queue[0].options);
+    }
+  }
+
+  private playNext() {
+    if (this.current || this.queue.length === 0) return;
+
+    const item = this.queue.shift() as SpeechItem;
+
+    if (!this.engine.available) {
+      console.error('Speech synthesis not available');
+      this.emit({ type: 'error', item, error: 'not-supported' });
+      this.playNext();
+      return;
+    }
+
+    const current: { item: SpeechItem; playback: SpeechPlayback | null } = { item, playback: null };
+    this.current = current;
+    // Callbacks from an item that has since been interrupted are ignored
+    const isCurrent = () => this.current === current;
+
+    try {
+      current.playback = this.engine.speak(item.text, item.options, {
+        onStart: () => {
+          if (isCurrent()) {
+            this.emit({ type: 'started', item });
+          }
+        },
+        onBoundary: (charIndex, charLength) => {
+          if (isCurrent()) {
+            this.emit({ type: 'boundary', item, charIndex, charLength });
+          }
+        },
+        onEnd: () => {
+          if (!isCurrent()) return;
+          this.current = null;
+          this.emit({ type: 'ended', item, interrupted: false });
+          this.playNext();
+          this.prefetchNext();
+        },
+        onError: (error) => {
+          if (!isCurrent()) return;
+          console.error('Speech error:', error);
+          this.current = null;
+          this.emit({ type: 'error', item, error });
+          this.playNext();
+          this.prefetchNext();
+        },
+      });
+    } catch (error) {
+      console.error('Error speaking:', error);
+      if (isCurrent()) {
+        this.current = null;
+      }
+      this.emit({ type: 'error', item, error: error instanceof Error ? error.message : String(error) });
+      this.playNext();
+    }
+  }
+
+  private interruptCurrent() {
+    if (!this.current) return;
+
+    const { item, playback } = this.current;
+    this.current = null;
+    playback?.cancel();
+    this.isPaused = false;
+    this.emit({ type: 'ended', item, interrupted: true });
+  }
+}
@@ -0,0 +1,156 @@
+import { HttpSpeechEngine } from '../HttpSpeechEngine';
+import { SpeechController, SpeechEvent } from '../SpeechController';
+import { createMockServer, MockReply } from '../../../test-utils/mockServer';
+
+interface SpeechBody {
+  input: string;
+  voice: string;
+}
+
+const server = createMockServer('http://tts.local');
+
+// Lets requests and play() settle
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('HttpSpeechEngine', () => {
+  let controller: SpeechController;
+  let events: SpeechEvent[];
+  let audio: HTMLMediaElement | null;
+  let play: jest.SpyInstance;
+  let pause: jest.SpyInstance;
+
+  const eventSummary = () => events.map(event =>
+    'item' in event ? `${event.type}:${event.item.text}${event.type === 'ended' && event.interrupted ? '!' : ''}` : event.type
+  );
+  const requestedTexts = () => server.requests.map(request => request.jsonBody<SpeechBody>().input);
+
+  beforeEach(() => {
+    server.install().on('POST', '/v1/audio/speech', request => ({ blob: new Blob([request.jsonBody<SpeechBody>().input], { type: 'audio/mpeg' }) }));
+    Object.assign(URL, {
+      createObjectURL: jest.fn((blob: Blob) => `blob:${blob.size}`),
+      revokeObjectURL: jest.fn(),
+    });
+    audio = null;
+    play = jest.spyOn(window.HTMLMediaElement.prototype, 'play').mockImplementation(function (this: HTMLMediaElement) {
+      audio = this;
+      return Promise.resolve();
+    });
+    pause = jest.spyOn(window.HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+    controller = new SpeechController(new HttpSpeechEngine({
+      baseUrl: 'http://tts.local',
+      model: 'tts-1',
+      voices: ['alloy', 'nova'],
+      apiKey: 'sk-test',
+    }));
+    events = [];
+    controller.subscribe(event => events.push(event));
+  });
+
+  afterEach(() => {
+    server.restore();
+    play.mockRestore();
+    pause.mockRestore();
+  });
+
+  it('asks the server for each item and plays them in order', async () => {
+    controller.speak('One.', { voice: controller.getVoices()[1], rate: 1.5, volume: 0.5 });
+    await settle();
+
+    expect(server.requests[0].headers.authorization).toBe('Bearer sk-test');
+    expect(server.requests[0].body).toEqual({ model: 'tts-1', input: 'One.', voice: 'nova', speed: 1.5, response_format: 'mp3' });
+    expect(audio?.volume).toBe(0.5);
+    expect(eventSummary()).toEqual(['started:One.']);
+
+    controller.speak('Two.');
+    audio?.dispatchEvent(new Event('ended'));
+    await settle();
+
+    expect(eventSummary()).toEqual(['started:One.', 'ended:One.', 'started:Two.']);
+    expect(server.requests[1].jsonBody<SpeechBody>().voice).toBe('alloy');
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:4');
+  });
+
+  it('requests the next item while the current one plays', async () => {
+    controller.speak('One.');
+    controller.speak('Two.');
+    await settle();
+
+    expect(requestedTexts()).toEqual(['One.', 'Two.']);
+
+    audio?.dispatchEvent(new Event('ended'));
+    await settle();
+
+    expect(requestedTexts()).toEqual(['One.', 'Two.']);
+    expect(eventSummary()).toEqual(['started:One.', 'ended:One.', 'started:Two.']);
+  });
+
+  it('skips to the next item and stops everything', async () => {
+    controller.speak('One.');
+    controller.speak('Two.');
+    controller.speak('Three.');
+    await settle();
+
+    controller.skip();
+    await settle();
+    expect(pause).toHaveBeenCalled();
+    expect(eventSummary()).toEqual(['started:One.', 'ended:One.!', 'started:Two.']);
+
+    controller.stop();
+    await settle();
+    expect(controller.speaking).toBe(false);
+    expect(eventSummary()).toEqual(['started:One.', 'ended:One.!', 'started:Two.', 'ended:Two.!']);
+    expect(play).toHaveBeenCalledTimes(2);
+  });
+
+  it('pauses and resumes the audio', async () => {
+    controller.speak('One.');
+    await settle();
+
+    controller.pause();
+    expect(pause).toHaveBeenCalledTimes(1);
+
+    controller.resume();
+    await settle();
+    expect(play).toHaveBeenCalledTimes(2);
+    expect(eventSummary()).toEqual(['started:One.', 'paused:One.', 'resumed:One.']);
+  });
+
+  it('reports a failed request and moves on', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    server.on('POST', '/v1/audio/speech', request => (request.jsonBody<SpeechBody>().input === 'One.'
+      ? { status: 500 }
+      : { blob: new Blob(['audio']) }));
+
+    controller.speak('One.');
+    controller.speak('Two.');
+    await settle();
+    await settle();
+
+    expect(events[0]).toEqual({ type: 'error', item: expect.objectContaining({ text: 'One.' }), error: 'synthesis-failed' });
+    expect(eventSummary()).toEqual(['error:One.', 'started:Two.']);
+  });
+
+  it('gives up on a request the server never answers', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    server.on('POST', '/v1/audio/speech', () => new Promise<MockReply>(() => {}));
+    controller = new SpeechController(new HttpSpeechEngine({
+      baseUrl: 'http://tts.local',
+      model: 'tts-1',
+      voices: ['alloy'],
+      timeout: 20,
+    }));
+    controller.subscribe(event => events.push(event));
+
+    controller.speak('One.');
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(events).toEqual([{ type: 'error', item: expect.objectContaining({ text: 'One.' }), error: 'network' }]);
+  });
+
+  it('offers the configured voices to the voice picker', () => {
+    expect(controller.getVoices().map(voice => [voice.name, voice.lang, voice.default])).toEqual([
+      ['alloy', '', true],
+      ['nova', '', false],
+    ]);
+  });
+});
@@ -0,0 +1,189 @@
+import { BrowserSpeechEngine, pickVoiceForLanguage } from '../BrowserSpeechEngine';
+import { SpeechController, SpeechEvent } from '../SpeechController';
+import {
+  createFakeSpeechController,
+  createFakeSpeechSynthesis,
+  FakeSpeechSynthesis
+} from '../../../test-utils/fakeSpeechSynthesis';
+
+describe('SpeechController', () => {
+  let synthesis: FakeSpeechSynthesis;
+  let controller: SpeechController;
+  let events: SpeechEvent[];
+
+  const eventSummary = () => events.map(event =>
+    'item' in event ? `${event.type}:${event.item.text}${event.type === 'ended' && event.interrupted ? '!' : ''}` : event.type
+  );
+
+  beforeEach(() => {
+    synthesis = createFakeSpeechSynthesis([
+      { name: 'Basic Voice', lang: 'fr-FR' },
+      { name: 'Google US English', lang: 'en-US' }
+    ]);
+    controller = createFakeSpeechController(synthesis);
+    events = [];
+    controller.subscribe(event => events.push(event));
+  });
+
+  it('speaks queued items one at a time in order', () => {
+    controller.speak('One.');
+    controller.speak('Two.');
+
+    expect(synthesis.spoken).toEqual(['One.']);
+    expect(controller.speaking).toBe(true);
+
+    synthesis.finish();
+    expect(synthesis.spoken).toEqual(['One.', 'Two.']);
+
+    synthesis.finish();
+    expect(controller.speaking).toBe(false);
+    expect(eventSummary()).toEqual(['started:One.', 'ended:One.', 'started:Two.', 'ended:Two.']);
+  });
+
+  it('applies speak options and picks an English voice by default', () => {
+    controller.speak('Default');
+    expect(synthesis.utterances[0].voice?.name).toBe('Google US English');
+    synthesis.finish();
+
+    const voice = { name: 'Basic Voice', lang: 'fr-FR' } as SpeechSynthesisVoice;
+    controller.speak('Custom', { voice, rate: 1.5, pitch: 0.8, volume: 0.5 });
+    expect(synthesis.utterances[1]).toMatchObject({ voice, rate: 1.5, pitch: 0.8, volume: 0.5 });
+  });
+
+  it('picks a voice and sets the utterance language for lang', () => {
+    controller.speak('Bonjour', { lang: 'fr-FR' });
+
+    expect(synthesis.utterances[0].voice?.name).toBe('Basic Voice');
+    expect(synthesis.utterances[0].lang).toBe('fr-FR');
+  });
+
+  it('skips the current item and continues with the queue', () => {
+    controller.speak('One.');
+    controller.speak('Two.');
+
+    controller.skip();
+
+    expect(synthesis.cancel).toHaveBeenCalledTimes(1);
+    expect(synthesis.spoken).toEqual(['One.', 'Two.']);
+    expect(eventSummary()).toEqual(['started:One.', 'ended:One.!', 'started:Two.']);
+  });
+
+  it('stops the current item and clears the queue', () => {
+    controller.speak('One.');
+    controller.speak('Two.');
+
+    controller.stop();
+
+    expect(controller.speaking).toBe(false);
+    expect(synthesis.spoken).toEqual(['One.']);
+    expect(eventSummary()).toEqual(['started:One.', 'ended:One.!']);
+  });
+
+  it('ignores late events from a cancelled utterance', () => {
+    controller.speak('One.');
+    const cancelled = synthesis.utterances[0];
+
+    controller.stop();
+    cancelled.onend?.();
+    cancelled.onerror?.({ error: 'interrupted' });
+
+    expect(eventSummary()).toEqual(['started:One.', 'ended:One.!']);
+  });
+
+  it('pauses and resumes', () => {
+    controller.speak('One.');
+
+    controller.pause();
+    expect(controller.paused).toBe(true);
+    expect(synthesis.pause).toHaveBeenCalledTimes(1);
+
+    controller.resume();
+    expect(controller.paused).toBe(false);
+    expect(synthesis.resume).toHaveBeenCalledTimes(1);
+    expect(eventSummary()).toEqual(['started:One.', 'paused:One.', 'resumed:One.']);
+  });
+
+  it('resumes the engine when stopping while paused', () => {
+    controller.speak('One.');
+    controller.pause();
+
+    controller.stop();
+
+    expect(controller.paused).toBe(false);
+    expect(synthesis.resume).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports errors and moves on', () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+    controller.speak('One.');
+    controller.speak('Two.');
+
+    synthesis.fail('synthesis-failed');
+
+    expect(events[1]).toEqual({ type: 'error', item: expect.objectContaining({ text: 'One.' }), error: 'synthesis-failed' });
+    expect(synthesis.spoken).toEqual(['One.', 'Two.']);
+    errorSpy.mockRestore();
+  });
+
+  it('forwards boundary events', () => {
+    controller.speak('Hello world');
+    synthesis.utterances[0].onboundary?.({ charIndex: 6, charLength: 5 });
+
+    expect(events[1]).toEqual({
+      type: 'boundary',
+      item: expect.objectContaining({ text: 'Hello world' }),
+      charIndex: 6,
+      charLength: 5
+    });
+  });
+
+  it('emits voiceschanged when the browser loads voices', () => {
+    synthesis.setVoices([{ name: 'Daniel', lang: 'en-GB' }]);
+
+    expect(events).toEqual([{ type: 'voiceschanged', voices: [{ name: 'Daniel', lang: 'en-GB' }] }]);
+  });
+
+  it('unsubscribes listeners', () => {
+    const listener = jest.fn();
+    const unsubscribe = controller.subscribe(listener);
+    unsubscribe();
+
+    controller.speak('One.');
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('reports an error for every item when synthesis is unavailable', () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+    const unavailable = new SpeechController(new BrowserSpeechEngine(null));
+    const errors: SpeechEvent[] = [];
+    unavailable.subscribe(event => errors.push(event));
+
+    unavailable.speak('One.');
+
+    expect(unavailable.available).toBe(false);
+    expect(unavailable.speaking).toBe(false);
+    expect(errors).toEqual([{ type: 'error', item: expect.objectContaining({ text: 'One.' }), error: 'not-supported' }]);
+    errorSpy.mockRestore();
+  });
+});
+
+describe('pickVoiceForLanguage', () => {
+  const voices = [
+    { name: 'Thomas', lang: 'fr-FR' },
+    { name: 'Amelie', lang: 'fr-CA' },
+    { name: 'Google français', lang: 'fr_CA' },
+    { name: 'Samantha', lang: 'en-US' }
+  ] as SpeechSynthesisVoice[];
+
+  it('prefers the exact locale, favouring well-known voices', () => {
+    expect(pickVoiceForLanguage(voices, 'fr-CA')?.name).toBe('Google français');
+    expect(pickVoiceForLanguage(voices, 'fr-FR')?.name).toBe('Thomas');
+  });
+
+  it('falls back to the same language, then to nothing', () => {
+    expect(pickVoiceForLanguage(voices, 'fr-BE')?.name).toBe('Google français');
+    expect(pickVoiceForLanguage(voices, 'en')?.name).toBe('Samantha');
+    expect(pickVoiceForLanguage(voices, 'de-DE')).toBeNull();
+  });
+});
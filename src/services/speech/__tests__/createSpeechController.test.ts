@@ -0,0 +1,17 @@
+import { BrowserSpeechEngine, createSpeechController, getDefaultSpeechController, HttpSpeechEngine, parseVoiceNames } from '..';
+import { DEFAULT_CONFIG } from '../../config';
+
+describe('createSpeechController', () => {
+  it('uses the shared browser controller unless a speech server is configured', () => {
+    expect(createSpeechController(DEFAULT_CONFIG)).toBe(getDefaultSpeechController());
+    expect(getDefaultSpeechController().engine).toBeInstanceOf(BrowserSpeechEngine);
+
+    const controller = createSpeechController({ ...DEFAULT_CONFIG, speechEngine: 'http', speechVoices: 'amy, alan' });
+    expect(controller.engine).toBeInstanceOf(HttpSpeechEngine);
+    expect(controller.getVoices().map(voice => voice.name)).toEqual(['amy', 'alan']);
+  });
+
+  it('reads a comma-separated list of voices', () => {
+    expect(parseVoiceNames(' alloy, nova ,,echo')).toEqual(['alloy', 'nova', 'echo']);
+  });
+});
@@ -0,0 +1,57 @@
+import { DEFAULT_VOICE_SETTINGS, groupVoicesByLanguage, toSpeakOptions } from '../voiceSettings';
+
+const voice = (name: string, lang: string, voiceURI = name) =>
+  ({ name, lang, voiceURI } as SpeechSynthesisVoice);
+
+describe('voiceSettings', () => {
+  const voices = [
+    voice('Thomas', 'fr-FR'),
+    voice('Samantha', 'en-US'),
+    voice('Daniel', 'en-GB'),
+    voice('Alex', 'en-US')
+  ];
+
+  it('groups voices by language and sorts them by name', () => {
+    const groups = groupVoicesByLanguage(voices);
+    const labels = groups.map(group => group.label);
+
+    expect(groups.map(group => group.lang).sort()).toEqual(['en-GB', 'en-US', 'fr-FR']);
+    expect(labels).toEqual([...labels].sort((a, b) => a.localeCompare(b)));
+    expect(groups.find(group => group.lang === 'fr-FR')?.label).toBe('French (France)');
+    expect(groups.find(group => group.lang === 'en-US')?.voices.map(v => v.name)).toEqual(['Alex', 'Samantha']);
+  });
+
+  it('resolves the stored voice and keeps values in range', () => {
+    const options = toSpeakOptions(
+      { voiceId: 'Daniel', rate: 9, pitch: -1, volume: 0.4 },
+      voices
+    );
+
+    expect(options).toEqual({ voice: voices[2], rate: 2, pitch: 0, volume: 0.4 });
+  });
+
+  it('leaves the voice to the controller when none or an unknown one is stored', () => {
+    expect(toSpeakOptions(DEFAULT_VOICE_SETTINGS, voices).voice).toBeUndefined();
+    expect(toSpeakOptions({ ...DEFAULT_VOICE_SETTINGS, voiceId: 'Gone' }, voices).voice).toBeUndefined();
+  });
+
+  it('keeps the chosen voice only when it speaks the requested language', () => {
+    const settings = { ...DEFAULT_VOICE_SETTINGS, voiceId: 'Daniel' };
+
+    expect(toSpeakOptions(settings, voices, 'en-US')).toMatchObject({ voice: voices[2], lang: 'en-US' });
+    expect(toSpeakOptions(settings, voices, 'fr')).toMatchObject({ voice: undefined, lang: 'fr' });
+  });
+
+  it('keeps a server voice, which reads any language', () => {
+    const serverVoices = [voice('alloy', ''), voice('nova', '')];
+
+    expect(groupVoicesByLanguage(serverVoices)).toEqual([{ lang: '', label: 'Any language', voices: serverVoices }]);
+    expect(toSpeakOptions({ ...DEFAULT_VOICE_SETTINGS, voiceId: 'nova' }, serverVoices, 'fr').voice).toBe(serverVoices[1]);
+  });
+
+  it('falls back to defaults for corrupted numbers', () => {
+    const options = toSpeakOptions({ voiceId: null, rate: NaN, pitch: NaN, volume: NaN }, voices);
+
+    expect(options).toMatchObject({ rate: 1, pitch: 1, volume: 1 });
+  });
+});
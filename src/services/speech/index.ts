@@ -0,0 +1,44 @@
+import { apiKeyFor } from '../config/config';
+import { AppConfig } from '../config/types';
+import { BrowserSpeechEngine } from './BrowserSpeechEngine';
+import { HttpSpeechEngine } from './HttpSpeechEngine';
+import { SpeechController } from './SpeechController';
+
+export * from './BrowserSpeechEngine';
+export * from './HttpSpeechEngine';
+export * from './SpeechController';
+export * from './types';
+export * from './voiceSettings';
+
+let defaultController: SpeechController | null = null;
+
+// Shared controller backed by window.speechSynthesis, created on first use
+export const getDefaultSpeechController = (): SpeechController => {
+  if (!defaultController) {
+    defaultController = new SpeechController(new BrowserSpeechEngine());
+  }
+  return defaultController;
+};
+
+// Voice names listed in the configuration, e.g. "alloy, nova"
+export const parseVoiceNames = (voices: string): string[] =>
+  voices.split(',').map(name => name.trim()).filter(Boolean);
+
+// A controller for the engine the configuration names. The browser engine
+// always uses the shared controller: there is only one speechSynthesis to
+// drive.
+export const createSpeechController = (
+  config: Pick<AppConfig, 'speechEngine' | 'chatBaseUrl' | 'speechBaseUrl' | 'speechModel' | 'speechVoices'>
+    & Partial<Pick<AppConfig, 'apiKey' | 'requestTimeout'>>
+): SpeechController => {
+  if (config.speechEngine !== 'http') {
+    return getDefaultSpeechController();
+  }
+  return new SpeechController(new HttpSpeechEngine({
+    baseUrl: config.speechBaseUrl ?? config.chatBaseUrl,
+    model: config.speechModel,
+    voices: parseVoiceNames(config.speechVoices),
+    apiKey: apiKeyFor(config.speechBaseUrl, config),
+    timeout: config.requestTimeout,
+  }));
+};
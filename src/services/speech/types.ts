@@ -0,0 +1,35 @@
+import { SpeakOptions } from './SpeechController';
+
+export type SpeechEngineKind = 'browser' | 'http';
+
+export interface SpeechCallbacks {
+  onStart: () => void;
+  // Where in the text speech has got to, for engines that can tell
+  onBoundary: (charIndex: number, charLength: number) => void;
+  onEnd: () => void;
+  onError: (error: string) => void;
+}
+
+// One item being spoken
+export interface SpeechPlayback {
+  pause(): void;
+  resume(): void;
+  // Silences the item; none of its callbacks are called after this
+  cancel(): void;
+}
+
+// Turns text into sound, one item at a time; SpeechController keeps the queue
+export interface SpeechEngine {
+  readonly kind: SpeechEngineKind;
+  readonly available: boolean;
+  getVoices(): SpeechSynthesisVoice[];
+  // Called when the voices on offer change, e.g. once the browser has loaded them
+  onVoicesChanged: (() => void) | null;
+  // Starts speaking straight away. Throws when it cannot start; later
+  // failures are reported through onError.
+  speak(text: string, options: SpeakOptions, callbacks: SpeechCallbacks): SpeechPlayback;
+  // Gets ready to speak an item that is coming up, so it can start without a gap
+  prefetch?(text: string, options: SpeakOptions): void;
+  // Forgets prefetched items that will no longer be spoken
+  clearPrefetched?(): void;
+}
@@ -0,0 +1,88 @@
+import { isSameLanguage } from '../../utils/languages';
+import { SpeakOptions } from './SpeechController';
+
+export interface VoiceSettings {
+  // voiceURI (or name, for browsers without URIs) of the chosen voice; null
+  // lets the controller pick a default
+  voiceId: string | null;
+  rate: number;
+  pitch: number;
+  volume: number;
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  voiceId: null,
+  rate: 1.0,
+  pitch: 1.0,
+  volume: 1.0,
+};
+
+export const VOICE_SETTING_RANGES = {
+  rate: { min: 0.5, max: 2, step: 0.1 },
+  pitch: { min: 0, max: 2, step: 0.1 },
+  volume: { min: 0, max: 1, step: 0.05 },
+};
+
+export interface VoiceGroup {
+  lang: string;
+  label: string;
+  voices: SpeechSynthesisVoice[];
+}
+
+export const getVoiceId = (voice: SpeechSynthesisVoice): string => voice.voiceURI || voice.name;
+
+const clamp = (value: number, { min, max }: { min: number; max: number }, fallback: number) =>
+  Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const describeLanguage = (lang: string): string => {
+  try {
+    const names = new Intl.DisplayNames([navigator.language || 'en'], { type: 'language' });
+    const name = names.of(lang);
+    return name || lang;
+  } catch (error) {
+    return lang;
+  }
+};
+
+// Groups voices by language tag, sorted by label, for the voice picker.
+// Server voices, which have no language of their own, are grouped together.
+export const groupVoicesByLanguage = (voices: SpeechSynthesisVoice[]): VoiceGroup[] => {
+  const groups = new Map<string, SpeechSynthesisVoice[]>();
+  voices.forEach(voice => {
+    const lang = voice.lang;
+    groups.set(lang, [...(groups.get(lang) || []), voice]);
+  });
+
+  return Array.from(groups.entries())
+    .map(([lang, groupVoices]) => ({
+      lang,
+      label: lang ? describeLanguage(lang) : 'Any language',
+      voices: [...groupVoices].sort((a, b) => a.name.localeCompare(b.name)),
+    }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+};
+
+// Turns stored settings into controller options, guarding against stale
+// voices and out-of-range values from older sessions. With a language, the
+// chosen voice is only kept when it speaks that language (server voices speak
+// them all); otherwise the engine picks a matching voice.
+export const toSpeakOptions = (
+  settings: VoiceSettings,
+  voices: SpeechSynthesisVoice[],
+  lang?: string
+): SpeakOptions => {
+  const chosenVoice = settings.voiceId
+    ? voices.find(candidate => getVoiceId(candidate) === settings.voiceId)
+    : undefined;
+  const voice = chosenVoice && (!lang || !chosenVoice.lang || isSameLanguage(chosenVoice.lang, lang))
+    ? chosenVoice
+    : undefined;
+
+  return {
+    voice,
+    lang,
+    rate: clamp(settings.rate, VOICE_SETTING_RANGES.rate, DEFAULT_VOICE_SETTINGS.rate),
+    pitch: clamp(settings.pitch, VOICE_SETTING_RANGES.pitch, DEFAULT_VOICE_SETTINGS.pitch),
+    volume: clamp(settings.volume, VOICE_SETTING_RANGES.volume, DEFAULT_VOICE_SETTINGS.volume),
+  };
+};
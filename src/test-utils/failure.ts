@@ -0,0 +1,5 @@
+// The error a promise rejects with; fails the test if it resolves
+export const failure = (promise: Promise<unknown>): Promise<unknown> =>
+  promise.then(() => {
+    throw new Error('Expected the promise to reject');
+  }, error => error);
@@ -0,0 +1,82 @@
+// Just enough of IndexedDB for the conversation store: one database per name,
+// object stores keyed by a key path, and requests that complete on a later
+// tick like the real thing. jsdom ships without indexedDB.
+
+interface FakeRequest<T> {
+  result: T;
+  error: Error | null;
+  onsuccess: (() => void) | null;
+  onerror: (() => void) | null;
+  onupgradeneeded?: (() => void) | null;
+  onblocked?: (() => void) | null;
+}
+
+const later = <T>(run: () => T): FakeRequest<T> => {
+  const request: FakeRequest<T> = { result: undefined as unknown as T, error: null, onsuccess: null, onerror: null };
+  setTimeout(() => {
+    try {
+      request.result = run();
+      request.onsuccess?.();
+    } catch (error) {
+      request.error = error as Error;
+      request.onerror?.();
+    }
+  });
+  return request;
+};
+
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+class FakeDatabase {
+  version = 0;
+  stores = new Map<string, { keyPath: string; records: Map<string, unknown> }>();
+
+  objectStoreNames = {
+    contains: (name: string) => this.stores.has(name),
+  };
+
+  createObjectStore(name: string, { keyPath }: { keyPath: string }) {
+    this.stores.set(name, { keyPath, records: new Map() });
+  }
+
+  transaction(name: string) {
+    const store = this.stores.get(name);
+    if (!store) throw new Error(`No object store ${name}`);
+    return {
+      objectStore: () => ({
+        getAll: () => later(() => Array.from(store.records.values()).map(copy)),
+        put: (value: Record<string, unknown>) => later(() => {
+          store.records.set(String(value[store.keyPath]), copy(value));
+        }),
+        delete: (key: string) => later(() => {
+          store.records.delete(key);
+        }),
+      }),
+    };
+  }
+}
+
+export const createFakeIndexedDB = () => {
+  const databases = new Map<string, FakeDatabase>();
+
+  const factory = {
+    databases,
+    open(name: string, version: number) {
+      const db = databases.get(name) ?? new FakeDatabase();
+      databases.set(name, db);
+      const request: FakeRequest<FakeDatabase> = { result: db, error: null, onsuccess: null, onerror: null };
+      setTimeout(() => {
+        if (db.version < version) {
+          db.version = version;
+          request.onupgradeneeded?.();
+        }
+        request.onsuccess?.();
+      });
+      return request;
+    },
+  };
+
+  return factory;
+};
+
+export const asIDBFactory = (fake: ReturnType<typeof createFakeIndexedDB>): IDBFactory => fake as unknown as IDBFactory;
@@ -0,0 +1,67 @@
+// Stand-ins for getUserMedia and MediaRecorder. Each recorder delivers one
+// chunk of fake audio when stopped, asynchronously like the real thing.
+
+export class FakeMediaRecorder {
+  state: RecordingState = 'inactive';
+  mimeType: string;
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+
+  constructor(readonly stream: MediaStream, options?: MediaRecorderOptions) {
+    this.mimeType = options?.mimeType ?? 'audio/webm';
+  }
+
+  static isTypeSupported(type: string) {
+    return type.startsWith('audio/webm');
+  }
+
+  start() {
+    this.state = 'recording';
+  }
+
+  stop() {
+    this.state = 'inactive';
+    setTimeout(() => {
+      this.ondataavailable?.({ data: new Blob(['fake audio'], { type: this.mimeType }) });
+      this.onstop?.();
+    }, 0);
+  }
+}
+
+// Create inside beforeEach: CRA's resetMocks clears jest.fn implementations
+export const createFakeMicrophone = () => {
+  const track = { stop: jest.fn() };
+  const stream = { getTracks: () => [track] } as unknown as MediaStream;
+  const recorders: FakeMediaRecorder[] = [];
+  const originalMediaDevices = Object.getOwnPropertyDescriptor(navigator, 'mediaDevices');
+
+  class TrackedMediaRecorder extends FakeMediaRecorder {
+    constructor(recordedStream: MediaStream, options?: MediaRecorderOptions) {
+      super(recordedStream, options);
+      recorders.push(this);
+    }
+  }
+
+  const microphone = {
+    track,
+    recorders,
+    getUserMedia: jest.fn(async (_constraints: MediaStreamConstraints) => stream),
+    install() {
+      Object.defineProperty(navigator, 'mediaDevices', {
+        value: { getUserMedia: microphone.getUserMedia },
+        configurable: true,
+      });
+      Object.assign(window, { MediaRecorder: TrackedMediaRecorder });
+      return microphone;
+    },
+    restore() {
+      if (originalMediaDevices) {
+        Object.defineProperty(navigator, 'mediaDevices', originalMediaDevices);
+      } else {
+        delete (navigator as { mediaDevices?: MediaDevices }).mediaDevices;
+      }
+      delete (window as { MediaRecorder?: unknown }).MediaRecorder;
+    },
+  };
+  return microphone;
+};
@@ -0,0 +1,65 @@
+import { BrowserSpeechEngine, SpeechController } from '../services/speech';
+
+// Stand-ins for window.speechSynthesis and SpeechSynthesisUtterance that let
+// tests decide when each utterance finishes
+
+export class FakeUtterance {
+  voice: SpeechSynthesisVoice | null = null;
+  rate = 1;
+  pitch = 1;
+  volume = 1;
+  lang = '';
+  onstart: (() => void) | null = null;
+  onend: (() => void) | null = null;
+  onerror: ((event: { error: string }) => void) | null = null;
+  onboundary: ((event: { charIndex: number; charLength: number }) => void) | null = null;
+
+  constructor(public text: string) {}
+}
+
+// Create inside beforeEach: CRA's resetMocks clears jest.fn implementations
+export const createFakeSpeechSynthesis = (voices: Partial<SpeechSynthesisVoice>[] = []) => {
+  const fake = {
+    utterances: [] as FakeUtterance[],
+    current: null as FakeUtterance | null,
+    onvoiceschanged: null as SpeechSynthesis['onvoiceschanged'],
+    speak: jest.fn((utterance: FakeUtterance) => {
+      fake.utterances.push(utterance);
+      fake.current = utterance;
+      utterance.onstart?.();
+    }),
+    cancel: jest.fn(() => {
+      fake.current = null;
+    }),
+    pause: jest.fn(),
+    resume: jest.fn(),
+    getVoices: jest.fn(() => voices as SpeechSynthesisVoice[]),
+    get spoken() {
+      return fake.utterances.map(utterance => utterance.text);
+    },
+    // Completes the utterance currently being spoken
+    finish() {
+      const utterance = fake.current;
+      fake.current = null;
+      utterance?.onend?.();
+    },
+    fail(error: string) {
+      const utterance = fake.current;
+      fake.current = null;
+      utterance?.onerror?.({ error });
+    },
+    setVoices(next: Partial<SpeechSynthesisVoice>[]) {
+      voices = next;
+      fake.onvoiceschanged?.call({} as SpeechSynthesis, new Event('voiceschanged'));
+    },
+  };
+  return fake;
+};
+
+export type FakeSpeechSynthesis = ReturnType<typeof createFakeSpeechSynthesis>;
+
+export const createFakeSpeechController = (synthesis: FakeSpeechSynthesis) =>
+  new SpeechController(new BrowserSpeechEngine(
+    synthesis as unknown as SpeechSynthesis,
+    text => new FakeUtterance(text) as unknown as SpeechSynthesisUtterance
+  ));
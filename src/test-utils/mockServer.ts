@@ -0,0 +1,148 @@
+// A tiny in-process HTTP server for tests: routes are matched on method and
+// path, and the server is installed as the global fetch.
+
+export interface MockRequest {
+  method: string;
+  url: string;
+  path: string;
+  headers: Record<string, string>;
+  // Parsed from JSON when the request sent a string, as sent otherwise
+  body: unknown;
+  // The JSON body in the shape the test expects the client to have sent
+  jsonBody<T>(): T;
+}
+
+export interface MockReply {
+  status?: number;
+  json?: unknown;
+  text?: string;
+  // Body delivered piece by piece through response.body, like a streamed reply.
+  // A promise holds the stream up until it settles; rejecting it drops the
+  // connection partway through.
+  chunks?: (string | Promise<string>)[];
+  // Binary body, such as audio, read with response.blob()
+  blob?: Blob;
+}
+
+type MockHandler = (request: MockRequest) => MockReply | Promise<MockReply>;
+
+const toHeaderRecord = (headers: HeadersInit | undefined): Record<string, string> => {
+  const record: Record<string, string> = {};
+  if (!headers) return record;
+  if (Array.isArray(headers)) {
+    headers.forEach(([key, value]) => { record[key.toLowerCase()] = value; });
+  } else if (typeof (headers as Headers).forEach === 'function') {
+    (headers as Headers).forEach((value, key) => { record[key.toLowerCase()] = value; });
+  } else {
+    Object.entries(headers).forEach(([key, value]) => { record[key.toLowerCase()] = value as string; });
+  }
+  return record;
+};
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+// Like fetch, reading the body fails once the request is aborted
+const createStreamBody = (chunks: (string | Promise<string>)[], signal?: AbortSignal | null) => ({
+  getReader: () => {
+    const encoder = new TextEncoder();
+    let index = 0;
+    const aborted = new Promise<never>((_, reject) => {
+      signal?.addEventListener('abort', () => reject(abortError()));
+    });
+    aborted.catch(() => {});
+    return {
+      read: async () => {
+        if (signal?.aborted) throw abortError();
+        if (index >= chunks.length) return { done: true, value: undefined };
+        const chunk = await Promise.race([chunks[index++], aborted]);
+        return { done: false, value: encoder.encode(chunk) };
+      },
+    };
+  },
+});
+
+const buildResponse = (reply: MockReply, signal?: AbortSignal | null) => {
+  const status = reply.status ?? 200;
+  const text = reply.chunks
+    ? reply.chunks.filter((chunk): chunk is string => typeof chunk === 'string').join('')
+    : reply.text ?? (reply.json !== undefined ? JSON.stringify(reply.json) : '');
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: String(status),
+    body: reply.chunks ? createStreamBody(reply.chunks, signal) : null,
+    json: async () => JSON.parse(text),
+    text: async () => text,
+    blob: async () => reply.blob ?? new Blob([text]),
+  };
+};
+
+export const createMockServer = (origin = 'http://mock.local') => {
+  const routes = new Map<string, MockHandler>();
+  const requests: MockRequest[] = [];
+  let originalFetch: typeof fetch | undefined;
+
+  const handle = async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const url = typeof input === 'string' ? input : input.toString();
+    const parsed = new URL(url);
+    const method = (init.method || 'GET').toUpperCase();
+    const body: unknown = typeof init.body === 'string' ? JSON.parse(init.body) : init.body;
+    const request: MockRequest = {
+      method,
+      url,
+      path: parsed.pathname,
+      headers: toHeaderRecord(init.headers),
+      body,
+      jsonBody: <T>() => body as T,
+    };
+    requests.push(request);
+
+    const handler = routes.get(`${method} ${parsed.pathname}`);
+    if (!handler) {
+      return buildResponse({ status: 404, text: 'Not found' });
+    }
+
+    // Like fetch, give up as soon as the request is aborted
+    const { signal } = init;
+    if (signal?.aborted) {
+      throw abortError();
+    }
+    const reply = Promise.resolve(handler(request));
+    if (!signal) {
+      return buildResponse(await reply);
+    }
+    return new Promise<ReturnType<typeof buildResponse>>((resolve, reject) => {
+      signal.addEventListener('abort', () => reject(abortError()));
+      reply.then(value => resolve(buildResponse(value, signal)), reject);
+    });
+  };
+
+  return {
+    origin,
+    requests,
+    handle,
+    on(method: string, path: string, handler: MockHandler | MockReply) {
+      routes.set(
+        `${method.toUpperCase()} ${path}`,
+        typeof handler === 'function' ? handler : () => handler
+      );
+      return this;
+    },
+    // Called from beforeEach: CRA's resetMocks wipes jest.fn implementations
+    // between tests, so the fetch mock is created fresh on every install
+    install() {
+      originalFetch = global.fetch;
+      global.fetch = jest.fn(handle) as unknown as typeof fetch;
+      return this;
+    },
+    restore() {
+      if (originalFetch) {
+        global.fetch = originalFetch;
+      }
+      routes.clear();
+      requests.length = 0;
+    },
+  };
+};
+
+export type MockServer = ReturnType<typeof createMockServer>;
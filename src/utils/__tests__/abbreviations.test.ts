@@ -0,0 +1,15 @@
+import { endsWithAbbreviation } from '../abbreviations';
+
+describe('endsWithAbbreviation', () => {
+  it('matches the last word with or without its full stop, ignoring case', () => {
+    expect(endsWithAbbreviation('Ask Dr.')).toBe(true);
+    expect(endsWithAbbreviation('fruit, e.g.')).toBe(true);
+    expect(endsWithAbbreviation('and so on ETC')).toBe(true);
+  });
+
+  it('does not match ordinary words', () => {
+    expect(endsWithAbbreviation('The answer is no.')).toBe(false);
+    expect(endsWithAbbreviation('drive.')).toBe(false);
+    expect(endsWithAbbreviation('')).toBe(false);
+  });
+});
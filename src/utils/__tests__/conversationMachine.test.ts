@@ -0,0 +1,53 @@
+import { conversationReducer, ConversationEvent, ConversationState, isMicrophoneOpen } from '../conversationMachine';
+
+const run = (events: ConversationEvent['type'][], from: ConversationState = 'idle') =>
+  events.reduce((state, type) => conversationReducer(state, { type } as ConversationEvent), from);
+
+describe('conversationReducer', () => {
+  it('runs the listen, think, speak loop', () => {
+    expect(run(['start'])).toBe('listening');
+    expect(run(['start', 'utterance'])).toBe('thinking');
+    expect(run(['start', 'utterance', 'replyStarted'])).toBe('speaking');
+    expect(run(['start', 'utterance', 'replyStarted', 'replyFinished'])).toBe('listening');
+  });
+
+  it('goes back to listening when a reply finishes without being spoken', () => {
+    expect(run(['start', 'utterance', 'replyFinished'])).toBe('listening');
+  });
+
+  it('lets the user barge in while the reply is spoken', () => {
+    expect(run(['start', 'utterance', 'replyStarted', 'bargeIn'])).toBe('listening');
+    expect(run(['start', 'utterance', 'replyStarted', 'utterance'])).toBe('thinking');
+  });
+
+  it('stops from any state', () => {
+    (['idle', 'listening', 'thinking', 'speaking'] as ConversationState[]).forEach(state => {
+      expect(conversationReducer(state, { type: 'stop' })).toBe('idle');
+    });
+  });
+
+  it.each<[ConversationState, ConversationEvent['type']]>([
+    ['idle', 'utterance'],
+    ['idle', 'replyStarted'],
+    ['idle', 'replyFinished'],
+    ['idle', 'bargeIn'],
+    ['listening', 'start'],
+    ['listening', 'replyStarted'],
+    ['listening', 'replyFinished'],
+    ['listening', 'bargeIn'],
+    ['thinking', 'start'],
+    ['thinking', 'utterance'],
+    ['thinking', 'bargeIn'],
+    ['speaking', 'start'],
+    ['speaking', 'replyStarted'],
+  ])('ignores %s + %s', (state, type) => {
+    expect(conversationReducer(state, { type } as ConversationEvent)).toBe(state);
+  });
+
+  it('keeps the microphone open while listening and speaking', () => {
+    expect(isMicrophoneOpen('idle')).toBe(false);
+    expect(isMicrophoneOpen('listening')).toBe(true);
+    expect(isMicrophoneOpen('thinking')).toBe(false);
+    expect(isMicrophoneOpen('speaking')).toBe(true);
+  });
+});
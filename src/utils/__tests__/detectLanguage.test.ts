@@ -0,0 +1,27 @@
+import { detectLanguage } from '../detectLanguage';
+
+describe('detectLanguage', () => {
+  it.each([
+    ['The weather is nice today and you should go for a walk.', 'en'],
+    ['Hola, ¿qué tal? El tiempo es muy bueno para pasear por la ciudad.', 'es'],
+    ['Bonjour, je pense que le temps est idéal pour une promenade.', 'fr'],
+    ['Das Wetter ist heute schön und ich gehe mit dem Hund spazieren.', 'de'],
+    ['Il tempo è bello e non ho voglia di lavorare per la giornata.', 'it'],
+    ['Olá, você está bem? O tempo é bom para uma caminhada.', 'pt'],
+    ['Привет! Как у тебя дела?', 'ru'],
+    ['Привіт! Як справи? Їжак гуляє.', 'uk'],
+    ['こんにちは、元気ですか？', 'ja'],
+    ['你好，今天天气很好。', 'zh'],
+    ['안녕하세요, 잘 지내세요?', 'ko'],
+    ['مرحبا، كيف حالك؟', 'ar'],
+    ['नमस्ते, आप कैसे हैं?', 'hi'],
+  ])('detects %s as %s', (text, expected) => {
+    expect(detectLanguage(text)).toBe(expected);
+  });
+
+  it('returns null when there is too little to go on', () => {
+    expect(detectLanguage('OK')).toBeNull();
+    expect(detectLanguage('42')).toBeNull();
+    expect(detectLanguage('')).toBeNull();
+  });
+});
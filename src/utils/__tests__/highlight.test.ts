@@ -0,0 +1,51 @@
+import { highlightCode, languageName } from '../highlight';
+
+describe('highlightCode', () => {
+  it('marks keywords, strings, numbers and comments', () => {
+    expect(highlightCode('const a = "x"; // note\nreturn 42;', 'js')).toEqual([
+      { kind: 'keyword', text: 'const' },
+      { kind: 'plain', text: ' a = ' },
+      { kind: 'string', text: '"x"' },
+      { kind: 'plain', text: '; ' },
+      { kind: 'comment', text: '// note' },
+      { kind: 'plain', text: '\n' },
+      { kind: 'keyword', text: 'return' },
+      { kind: 'plain', text: ' ' },
+      { kind: 'number', text: '42' },
+      { kind: 'plain', text: ';' },
+    ]);
+  });
+
+  it('does not see comments or keywords inside strings', () => {
+    expect(highlightCode("s = 'if # not a comment'", 'python')).toEqual([
+      { kind: 'plain', text: 's = ' },
+      { kind: 'string', text: "'if # not a comment'" },
+    ]);
+  });
+
+  it('handles strings and comments spanning lines', () => {
+    expect(highlightCode('"""doc\nstring"""', 'py')).toEqual([{ kind: 'string', text: '"""doc\nstring"""' }]);
+    expect(highlightCode('/* a\nb */', 'c')).toEqual([{ kind: 'comment', text: '/* a\nb */' }]);
+  });
+
+  it('matches SQL keywords in any case', () => {
+    expect(highlightCode('SELECT id', 'sql')).toEqual([
+      { kind: 'keyword', text: 'SELECT' },
+      { kind: 'plain', text: ' id' },
+    ]);
+  });
+
+  it('leaves unknown languages plain', () => {
+    expect(highlightCode('if x then y', 'brainfork')).toEqual([{ kind: 'plain', text: 'if x then y' }]);
+    expect(highlightCode('', 'js')).toEqual([]);
+  });
+});
+
+describe('languageName', () => {
+  it('names known languages and aliases', () => {
+    expect(languageName('ts')).toBe('TypeScript');
+    expect(languageName('C++')).toBe('C++');
+    expect(languageName('elixir')).toBe('elixir');
+    expect(languageName('')).toBe('');
+  });
+});
@@ -0,0 +1,34 @@
+import { describeKeyCode, isEditableTarget } from '../keys';
+
+describe('describeKeyCode', () => {
+  it('shortens letter and digit codes', () => {
+    expect(describeKeyCode('KeyT')).toBe('T');
+    expect(describeKeyCode('Digit5')).toBe('5');
+    expect(describeKeyCode('Numpad0')).toBe('Numpad 0');
+  });
+
+  it('spells out the side of modifier keys', () => {
+    expect(describeKeyCode('ControlLeft')).toBe('Control (Left)');
+    expect(describeKeyCode('Space')).toBe('Space');
+  });
+});
+
+describe('isEditableTarget', () => {
+  it('detects form fields and editable content', () => {
+    const editable = document.createElement('div');
+    editable.contentEditable = 'true';
+    // jsdom does not derive isContentEditable from the attribute
+    Object.defineProperty(editable, 'isContentEditable', { value: true });
+
+    expect(isEditableTarget(document.createElement('input'))).toBe(true);
+    expect(isEditableTarget(document.createElement('textarea'))).toBe(true);
+    expect(isEditableTarget(document.createElement('select'))).toBe(true);
+    expect(isEditableTarget(editable)).toBe(true);
+  });
+
+  it('ignores everything else', () => {
+    expect(isEditableTarget(document.createElement('button'))).toBe(false);
+    expect(isEditableTarget(window)).toBe(false);
+    expect(isEditableTarget(null)).toBe(false);
+  });
+});
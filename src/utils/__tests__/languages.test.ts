@@ -0,0 +1,23 @@
+import { getLanguageName, isSameLanguage, matchSupportedLanguage } from '../languages';
+
+describe('languages', () => {
+  it('matches browser locales to supported languages', () => {
+    expect(matchSupportedLanguage('fr-FR')).toBe('fr-FR');
+    expect(matchSupportedLanguage('en-gb')).toBe('en-GB');
+    expect(matchSupportedLanguage('fr-CA')).toBe('fr-FR');
+    expect(matchSupportedLanguage('de')).toBe('de-DE');
+    expect(matchSupportedLanguage('xx-YY')).toBe('en-US');
+    expect(matchSupportedLanguage(undefined)).toBe('en-US');
+  });
+
+  it('compares languages by their primary subtag', () => {
+    expect(isSameLanguage('en-US', 'en_GB')).toBe(true);
+    expect(isSameLanguage('fr', 'FR-ca')).toBe(true);
+    expect(isSameLanguage('pt-BR', 'es-ES')).toBe(false);
+  });
+
+  it('names languages in English', () => {
+    expect(getLanguageName('de-DE')).toBe('German');
+    expect(getLanguageName('ja')).toBe('Japanese');
+  });
+});
@@ -0,0 +1,180 @@
+import { createStreamingMarkdownParser, parseInline, parseMarkdown, safeHref } from '../markdown';
+
+describe('parseInline', () => {
+  it('parses emphasis, code and strike-through', () => {
+    expect(parseInline('a **bold** and *soft* `x * y` ~~old~~')).toEqual([
+      { type: 'text', text: 'a ' },
+      { type: 'strong', children: [{ type: 'text', text: 'bold' }] },
+      { type: 'text', text: ' and ' },
+      { type: 'emphasis', children: [{ type: 'text', text: 'soft' }] },
+      { type: 'text', text: ' ' },
+      { type: 'code', text: 'x * y' },
+      { type: 'text', text: ' ' },
+      { type: 'strike', children: [{ type: 'text', text: 'old' }] },
+    ]);
+  });
+
+  it('leaves stray markers, snake_case and arithmetic alone', () => {
+    expect(parseInline('2 * 3 * 4 in my_var_name, a ** b')).toEqual([
+      { type: 'text', text: '2 * 3 * 4 in my_var_name, a ** b' },
+    ]);
+  });
+
+  it('nests emphasis inside strong text', () => {
+    expect(parseInline('**very *much* so**')).toEqual([
+      {
+        type: 'strong',
+        children: [
+          { type: 'text', text: 'very ' },
+          { type: 'emphasis', children: [{ type: 'text', text: 'much' }] },
+          { type: 'text', text: ' so' },
+        ],
+      },
+    ]);
+  });
+
+  it('parses links, autolinks and bare URLs', () => {
+    expect(parseInline('[the docs](https://example.com/docs) or <https://a.org> or https://b.org/x.')).toEqual([
+      { type: 'link', href: 'https://example.com/docs', children: [{ type: 'text', text: 'the docs' }] },
+      { type: 'text', text: ' or ' },
+      { type: 'link', href: 'https://a.org/', children: [{ type: 'text', text: 'https://a.org' }] },
+      { type: 'text', text: ' or ' },
+      { type: 'link', href: 'https://b.org/x', children: [{ type: 'text', text: 'https://b.org/x' }] },
+      { type: 'text', text: '.' },
+    ]);
+  });
+
+  it('shows unsafe links as plain text', () => {
+    expect(parseInline('[click](javascript:alert(1)) [here](/relative)')).toEqual([
+      { type: 'text', text: 'click here' },
+    ]);
+  });
+
+  it('turns images into links to them', () => {
+    expect(parseInline('![a cat](https://example.com/cat.png)')).toEqual([
+      { type: 'link', href: 'https://example.com/cat.png', children: [{ type: 'text', text: 'a cat' }] },
+    ]);
+  });
+
+  it('keeps HTML and escaped characters as text', () => {
+    expect(parseInline('<img src=x onerror=alert(1)> \\*not emphasis\\*')).toEqual([
+      { type: 'text', text: '<img src=x onerror=alert(1)> *not emphasis*' },
+    ]);
+  });
+
+  it('stays fast with thousands of unmatched markers', () => {
+    const started = Date.now();
+
+    expect(parseInline('['.repeat(20000))).toEqual([{ type: 'text', text: '['.repeat(20000) }]);
+    expect(parseInline('*a '.repeat(7000))).toEqual([{ type: 'text', text: '*a '.repeat(7000).trim() }]);
+    expect(parseInline('[[a](https://example.com)')).toEqual([
+      { type: 'text', text: '[' },
+      { type: 'link', href: 'https://example.com/', children: [{ type: 'text', text: 'a' }] },
+    ]);
+    expect(Date.now() - started).toBeLessThan(500);
+  });
+
+  it('keeps line breaks', () => {
+    expect(parseInline('one\ntwo')).toEqual([
+      { type: 'text', text: 'one' },
+      { type: 'break' },
+      { type: 'text', text: 'two' },
+    ]);
+  });
+});
+
+describe('safeHref', () => {
+  it('allows web and mail links only', () => {
+    expect(safeHref('https://example.com')).toBe('https://example.com/');
+    expect(safeHref('mailto:me@example.com')).toBe('mailto:me@example.com');
+    expect(safeHref(' JavaScript:alert(1)')).toBeNull();
+    expect(safeHref('data:text/html,hi')).toBeNull();
+    expect(safeHref('/relative')).toBeNull();
+  });
+});
+
+describe('parseMarkdown', () => {
+  const paragraph = (text: string) => ({ type: 'paragraph', children: [{ type: 'text', text }] });
+
+  it('splits paragraphs on blank lines', () => {
+    expect(parseMarkdown('First\n\nSecond')).toEqual([paragraph('First'), paragraph('Second')]);
+  });
+
+  it('parses headings, rules and quotes', () => {
+    expect(parseMarkdown('## Title ##\n---\n> quoted\n> more')).toEqual([
+      { type: 'heading', level: 2, children: [{ type: 'text', text: 'Title' }] },
+      { type: 'rule' },
+      {
+        type: 'quote',
+        children: [{ type: 'paragraph', children: [{ type: 'text', text: 'quoted' }, { type: 'break' }, { type: 'text', text: 'more' }] }],
+      },
+    ]);
+  });
+
+  it('parses fenced code with its language', () => {
+    expect(parseMarkdown('Try:\n```Python\nprint("*hi*")\n\nx = 1\n```\nDone')).toEqual([
+      paragraph('Try:'),
+      { type: 'code', language: 'python', code: 'print("*hi*")\n\nx = 1' },
+      paragraph('Done'),
+    ]);
+  });
+
+  it('runs an unclosed fence to the end while a reply streams', () => {
+    expect(parseMarkdown('~~~\nlet a')).toEqual([{ type: 'code', language: '', code: 'let a' }]);
+  });
+
+  it('parses ordered and unordered lists with nesting', () => {
+    expect(parseMarkdown('3. three\n4. four\n   - nested\n\n5. five\n\n- dash')).toEqual([
+      {
+        type: 'list',
+        ordered: true,
+        start: 3,
+        items: [
+          [paragraph('three')],
+          [paragraph('four'), { type: 'list', ordered: false, start: 1, items: [[paragraph('nested')]] }],
+          [paragraph('five')],
+        ],
+      },
+      { type: 'list', ordered: false, start: 1, items: [[paragraph('dash')]] },
+    ]);
+  });
+
+  it('parses tables with alignment', () => {
+    expect(parseMarkdown('| Name | Age |\n| :--- | ---: |\n| Ann | 3 |\n| Bo |')).toEqual([
+      {
+        type: 'table',
+        align: ['left', 'right'],
+        header: [[{ type: 'text', text: 'Name' }], [{ type: 'text', text: 'Age' }]],
+        rows: [
+          [[{ type: 'text', text: 'Ann' }], [{ type: 'text', text: '3' }]],
+          [[{ type: 'text', text: 'Bo' }], []],
+        ],
+      },
+    ]);
+  });
+
+  it('does not mistake a pipe in prose for a table', () => {
+    expect(parseMarkdown('a | b\nplain')).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: 'a | b' }, { type: 'break' }, { type: 'text', text: 'plain' }] },
+    ]);
+  });
+});
+
+describe('createStreamingMarkdownParser', () => {
+  const reply = '1. one\n\n2. two\n\nSome *text*\n\n```js\nlet a;\n\nlet b;\n```\n| a | b |\n|---|---|\n| 1 | 2 |\n\n> done';
+
+  it('parses every stage of a streaming reply like a full parse', () => {
+    const parse = createStreamingMarkdownParser();
+
+    for (let end = 1; end <= reply.length; end++) {
+      expect(parse(reply.slice(0, end))).toEqual(parseMarkdown(reply.slice(0, end)));
+    }
+  });
+
+  it('starts over when the text is replaced rather than extended', () => {
+    const parse = createStreamingMarkdownParser();
+    parse(reply);
+
+    expect(parse('# New\n\nreply')).toEqual(parseMarkdown('# New\n\nreply'));
+  });
+});
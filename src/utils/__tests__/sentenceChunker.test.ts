@@ -0,0 +1,54 @@
+import { createSentenceChunker } from '../sentenceChunker';
+
+const chunk = (tokens: string[]) => {
+  const sentences: string[] = [];
+  const chunker = createSentenceChunker(sentence => sentences.push(sentence));
+  tokens.forEach(token => chunker.push(token));
+  const beforeFlush = [...sentences];
+  chunker.flush();
+  return { beforeFlush, sentences };
+};
+
+describe('createSentenceChunker', () => {
+  it('emits each sentence as soon as it is complete', () => {
+    const { beforeFlush, sentences } = chunk(['Hel', 'lo there', '. How ', 'are you? I am', ' fine!']);
+
+    expect(beforeFlush).toEqual(['Hello there.', 'How are you?']);
+    expect(sentences).toEqual(['Hello there.', 'How are you?', 'I am fine!']);
+  });
+
+  it('waits for whitespace so decimals are not split', () => {
+    const { beforeFlush, sentences } = chunk(['Pi is 3.', '14 roughly. ', 'Done']);
+
+    expect(beforeFlush).toEqual(['Pi is 3.14 roughly.']);
+    expect(sentences).toEqual(['Pi is 3.14 roughly.', 'Done']);
+  });
+
+  it('does not split after common abbreviations and initials', () => {
+    const { sentences } = chunk(['Ask Dr. Smith, e.g. about J. R. R. Tolkien. Then rest.']);
+
+    expect(sentences).toEqual(['Ask Dr. Smith, e.g. about J. R. R. Tolkien.', 'Then rest.']);
+  });
+
+  it('splits after words that only look like abbreviations', () => {
+    const { sentences } = chunk(['Compare cf. the notes. The answer is no. Then rest.']);
+
+    expect(sentences).toEqual(['Compare cf. the notes.', 'The answer is no.', 'Then rest.']);
+  });
+
+  it('treats line breaks as boundaries and keeps closing quotes', () => {
+    const { sentences } = chunk(['Steps:\n1 mix\n', 'He said "stop." Then left']);
+
+    expect(sentences).toEqual(['Steps:', '1 mix', 'He said "stop."', 'Then left']);
+  });
+
+  it('handles ellipses and repeated punctuation', () => {
+    const { sentences } = chunk(['Wait... What?! ', 'Ok']);
+
+    expect(sentences).toEqual(['Wait...', 'What?!', 'Ok']);
+  });
+
+  it('ignores empty input', () => {
+    expect(chunk(['', '  ']).sentences).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+import { createSpokenMarkdownChunker, stripInlineMarkdown } from '../spokenMarkdown';
+
+const speak = (tokens: string[]) => {
+  const sentences: string[] = [];
+  const chunker = createSpokenMarkdownChunker(sentence => sentences.push(sentence));
+  tokens.forEach(token => chunker.push(token));
+  const beforeFlush = [...sentences];
+  chunker.flush();
+  return { beforeFlush, sentences };
+};
+
+describe('stripInlineMarkdown', () => {
+  it('keeps the words and drops the markup', () => {
+    expect(stripInlineMarkdown('Use **bold**, _soft_ and `npm test` with ~~no~~ marks.')).toBe(
+      'Use bold, soft and npm test with no marks.'
+    );
+  });
+
+  it('reads links by their text and bare URLs by their site', () => {
+    expect(stripInlineMarkdown('See [the guide](https://example.com/guide) or https://www.example.org/a/b.')).toBe(
+      'See the guide or example.org.'
+    );
+  });
+
+  it('drops HTML tags and leaves snake_case alone', () => {
+    expect(stripInlineMarkdown('Set <b>my_var_name</b> to 1')).toBe('Set my_var_name to 1');
+  });
+
+  it('says nothing for bare symbols', () => {
+    expect(stripInlineMarkdown('** --- |')).toBe('');
+  });
+});
+
+describe('createSpokenMarkdownChunker', () => {
+  it('speaks prose as it streams in', () => {
+    const { beforeFlush } = speak(['Here is **one', '** idea. And', ' another']);
+
+    expect(beforeFlush).toEqual(['Here is one idea.']);
+  });
+
+  it('drops heading, list and quote markers', () => {
+    const { sentences } = speak(['# Steps\n', '1. Mix the', ' flour\n- Bake it\n> Enjoy\n']);
+
+    expect(sentences).toEqual(['Steps', 'Mix the flour', 'Bake it', 'Enjoy']);
+  });
+
+  it('describes code blocks instead of reading them', () => {
+    const { beforeFlush, sentences } = speak(['Run this:\n``', '`python\nprint("hi")\n', '```\nThat is all.']);
+
+    expect(beforeFlush).toEqual(['Run this:', 'Python code is shown on screen.']);
+    expect(sentences).toEqual(['Run this:', 'Python code is shown on screen.', 'That is all.']);
+  });
+
+  it('describes a code block left open at the end', () => {
+    const { sentences } = speak(['```\nlet a = 1;']);
+
+    expect(sentences).toEqual(['Code is shown on screen.']);
+  });
+
+  it('reads table rows as lists of cells and skips dividers and rules', () => {
+    const { sentences } = speak(['| Name | Age |\n|---|---|\n| Ann | 3 |\n', '***\nEnd']);
+
+    expect(sentences).toEqual(['Name, Age', 'Ann, 3', 'End']);
+  });
+});
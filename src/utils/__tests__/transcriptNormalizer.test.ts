@@ -0,0 +1,171 @@
+import { DEFAULT_NORMALIZER_OPTIONS, normalizeTranscript, parseNumberWords } from '../transcriptNormalizer';
+
+const only = (step: 'capitalize' | 'spokenPunctuation' | 'numbers') => ({
+  capitalize: false,
+  spokenPunctuation: false,
+  numbers: false,
+  replacements: [],
+  [step]: true,
+});
+
+describe('normalizeTranscript', () => {
+  it('tidies whitespace but keeps meaningful punctuation', () => {
+    expect(normalizeTranscript('  what is 3.5   times 2?  ')).toBe('What is 3.5 times 2?');
+    expect(normalizeTranscript('email jane.doe@example.com at 10:30 about the follow-up')).toBe(
+      'Email jane.doe@example.com at 10:30 about the follow-up'
+    );
+  });
+
+  it('leaves text alone when every step is off', () => {
+    const options = { capitalize: false, spokenPunctuation: false, numbers: false, replacements: [] };
+    expect(normalizeTranscript('twenty five comma i think', options)).toBe('twenty five comma i think');
+  });
+
+  describe('capitalization', () => {
+    it('capitalizes the start of each sentence and line', () => {
+      expect(normalizeTranscript('hello. how are you? fine!\nthanks', only('capitalize'))).toBe(
+        'Hello. How are you? Fine!\nThanks'
+      );
+    });
+
+    it('capitalizes "I" in English only', () => {
+      expect(normalizeTranscript("yes i think i'm right, i'll see", only('capitalize'))).toBe("Yes I think I'm right, I'll see");
+      expect(normalizeTranscript('sì i bambini', only('capitalize'), 'it-IT')).toBe('Sì i bambini');
+    });
+
+    it('does not end sentences at abbreviations', () => {
+      expect(normalizeTranscript('i think i.e. this', only('capitalize'))).toBe('I think i.e. this');
+      expect(normalizeTranscript('fruit, e.g. apples. or pears', only('capitalize'))).toBe('Fruit, e.g. apples. Or pears');
+      expect(normalizeTranscript('ask prof. smith. no. we left', only('capitalize'))).toBe('Ask prof. smith. No. We left');
+    });
+
+    it('does not touch letters inside words or numbers', () => {
+      expect(normalizeTranscript('version 3.5 is out. iphone users rejoice', only('capitalize'))).toBe(
+        'Version 3.5 is out. Iphone users rejoice'
+      );
+    });
+
+    it('handles non-Latin scripts', () => {
+      expect(normalizeTranscript('привет. как дела', only('capitalize'), 'ru-RU')).toBe('Привет. Как дела');
+    });
+  });
+
+  describe('spoken punctuation', () => {
+    const options = only('spokenPunctuation');
+
+    it('turns dictated marks into punctuation', () => {
+      expect(normalizeTranscript('hello comma how are you question mark', options)).toBe('hello, how are you?');
+      expect(normalizeTranscript('wow exclamation point that works full stop', options)).toBe('wow! that works.');
+      expect(normalizeTranscript('list colon apples semicolon pears', options)).toBe('list: apples; pears');
+    });
+
+    it('breaks lines', () => {
+      expect(normalizeTranscript('first line new line second line new paragraph third', options)).toBe(
+        'first line\nsecond line\n\nthird'
+      );
+    });
+
+    it('only reads "period" as a full stop at the end of a line', () => {
+      expect(normalizeTranscript('the trial period ended period', options)).toBe('the trial period ended.');
+      expect(normalizeTranscript('done period new line next', options)).toBe('done.\nnext');
+    });
+
+    it('leaves "colon" alone where it names the organ', () => {
+      expect(normalizeTranscript('my colon hurts', options)).toBe('my colon hurts');
+      expect(normalizeTranscript('the colon is part of the gut colon it absorbs water', options)).toBe(
+        'the colon is part of the gut: it absorbs water'
+      );
+    });
+
+    it('ignores the words inside other words', () => {
+      expect(normalizeTranscript('the colonel commanded', options)).toBe('the colonel commanded');
+    });
+
+    it('is skipped for other languages', () => {
+      expect(normalizeTranscript('hola comma amigo', options, 'es-ES')).toBe('hola comma amigo');
+    });
+  });
+
+  describe('numbers and units', () => {
+    const options = only('numbers');
+
+    it('writes larger numbers as digits', () => {
+      expect(normalizeTranscript('twenty five people', options)).toBe('25 people');
+      expect(normalizeTranscript('two hundred and forty-five', options)).toBe('245');
+      expect(normalizeTranscript('in two thousand twenty four', options)).toBe('in 2024');
+      expect(normalizeTranscript('three million five hundred thousand', options)).toBe('3500000');
+    });
+
+    it('keeps small whole numbers as words', () => {
+      expect(normalizeTranscript('one of them has two cats', options)).toBe('one of them has two cats');
+    });
+
+    it('reads decimals', () => {
+      expect(normalizeTranscript('pi is three point one four', options)).toBe('pi is 3.14');
+    });
+
+    it('formats units after numbers', () => {
+      expect(normalizeTranscript('five percent', options)).toBe('5%');
+      expect(normalizeTranscript('it is 21 degrees', options)).toBe('it is 21°');
+      expect(normalizeTranscript('costs twelve dollars or 10 euros', options)).toBe('costs $12 or €10');
+      expect(normalizeTranscript('run ten kilometres with 2.5 kilograms', options)).toBe('run 10 km with 2.5 kg');
+    });
+
+    it('leaves sequences that are not one number alone', () => {
+      expect(normalizeTranscript('one two three', options)).toBe('one two three');
+      expect(normalizeTranscript('someone stone', options)).toBe('someone stone');
+    });
+
+    it('is skipped for other languages', () => {
+      expect(normalizeTranscript('twenty five', options, 'de-DE')).toBe('twenty five');
+    });
+  });
+
+  describe('replacements', () => {
+    const options = {
+      ...DEFAULT_NORMALIZER_OPTIONS,
+      capitalize: false,
+      replacements: [
+        { from: 'cube control', to: 'kubectl' },
+        { from: 'post gres', to: 'Postgres' },
+        { from: '', to: 'ignored' },
+      ],
+    };
+
+    it('replaces whole words and phrases, ignoring case', () => {
+      expect(normalizeTranscript('Cube Control get pods from post  gres', options)).toBe('kubectl get pods from Postgres');
+    });
+
+    it('does not replace inside other words', () => {
+      expect(normalizeTranscript('cube controlling', options)).toBe('cube controlling');
+    });
+
+    it('inserts the replacement literally', () => {
+      const dollars = { ...options, replacements: [{ from: 'price', to: '$1 each' }] };
+      expect(normalizeTranscript('the price', dollars)).toBe('the $1 each');
+    });
+  });
+
+  it('runs every step by default', () => {
+    expect(normalizeTranscript('hi comma i need twenty five percent more question mark')).toBe('Hi, I need 25% more?');
+  });
+});
+
+describe('parseNumberWords', () => {
+  it('parses well-formed numbers', () => {
+    expect(parseNumberWords(['nineteen'])).toBe(19);
+    expect(parseNumberWords(['ninety', 'nine'])).toBe(99);
+    expect(parseNumberWords(['one', 'hundred', 'and', 'one'])).toBe(101);
+    expect(parseNumberWords(['twenty', 'hundred'])).toBe(2000);
+    expect(parseNumberWords(['one', 'million', 'two', 'thousand'])).toBe(1002000);
+  });
+
+  it('rejects sequences of separate numbers', () => {
+    expect(parseNumberWords(['two', 'three'])).toBeNull();
+    expect(parseNumberWords(['twenty', 'thirty'])).toBeNull();
+    expect(parseNumberWords(['thousand', 'million'])).toBeNull();
+    expect(parseNumberWords(['one', 'thousand', 'one', 'thousand'])).toBeNull();
+    expect(parseNumberWords(['one', 'and', 'two'])).toBeNull();
+    expect(parseNumberWords([])).toBeNull();
+  });
+});
@@ -0,0 +1,12 @@
+// Their full stop does not end the sentence. Words that often end a sentence
+// on their own, like "no", are left out.
+export const ABBREVIATIONS: ReadonlySet<string> = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc', 'e.g', 'i.e', 'cf', 'approx'
+]);
+
+// Whether the last word of the text, with or without its full stop, is one of
+// the abbreviations above
+export const endsWithAbbreviation = (text: string): boolean => {
+  const lastWord = text.trim().split(/\s+/).pop() || '';
+  return ABBREVIATIONS.has(lastWord.replace(/\.$/, '').toLowerCase());
+};
@@ -0,0 +1,43 @@
+// States of the hands-free conversation loop:
+//   idle      - conversation mode is off
+//   listening - waiting for the user to speak
+//   thinking  - the user's utterance was sent, waiting for the reply
+//   speaking  - the reply is being read out; the microphone stays open so
+//               the user can barge in
+export type ConversationState = 'idle' | 'listening' | 'thinking' | 'speaking';
+
+export type ConversationEvent =
+  | { type: 'start' }
+  | { type: 'stop' }
+  // A final transcript was captured and sent
+  | { type: 'utterance' }
+  // Speech output of the reply began
+  | { type: 'replyStarted' }
+  // The reply has been received and fully spoken (or failed)
+  | { type: 'replyFinished' }
+  // The user started talking over the reply
+  | { type: 'bargeIn' };
+
+export const conversationReducer = (state: ConversationState, event: ConversationEvent): ConversationState => {
+  switch (event.type) {
+    case 'start':
+      return state === 'idle' ? 'listening' : state;
+    case 'stop':
+      return 'idle';
+    case 'utterance':
+      return state === 'listening' || state === 'speaking' ? 'thinking' : state;
+    case 'replyStarted':
+      return state === 'thinking' ? 'speaking' : state;
+    case 'replyFinished':
+      return state === 'thinking' || state === 'speaking' ? 'listening' : state;
+    case 'bargeIn':
+      return state === 'speaking' ? 'listening' : state;
+    default:
+      return state;
+  }
+};
+
+// Whether the microphone should be open in a state: the loop listens while
+// waiting for the user and while speaking, to catch barge-in
+export const isMicrophoneOpen = (state: ConversationState): boolean =>
+  state === 'listening' || state === 'speaking';
@@ -0,0 +1,55 @@
+// Small heuristic language detector for assistant replies. It only needs to
+// be good enough to choose a speech voice, so it recognises a script for
+// non-Latin languages and counts common function words for Latin ones.
+
+const SCRIPTS: { lang: string; pattern: RegExp }[] = [
+  { lang: 'ja', pattern: /[぀-ヿ]/g },
+  { lang: 'ko', pattern: /[가-힯]/g },
+  { lang: 'zh', pattern: /[一-鿿]/g },
+  // Letters that only Ukrainian uses, checked before generic Cyrillic
+  { lang: 'uk', pattern: /[іїєґІЇЄҐ]/g },
+  { lang: 'ru', pattern: /[Ѐ-ӿ]/g },
+  { lang: 'el', pattern: /[Ͱ-Ͽ]/g },
+  { lang: 'he', pattern: /[֐-׿]/g },
+  { lang: 'ar', pattern: /[؀-ۿ]/g },
+  { lang: 'hi', pattern: /[ऀ-ॿ]/g },
+  { lang: 'th', pattern: /[฀-๿]/g },
+];
+
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'you', 'to', 'of', 'it', 'that', 'this', 'with', 'for', 'what', 'have'],
+  es: ['el', 'la', 'los', 'las', 'que', 'es', 'y', 'de', 'en', 'un', 'una', 'por', 'para', 'con', 'está'],
+  fr: ['le', 'la', 'les', 'est', 'et', 'de', 'des', 'un', 'une', 'que', 'pour', 'dans', 'vous', 'je', 'pas'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'sie', 'ein', 'eine', 'zu', 'mit', 'auf', 'für'],
+  it: ['il', 'lo', 'gli', 'che', 'è', 'e', 'di', 'un', 'una', 'per', 'non', 'sono', 'con', 'della'],
+  pt: ['o', 'os', 'as', 'que', 'é', 'e', 'de', 'um', 'uma', 'para', 'não', 'com', 'você', 'está'],
+  nl: ['de', 'het', 'een', 'en', 'is', 'niet', 'ik', 'je', 'van', 'dat', 'met', 'voor', 'zijn'],
+  pl: ['i', 'w', 'nie', 'jest', 'to', 'na', 'się', 'z', 'że', 'do', 'jak', 'czy'],
+  tr: ['ve', 'bir', 'bu', 'için', 'de', 'da', 'ile', 'ne', 'çok', 'değil', 'mi'],
+};
+
+const MIN_SCRIPT_CHARACTERS = 2;
+const MIN_STOPWORD_HITS = 2;
+
+// Returns a primary language code such as "fr", or null when unsure
+export const detectLanguage = (text: string): string | null => {
+  for (const { lang, pattern } of SCRIPTS) {
+    const matches = text.match(pattern);
+    if (matches && matches.length >= MIN_SCRIPT_CHARACTERS) {
+      return lang;
+    }
+  }
+
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) || [];
+  const scores = Object.entries(STOPWORDS).map(([lang, stopwords]) => ({
+    lang,
+    hits: words.filter(word => stopwords.includes(word)).length,
+  }));
+  scores.sort((a, b) => b.hits - a.hits);
+
+  const [best, runnerUp] = scores;
+  if (best.hits < MIN_STOPWORD_HITS || best.hits === runnerUp.hits) {
+    return null;
+  }
+  return best.lang;
+};
@@ -0,0 +1,192 @@
+// Lightweight syntax highlighting for code blocks in replies: comments,
+// strings, numbers and keywords of the languages models write most often
+
+export type HighlightKind = 'plain' | 'comment' | 'string' | 'number' | 'keyword';
+
+export interface HighlightToken {
+  kind: HighlightKind;
+  text: string;
+}
+
+interface Grammar {
+  name: string;
+  keywords?: string;
+  lineComments?: string[];
+  blockComment?: [string, string];
+  quotes?: string[];
+  // SQL keywords are matched in any case
+  caseInsensitive?: boolean;
+}
+
+const C_COMMENTS = { lineComments: ['//'], blockComment: ['/*', '*/'] as [string, string] };
+
+const JS_KEYWORDS = 'as async await break case catch class const continue default delete do else enum export extends false finally for from function if implements import in instanceof interface let new null of private protected public readonly return static super switch this throw true try type typeof undefined var void while yield';
+
+const GRAMMARS: Record<string, Grammar> = {
+  javascript: { name: 'JavaScript', keywords: JS_KEYWORDS, ...C_COMMENTS, quotes: ['"', "'", '`'] },
+  typescript: { name: 'TypeScript', keywords: JS_KEYWORDS, ...C_COMMENTS, quotes: ['"', "'", '`'] },
+  python: {
+    name: 'Python',
+    keywords: 'and as assert async await break class continue def del elif else except False finally for from global if import in is lambda None nonlocal not or pass raise return True try while with yield',
+    lineComments: ['#'],
+    quotes: ['"""', "'''", '"', "'"],
+  },
+  bash: {
+    name: 'shell',
+    keywords: 'case do done echo elif else esac export fi for function if in local read return then until while',
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+  },
+  java: {
+    name: 'Java',
+    keywords: 'abstract boolean break byte case catch char class continue default do double else enum extends false final finally float for if implements import instanceof int interface long new null package private protected public return short static super switch this throw throws true try void while',
+    ...C_COMMENTS,
+    quotes: ['"', "'"],
+  },
+  c: {
+    name: 'C',
+    keywords: 'break case char const continue default do double else enum extern float for if int long return short signed sizeof static struct switch typedef union unsigned void while NULL',
+    ...C_COMMENTS,
+    quotes: ['"', "'"],
+  },
+  cpp: {
+    name: 'C++',
+    keywords: 'auto bool break case catch char class const continue default delete do double else enum false float for if include int long namespace new nullptr private protected public return static struct switch template this throw true try using virtual void while',
+    ...C_COMMENTS,
+    quotes: ['"', "'"],
+  },
+  csharp: {
+    name: 'C#',
+    keywords: 'async await bool break case catch class const continue default double else enum false finally float for foreach if in int interface namespace new null private protected public return static string switch this throw true try using var void while',
+    ...C_COMMENTS,
+    quotes: ['"', "'"],
+  },
+  go: {
+    name: 'Go',
+    keywords: 'break case chan const continue default defer else false fallthrough for func go goto if import interface map nil package range return select struct switch true type var',
+    ...C_COMMENTS,
+    quotes: ['"', "'", '`'],
+  },
+  rust: {
+    name: 'Rust',
+    keywords: 'as async await break const continue crate else enum false fn for if impl in let loop match mod move mut pub ref return self Self static struct trait true type use where while',
+    ...C_COMMENTS,
+    quotes: ['"'],
+  },
+  sql: {
+    name: 'SQL',
+    keywords: 'and as asc by create delete desc distinct drop from group having in inner insert into is join left limit not null on or order outer right select set table update values where',
+    lineComments: ['--'],
+    blockComment: ['/*', '*/'],
+    quotes: ["'", '"'],
+    caseInsensitive: true,
+  },
+  json: { name: 'JSON', keywords: 'true false null', quotes: ['"'] },
+  html: { name: 'HTML', blockComment: ['<!--', '-->'], quotes: ['"', "'"] },
+  css: { name: 'CSS', blockComment: ['/*', '*/'], quotes: ['"', "'"] },
+  yaml: { name: 'YAML', keywords: 'true false null', lineComments: ['#'], quotes: ['"', "'"] },
+};
+
+const ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  'c++': 'cpp',
+  cs: 'csharp',
+  'c#': 'csharp',
+  golang: 'go',
+  rs: 'rust',
+  xml: 'html',
+  yml: 'yaml',
+};
+
+const grammarFor = (language: string): Grammar | undefined => {
+  const key = language.toLowerCase();
+  return GRAMMARS[ALIASES[key] ?? key];
+};
+
+// Readable name of a code block's language, e.g. "py" -> "Python"; unknown
+// languages keep the name they were given
+export const languageName = (language: string): string => grammarFor(language)?.name ?? language;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const patternCache = new Map<Grammar, RegExp>();
+
+// One pattern with a group per kind, tried left to right through the code
+const patternFor = (grammar: Grammar): RegExp => {
+  const cached = patternCache.get(grammar);
+  if (cached) return cached;
+
+  const comments = [
+    ...(grammar.lineComments ?? []).map(start => `${escapeRegExp(start)}[^\\n]*`),
+    ...(grammar.blockComment ? [`${escapeRegExp(grammar.blockComment[0])}[\\s\\S]*?(?:${escapeRegExp(grammar.blockComment[1])}|$)`] : []),
+  ];
+  // Triple quotes and backticks may span lines; other strings end with the line
+  const strings = (grammar.quotes ?? []).map(quote => {
+    const q = escapeRegExp(quote);
+    return quote.length > 1 || quote === '`'
+      ? `${q}[\\s\\S]*?(?:${q}|$)`
+      : `${q}(?:\\\\.|[^\\\\\\n${q}])*(?:${q}|(?=\\n)|$)`;
+  });
+  const parts = [
+    comments.join('|') || '(?!)',
+    strings.join('|') || '(?!)',
+    '\\b(?:0x[\\da-fA-F]+|\\d+(?:\\.\\d+)?(?:[eE][+-]?\\d+)?)\\b',
+    '[A-Za-z_$][\\w$]*',
+  ];
+  const pattern = new RegExp(parts.map(part => `(${part})`).join('|'), 'g');
+  patternCache.set(grammar, pattern);
+  return pattern;
+};
+
+export const highlightCode = (code: string, language: string): HighlightToken[] => {
+  const grammar = grammarFor(language);
+  if (!grammar || !code) {
+    return code ? [{ kind: 'plain', text: code }] : [];
+  }
+
+  const keywords = new Set((grammar.keywords ?? '').split(' ').filter(Boolean));
+  const isKeyword = (word: string) => keywords.has(grammar.caseInsensitive ? word.toLowerCase() : word);
+  const tokens: HighlightToken[] = [];
+  const add = (kind: HighlightKind, text: string) => {
+    if (!text) return;
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind) {
+      last.text += text;
+    } else {
+      tokens.push({ kind, text });
+    }
+  };
+
+  const pattern = patternFor(grammar);
+  pattern.lastIndex = 0;
+  let position = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(code)) !== null) {
+    if (match[0] === '') {
+      pattern.lastIndex++;
+      continue;
+    }
+    add('plain', code.slice(position, match.index));
+    const [text, comment, string, number] = match;
+    if (comment) {
+      add('comment', text);
+    } else if (string) {
+      add('string', text);
+    } else if (number) {
+      add('number', text);
+    } else {
+      add(isKeyword(text) ? 'keyword' : 'plain', text);
+    }
+    position = match.index + text.length;
+  }
+  add('plain', code.slice(position));
+  return tokens;
+};
@@ -0,0 +1,4 @@
+// Short unique id for records created in this browser. crypto.randomUUID is
+// not available in older Safari or over plain http.
+export const createId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
@@ -0,0 +1,15 @@
+// Readable name for a KeyboardEvent.code, e.g. "KeyT" -> "T"
+export const describeKeyCode = (code: string): string => {
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Numpad')) return `Numpad ${code.slice(6)}`;
+  return code.replace(/(Left|Right)$/, ' ($1)');
+};
+
+// Whether a key event is aimed at something the user is typing into, where
+// shortcuts must not fire
+export const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  const tagName = target.tagName;
+  return target.isContentEditable || tagName === 'INPUT' || tagName === 'TEXTAREA' || tagName === 'SELECT';
+};
@@ -0,0 +1,49 @@
+export interface LanguageOption {
+  // BCP 47 tag used for recognition and speech, e.g. "fr-FR"
+  code: string;
+  label: string;
+}
+
+export const SUPPORTED_LANGUAGES: LanguageOption[] = [
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-GB', label: 'English (UK)' },
+  { code: 'es-ES', label: 'Español' },
+  { code: 'fr-FR', label: 'Français' },
+  { code: 'de-DE', label: 'Deutsch' },
+  { code: 'it-IT', label: 'Italiano' },
+  { code: 'pt-BR', label: 'Português (Brasil)' },
+  { code: 'nl-NL', label: 'Nederlands' },
+  { code: 'pl-PL', label: 'Polski' },
+  { code: 'ru-RU', label: 'Русский' },
+  { code: 'uk-UA', label: 'Українська' },
+  { code: 'tr-TR', label: 'Türkçe' },
+  { code: 'ar-SA', label: 'العربية' },
+  { code: 'hi-IN', label: 'हिन्दी' },
+  { code: 'zh-CN', label: '中文 (简体)' },
+  { code: 'ja-JP', label: '日本語' },
+  { code: 'ko-KR', label: '한국어' },
+];
+
+export const DEFAULT_LANGUAGE = 'en-US';
+
+export const getPrimaryLanguage = (tag: string): string => tag.split(/[-_]/)[0].toLowerCase();
+
+export const isSameLanguage = (a: string, b: string): boolean =>
+  getPrimaryLanguage(a) === getPrimaryLanguage(b);
+
+// Best supported match for a browser locale such as navigator.language
+export const matchSupportedLanguage = (tag: string | undefined): string => {
+  if (!tag) return DEFAULT_LANGUAGE;
+  const exact = SUPPORTED_LANGUAGES.find(language => language.code.toLowerCase() === tag.toLowerCase());
+  const sameLanguage = SUPPORTED_LANGUAGES.find(language => isSameLanguage(language.code, tag));
+  return (exact || sameLanguage)?.code ?? DEFAULT_LANGUAGE;
+};
+
+// English name of a language, for instructions sent to the model
+export const getLanguageName = (tag: string): string => {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(getPrimaryLanguage(tag)) || tag;
+  } catch (error) {
+    return tag;
+  }
+};
@@ -0,0 +1,425 @@
+// A small Markdown parser for chat replies. It builds a tree that is rendered
+// with React elements, so HTML in a reply is only ever shown as text.
+
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'emphasis' | 'strike'; children: Inline[] }
+  | { type: 'link'; href: string; children: Inline[] }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type Block =
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'heading'; level: number; children: Inline[] }
+  | { type: 'code'; language: string; code: string }
+  | { type: 'list'; ordered: boolean; start: number; items: Block[][] }
+  | { type: 'quote'; children: Block[] }
+  | { type: 'table'; align: TableAlign[]; header: Inline[][]; rows: Inline[][][] }
+  | { type: 'rule' };
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])(?:\s+|$)(.*)$/;
+const QUOTE = /^ {0,3}>\s?(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+// Only absolute web and mail links are followed; anything else (javascript:,
+// data:, relative paths) is shown as plain text
+export const safeHref = (url: string): string | null => {
+  try {
+    const parsed = new URL(url.trim());
+    return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null;
+  } catch {
+    return null;
+  }
+};
+
+const leadingSpaces = (line: string): number => line.length - line.trimStart().length;
+
+const startsBlock = (line: string): boolean =>
+  [FENCE, HEADING, RULE, LIST_ITEM, QUOTE].some(pattern => pattern.test(line));
+
+const isClosingFence = (line: string, fence: string): boolean =>
+  new RegExp(`^ {0,3}\\${fence[0]}{${fence.length},}\\s*$`).test(line);
+
+const isOrdered = (marker: string): boolean => /\d/.test(marker);
+
+// Splits "| a | b |" into its cells; escaped pipes stay in the cell
+export const splitTableRow = (line: string): string[] => {
+  const row = line.trim().replace(/^\|/, '');
+  const cells: string[] = [];
+  let cell = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (row[i] === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += row[i];
+    }
+  }
+  // Nothing after a closing pipe
+  if (cell.trim()) {
+    cells.push(cell.trim());
+  }
+  return cells;
+};
+
+export const isTableDivider = (line: string): boolean => line.includes('|') && TABLE_DIVIDER.test(line);
+
+const tableAlign = (cell: string): TableAlign => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  return left ? 'left' : null;
+};
+
+interface Span {
+  nodes: Inline[];
+  end: number;
+}
+
+// What is known about the text being parsed, so no delimiter is searched for
+// more than once and parsing stays linear however many go unmatched
+interface InlineScan {
+  // The "]" closing each "[", found in one pass on first use
+  brackets?: Map<number, number>;
+  // For each emphasis marker, a position after which it is never closed
+  unclosed: Map<string, number>;
+}
+
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!|~<>]/;
+const AUTOLINK = /^<((?:https?|mailto):[^\s<>]+)>/i;
+const BARE_URL = /^https?:\/\/[^\s<>]*[^\s<>.,;:!?'")\]*_~]/i;
+const LINK_TARGET = /^\(\s*<?([^\s<>()]*(?:\([^\s()]*\)[^\s<>()]*)*)>?(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)/;
+
+const DELIMITERS: [string, 'strong' | 'emphasis' | 'strike'][] = [
+  ['**', 'strong'],
+  ['__', 'strong'],
+  ['~~', 'strike'],
+  ['*', 'emphasis'],
+  ['_', 'emphasis'],
+];
+
+const isWordChar = (char: string | undefined): boolean => Boolean(char && /[\p{L}\p{N}]/u.test(char));
+
+const text = (value: string): Inline => ({ type: 'text', text: value });
+
+const parseCodeSpan = (source: string, start: number): Span => {
+  const ticks = /^`+/.exec(source.slice(start))![0];
+  const close = source.indexOf(ticks, start + ticks.length);
+  if (close === -1) {
+    return { nodes: [text(ticks)], end: start + ticks.length };
+  }
+  let code = source.slice(start + ticks.length, close).replace(/\n/g, ' ');
+  if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ')) {
+    code = code.slice(1, -1);
+  }
+  return { nodes: [{ type: 'code', text: code }], end: close + ticks.length };
+};
+
+// Pairs up square brackets, skipping escaped ones
+const matchBrackets = (source: string): Map<number, number> => {
+  const pairs = new Map<number, number>();
+  const open: number[] = [];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\\') {
+      i++;
+    } else if (source[i] === '[') {
+      open.push(i);
+    } else if (source[i] === ']' && open.length > 0) {
+      pairs.set(open.pop()!, i);
+    }
+  }
+  return pairs;
+};
+
+// [label](url) and ![alt](url); images become links so replies never load
+// anything by themselves
+const parseLink = (source: string, start: number, scan: InlineScan): Span | null => {
+  const image = source[start] === '!';
+  const open = image ? start + 1 : start;
+  if (source[open] !== '[') return null;
+
+  if (!scan.brackets) {
+    scan.brackets = matchBrackets(source);
+  }
+  const close = scan.brackets.get(open);
+  if (close === undefined) return null;
+
+  const target = LINK_TARGET.exec(source.slice(close + 1));
+  if (!target) return null;
+
+  const label = source.slice(open + 1, close);
+  const children = image ? [text(label || 'Image')] : parseInline(label);
+  const href = safeHref(target[1]);
+  return {
+    nodes: href ? [{ type: 'link', href, children }] : children,
+    end: close + 1 + target[0].length,
+  };
+};
+
+const parseEmphasis = (source: string, start: number, scan: InlineScan): Span | null => {
+  for (const [marker, type] of DELIMITERS) {
+    if (!source.startsWith(marker, start)) continue;
+    const inner = start + marker.length;
+    if (!source[inner] || /\s/.test(source[inner])) return null;
+    // snake_case words are not emphasis
+    if (marker[0] === '_' && isWordChar(source[start - 1])) return null;
+
+    const isClosing = (at: number) =>
+      at > inner &&
+      !/\s/.test(source[at - 1]) &&
+      !(marker.length === 1 && (source[at + 1] === marker || source[at - 1] === marker)) &&
+      !(marker[0] === '_' && isWordChar(source[at + marker.length]));
+
+    // Whether a position closes the marker does not depend on where it was
+    // opened, so a search that failed once fails for every later opener too
+    const unclosed = scan.unclosed.get(marker);
+    if (unclosed !== undefined && inner >= unclosed) continue;
+
+    let close = source.indexOf(marker, inner);
+    while (close !== -1 && !isClosing(close)) {
+      close = source.indexOf(marker, close + 1);
+    }
+    if (close === -1) {
+      scan.unclosed.set(marker, inner);
+      continue;
+    }
+    return {
+      nodes: [{ type, children: parseInline(source.slice(inner, close)) }],
+      end: close + marker.length,
+    };
+  }
+  return null;
+};
+
+const parseSpan = (source: string, start: number, scan: InlineScan): Span | null => {
+  const char = source[start];
+  let match: RegExpExecArray | null;
+
+  if (char === '\\' && source[start + 1] === '\n') {
+    return { nodes: [{ type: 'break' }], end: start + 2 };
+  }
+  if (char === '\\' && ESCAPABLE.test(source[start + 1] ?? '')) {
+    return { nodes: [text(source[start + 1])], end: start + 2 };
+  }
+  if (char === '\n') {
+    return { nodes: [{ type: 'break' }], end: start + 1 };
+  }
+  if (char === '`') {
+    return parseCodeSpan(source, start);
+  }
+  if (char === '[' || char === '!') {
+    return parseLink(source, start, scan);
+  }
+  if (char === '<' && (match = AUTOLINK.exec(source.slice(start)))) {
+    const href = safeHref(match[1]);
+    return { nodes: [href ? { type: 'link', href, children: [text(match[1])] } : text(match[0])], end: start + match[0].length };
+  }
+  if ((char === 'h' || char === 'H') && !isWordChar(source[start - 1]) && (match = BARE_URL.exec(source.slice(start)))) {
+    const href = safeHref(match[0]);
+    return href ? { nodes: [{ type: 'link', href, children: [text(match[0])] }], end: start + match[0].length } : null;
+  }
+  if (char === '*' || char === '_' || char === '~') {
+    return parseEmphasis(source, start, scan);
+  }
+  return null;
+};
+
+export const parseInline = (source: string): Inline[] => {
+  const nodes: Inline[] = [];
+  let plain = '';
+
+  const add = (node: Inline) => {
+    if (node.type === 'text') {
+      plain += node.text;
+      return;
+    }
+    if (plain) {
+      nodes.push(text(plain));
+      plain = '';
+    }
+    nodes.push(node);
+  };
+
+  // Trailing spaces before a line break are not part of the text
+  const trimmed = source.replace(/[ \t]+\n/g, '\n').trim();
+  const scan: InlineScan = { unclosed: new Map() };
+  let i = 0;
+  while (i < trimmed.length) {
+    const span = parseSpan(trimmed, i, scan);
+    if (span) {
+      span.nodes.forEach(add);
+      i = span.end;
+    } else {
+      add(text(trimmed[i]));
+      i++;
+    }
+  }
+  if (plain) {
+    nodes.push(text(plain));
+  }
+  return nodes;
+};
+
+// `starts` receives the line each block starts on
+const parseLines = (lines: string[], starts: number[] = []): Block[] => {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  let i = 0;
+
+  const addBlock = (block: Block, start: number) => {
+    blocks.push(block);
+    starts.push(start);
+  };
+
+  // The paragraph's lines are the ones just before line i
+  const endParagraph = () => {
+    if (paragraph.length > 0) {
+      addBlock({ type: 'paragraph', children: parseInline(paragraph.join('\n')) }, i - paragraph.length);
+      paragraph = [];
+    }
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const blockStart = i;
+    let match: RegExpExecArray | null;
+
+    if (!line.trim()) {
+      endParagraph();
+      i++;
+    } else if ((match = FENCE.exec(line))) {
+      endParagraph();
+      const fence = match[1];
+      const code: string[] = [];
+      i++;
+      // A fence still open at the end is a reply that is still streaming
+      while (i < lines.length && !isClosingFence(lines[i], fence)) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      addBlock({ type: 'code', language: match[2].toLowerCase(), code: code.join('\n') }, blockStart);
+    } else if ((match = HEADING.exec(line))) {
+      endParagraph();
+      addBlock({ type: 'heading', level: match[1].length, children: parseInline(match[2] ?? '') }, blockStart);
+      i++;
+    } else if (RULE.test(line)) {
+      endParagraph();
+      addBlock({ type: 'rule' }, blockStart);
+      i++;
+    } else if (QUOTE.test(line)) {
+      endParagraph();
+      const quoted: string[] = [];
+      while (i < lines.length && (match = QUOTE.exec(lines[i]))) {
+        quoted.push(match[1]);
+        i++;
+      }
+      addBlock({ type: 'quote', children: parseLines(quoted) }, blockStart);
+    } else if (line.includes('|') && i + 1 < lines.length && isTableDivider(lines[i + 1])) {
+      endParagraph();
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[i + 1]).map(tableAlign);
+      const rows: Inline[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+        const cells = splitTableRow(lines[i]);
+        rows.push(header.map((_cell, column) => parseInline(cells[column] ?? '')));
+        i++;
+      }
+      addBlock({ type: 'table', align: header.map((_cell, column) => align[column] ?? null), header: header.map(parseInline), rows }, blockStart);
+    } else if ((match = LIST_ITEM.exec(line))) {
+      endParagraph();
+      const ordered = isOrdered(match[2]);
+      const start = ordered ? parseInt(match[2], 10) : 1;
+      const items: Block[][] = [];
+
+      while (i < lines.length && (match = LIST_ITEM.exec(lines[i])) && isOrdered(match[2]) === ordered) {
+        const markerIndent = match[1].length;
+        const contentIndent = markerIndent + match[2].length + 1;
+        const body = [match[3]];
+        i++;
+
+        while (i < lines.length) {
+          const next = lines[i];
+          if (!next.trim()) {
+            // A blank line ends the item unless an indented line follows
+            const following = lines[i + 1];
+            if (following?.trim() && leadingSpaces(following) > markerIndent) {
+              body.push('');
+              i++;
+              continue;
+            }
+            break;
+          }
+          const indent = leadingSpaces(next);
+          if (indent > markerIndent) {
+            body.push(next.slice(Math.min(indent, contentIndent)));
+          } else if (!startsBlock(next)) {
+            body.push(next);
+          } else {
+            break;
+          }
+          i++;
+        }
+        items.push(parseLines(body));
+
+        // Blank lines between items keep the list going
+        let next = i;
+        while (next < lines.length && !lines[next].trim()) next++;
+        if (next > i && next < lines.length && LIST_ITEM.test(lines[next])) {
+          i = next;
+        }
+      }
+      addBlock({ type: 'list', ordered, start, items }, blockStart);
+    } else {
+      paragraph.push(line);
+      i++;
+    }
+  }
+  endParagraph();
+  return blocks;
+};
+
+const toLines = (source: string): string[] => source.replace(/\r\n?/g, '\n').split('\n');
+
+export const parseMarkdown = (source: string): Block[] => parseLines(toLines(source));
+
+// Parses a reply again and again as it streams in, re-parsing only its end.
+// Text is only ever appended, and that cannot change a block followed by two
+// others: where a block ends depends on the first line after it at most.
+export const createStreamingMarkdownParser = () => {
+  let lines: string[] = [];
+  let blocks: Block[] = [];
+  let starts: number[] = [];
+
+  return (source: string): Block[] => {
+    const next = toLines(source);
+    let kept = Math.max(blocks.length - 2, 0);
+    let from = kept > 0 ? starts[kept] : 0;
+    for (let line = 0; line < from; line++) {
+      if (lines[line] !== next[line]) {
+        kept = 0;
+        from = 0;
+        break;
+      }
+    }
+
+    const tailStarts: number[] = [];
+    const tail = parseLines(next.slice(from), tailStarts);
+    lines = next;
+    blocks = [...blocks.slice(0, kept), ...tail];
+    starts = [...starts.slice(0, kept), ...tailStarts.map(start => start + from)];
+    return blocks;
+  };
+};
@@ -0,0 +1,59 @@
+import { endsWithAbbreviation } from './abbreviations';
+
+export interface SentenceChunker {
+  // Appends streamed text and emits every sentence it completes
+  push(text: string): void;
+  // Emits whatever is left once the stream has ended
+  flush(): void;
+}
+
+// Sentence-ending punctuation (plus closing quotes/brackets) followed by
+// whitespace, or a line break. Punctuation at the very end of the buffer is
+// not a boundary yet: the next token might be "14" in "3.14".
+const BOUNDARY = /([.!?…]+["'”’)\]]*)\s+|\n+/g;
+
+// Single capital letters are initials ("J. R. R. Tolkien")
+const endsWithInitial = (text: string): boolean => /(^|\s)[A-Z]\.$/.test(text.trim());
+
+export const createSentenceChunker = (onSentence: (sentence: string) => void): SentenceChunker => {
+  let buffer = '';
+
+  const emit = (text: string) => {
+    const sentence = text.replace(/\s+/g, ' ').trim();
+    if (sentence) {
+      onSentence(sentence);
+    }
+  };
+
+  const drain = () => {
+    let start = 0;
+    let match: RegExpExecArray | null;
+
+    BOUNDARY.lastIndex = 0;
+    while ((match = BOUNDARY.exec(buffer)) !== null) {
+      const punctuation = match[1];
+      const end = punctuation ? match.index + punctuation.length : match.index;
+      const candidate = buffer.slice(start, end);
+
+      if (punctuation && punctuation.startsWith('.') && (endsWithAbbreviation(candidate) || endsWithInitial(candidate))) {
+        continue;
+      }
+
+      emit(candidate);
+      start = BOUNDARY.lastIndex;
+    }
+
+    buffer = buffer.slice(start);
+  };
+
+  return {
+    push(text: string) {
+      buffer += text;
+      drain();
+    },
+    flush() {
+      emit(buffer);
+      buffer = '';
+    },
+  };
+};
@@ -0,0 +1,137 @@
+import { languageName } from './highlight';
+import { isTableDivider, splitTableRow } from './markdown';
+import { createSentenceChunker, SentenceChunker } from './sentenceChunker';
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([^\s`]*)/;
+const RULE = /^\s*([-*_])(?:\s*\1){2,}\s*$/;
+// Block markers (headings, list bullets and numbers, quotes) are not spoken
+const BLOCK_MARKER = /^\s*(?:#{1,6}|[-*+]|\d{1,9}[.)]|>+)(?:\s+|$)/;
+// A line that might still become a code fence, table row or rule once more
+// of it arrives, so cannot be spoken yet
+const UNDECIDED = /^\s*(?:`{1,2}|~{1,2}|([-*_])(?:\s*\1)*\s*)?$/;
+
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+// Reads links by their text (or site), drops emphasis and inline code marks
+// and any HTML tags, leaving what is worth saying
+export const stripInlineMarkdown = (text: string): string => {
+  const stripped = text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<((?:https?|mailto):[^\s<>]+)>/gi, (_match, url: string) => hostOf(url))
+    .replace(/https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/gi, url => hostOf(url))
+    .replace(/<\/?[a-z][^<>]*>/gi, ' ')
+    .replace(/`+([^`]*)`+/g, '$1')
+    .replace(/(\*\*|__|~~)(\S(?:.*?\S)?)\1/g, '$2')
+    .replace(/\*(\S(?:.*?\S)?)\*/g, '$1')
+    .replace(/(^|[^\p{L}\p{N}])_(\S(?:.*?\S)?)_(?![\p{L}\p{N}])/gu, '$1$2')
+    .replace(/\*{2,}|_{2,}|~{2,}|`+/g, '')
+    .replace(/\\([\\`*_{}[\]()#+\-.!|~<>])/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+  // Punctuation or symbols left on their own are not worth saying
+  return /[\p{L}\p{N}]/u.test(stripped) ? stripped : '';
+};
+
+// Said in place of a code block, which would be unbearable to hear read out
+export const describeCodeBlock = (language: string): string => {
+  const name = languageName(language);
+  return name ? `${name} code is shown on screen.` : 'Code is shown on screen.';
+};
+
+// A SentenceChunker for Markdown replies: each sentence is spoken without its
+// markup, and code blocks are described rather than read. Prose is passed on
+// as soon as it streams in, so speech keeps up with the reply.
+export const createSpokenMarkdownChunker = (onSentence: (sentence: string) => void): SentenceChunker => {
+  const chunker = createSentenceChunker(sentence => {
+    const spoken = stripInlineMarkdown(sentence);
+    if (spoken) {
+      onSentence(spoken);
+    }
+  });
+
+  // Text of the current line not yet passed on
+  let pending = '';
+  // Whether `pending` starts a line, or continues prose already passed on
+  let atLineStart = true;
+  let code: { fence: string; language: string } | null = null;
+
+  const say = (text: string) => chunker.push(text);
+
+  const endCode = () => {
+    if (code) {
+      say(`\n${describeCodeBlock(code.language)}\n`);
+      code = null;
+    }
+  };
+
+  const speakLine = (line: string) => {
+    if (code) {
+      const closing = FENCE.exec(line);
+      if (closing && closing[1][0] === code.fence[0] && closing[1].length >= code.fence.length && !closing[2]) {
+        endCode();
+      }
+      return;
+    }
+    const fence = FENCE.exec(line);
+    if (fence) {
+      code = { fence: fence[1], language: fence[2] };
+    } else if (RULE.test(line) || isTableDivider(line)) {
+      // Nothing to say
+    } else if (line.trim().startsWith('|')) {
+      say(`${splitTableRow(line).join(', ')}\n`);
+    } else {
+      say(`${line.replace(BLOCK_MARKER, '')}\n`);
+    }
+  };
+
+  const drain = () => {
+    let newline: number;
+    while ((newline = pending.indexOf('\n')) !== -1) {
+      const line = pending.slice(0, newline);
+      pending = pending.slice(newline + 1);
+      if (atLineStart) {
+        speakLine(line);
+      } else {
+        say(`${line}\n`);
+      }
+      atLineStart = true;
+    }
+
+    if (!pending || code) return;
+    if (!atLineStart) {
+      say(pending);
+      pending = '';
+    } else if (/^\s*\S+\s/.test(pending) && !UNDECIDED.test(pending) && !FENCE.test(pending) && !pending.trim().startsWith('|')) {
+      say(pending.replace(BLOCK_MARKER, ''));
+      pending = '';
+      atLineStart = false;
+    }
+  };
+
+  return {
+    push(text: string) {
+      pending += text;
+      drain();
+    },
+    flush() {
+      if (pending) {
+        if (atLineStart) {
+          speakLine(pending);
+        } else {
+          say(pending);
+        }
+      }
+      // A reply that ends inside a code block still gets it described
+      endCode();
+      pending = '';
+      atLineStart = true;
+      chunker.flush();
+    },
+  };
+};
@@ -0,0 +1,222 @@
+import { getPrimaryLanguage } from './languages';
+import { endsWithAbbreviation } from './abbreviations';
+
+export interface WordReplacement {
+  // Word or phrase as the recogniser writes it; matched whole and ignoring case
+  from: string;
+  to: string;
+}
+
+export interface NormalizerOptions {
+  // Upper-case the start of each sentence (and "I" in English)
+  capitalize: boolean;
+  // Turn dictated "comma", "question mark", "new line"… into the marks themselves
+  spokenPunctuation: boolean;
+  // Write numbers as digits and abbreviate the units that follow them
+  numbers: boolean;
+  replacements: WordReplacement[];
+}
+
+export const DEFAULT_NORMALIZER_OPTIONS: NormalizerOptions = {
+  capitalize: true,
+  spokenPunctuation: true,
+  numbers: true,
+  replacements: [],
+};
+
+// Word boundaries built from letters and digits in any script, which \b
+// (ASCII only) would get wrong. Lookbehind is avoided for older Safari.
+const WORD_START = '(^|[^\\p{L}\\p{N}])';
+const WORD_END = '(?![\\p{L}\\p{N}])';
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const phrasePattern = (phrase: string): string => escapeRegExp(phrase.trim()).replace(/\s+/g, '\\s+');
+
+const applyReplacements = (text: string, replacements: WordReplacement[]): string =>
+  replacements.reduce((result, { from, to }) => {
+    if (!from.trim()) return result;
+    const pattern = new RegExp(`${WORD_START}${phrasePattern(from)}${WORD_END}`, 'giu');
+    return result.replace(pattern, (_match, before: string) => before + to);
+  }, text);
+
+interface SpokenMark {
+  words: string[];
+  mark: string;
+  // Only at the end of the utterance or a line, where the word cannot be
+  // meant literally ("a period of time")
+  endOnly?: boolean;
+  // Not right after these words, where it is the thing itself ("my colon")
+  notAfter?: string[];
+}
+
+const POSSESSIVES = ['my', 'your', 'his', 'her', 'its', 'our', 'their', 'the'];
+
+const SPOKEN_PUNCTUATION: SpokenMark[] = [
+  { words: ['new paragraph'], mark: '\n\n' },
+  { words: ['new line'], mark: '\n' },
+  { words: ['question mark'], mark: '?' },
+  { words: ['exclamation mark', 'exclamation point'], mark: '!' },
+  { words: ['full stop'], mark: '.' },
+  { words: ['period'], mark: '.', endOnly: true },
+  { words: ['comma'], mark: ',' },
+  { words: ['semicolon'], mark: ';' },
+  { words: ['colon'], mark: ':', notAfter: POSSESSIVES },
+];
+
+// Spaces left around the marks are tidied up afterwards
+const applySpokenPunctuation = (text: string): string =>
+  SPOKEN_PUNCTUATION.reduce((result, { words, mark, endOnly, notAfter }) => {
+    const literal = notAfter ? `(?<!(?:^|[^\\p{L}\\p{N}])(?:${notAfter.join('|')})\\s+)` : '';
+    const pattern = new RegExp(
+      `${WORD_START}${literal}(?:${words.map(phrasePattern).join('|')})${WORD_END}${endOnly ? '(?=[ \\t]*(?:$|\\n))' : ''}`,
+      'giu'
+    );
+    return result.replace(pattern, (_match, before: string) => before + mark);
+  }, text);
+
+const UNITS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+};
+const TEENS: Record<string, number> = {
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15,
+  sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+};
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+const SCALES: Record<string, number> = { thousand: 1e3, million: 1e6, billion: 1e9 };
+
+const NUMBER_WORD = `(?:${[...Object.keys(UNITS), ...Object.keys(TEENS), ...Object.keys(TENS), 'hundred', ...Object.keys(SCALES)].join('|')})`;
+const DIGIT_WORD = `(?:${Object.keys(UNITS).join('|')})`;
+
+// A run of number words, e.g. "two hundred and forty-five point three"
+const NUMBER_RUN = new RegExp(
+  `${WORD_START}(${NUMBER_WORD}(?:(?:[ -]+and)?[ -]+${NUMBER_WORD})*(?:[ ]+point(?:[ ]+${DIGIT_WORD})+)?)${WORD_END}`,
+  'giu'
+);
+
+// Reads number words into a value, or null when they do not form a single
+// number ("two three" is two numbers, not five)
+export const parseNumberWords = (words: string[]): number | null => {
+  let total = 0;
+  let current = 0;
+  let previous: 'unit' | 'teen' | 'tens' | 'hundred' | 'scale' | null = null;
+  let lastScale = Infinity;
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i].toLowerCase();
+    if (word === 'and') {
+      if ((previous !== 'hundred' && previous !== 'scale') || i === words.length - 1) return null;
+      continue;
+    }
+    if (word in UNITS) {
+      if (previous === 'unit' || previous === 'teen' || (current % 10 !== 0 && previous !== null)) return null;
+      if (word === 'zero' && words.length > 1) return null;
+      current += UNITS[word];
+      previous = 'unit';
+    } else if (word in TEENS || word in TENS) {
+      if (previous === 'unit' || previous === 'teen' || previous === 'tens') return null;
+      current += word in TEENS ? TEENS[word] : TENS[word];
+      previous = word in TEENS ? 'teen' : 'tens';
+    } else if (word === 'hundred') {
+      if (current === 0 || current >= 100 || previous === 'hundred') return null;
+      current *= 100;
+      previous = 'hundred';
+    } else if (word in SCALES) {
+      const scale = SCALES[word];
+      if (current === 0 || scale >= lastScale) return null;
+      total += current * scale;
+      current = 0;
+      lastScale = scale;
+      previous = 'scale';
+    } else {
+      return null;
+    }
+  }
+  return previous === null ? null : total + current;
+};
+
+interface UnitFormat {
+  words: string[];
+  format: (value: string) => string;
+}
+
+const UNIT_FORMATS: UnitFormat[] = [
+  { words: ['percent', 'per cent'], format: value => `${value}%` },
+  { words: ['degrees', 'degree'], format: value => `${value}°` },
+  { words: ['dollars', 'dollar'], format: value => `$${value}` },
+  { words: ['euros', 'euro'], format: value => `€${value}` },
+  { words: ['kilometers', 'kilometres', 'kilometer', 'kilometre'], format: value => `${value} km` },
+  { words: ['centimeters', 'centimetres', 'centimeter', 'centimetre'], format: value => `${value} cm` },
+  { words: ['millimeters', 'millimetres', 'millimeter', 'millimetre'], format: value => `${value} mm` },
+  { words: ['kilograms', 'kilogram'], format: value => `${value} kg` },
+  { words: ['gigabytes', 'gigabyte'], format: value => `${value} GB` },
+  { words: ['megabytes', 'megabyte'], format: value => `${value} MB` },
+];
+
+const UNIT_WORDS = UNIT_FORMATS.flatMap(unit => unit.words).map(phrasePattern).join('|');
+
+const applyNumbers = (text: string): string => {
+  const withDigits = text.replace(NUMBER_RUN, (match: string, before: string, run: string, offset: number, whole: string) => {
+    const [integerPart, decimalPart] = run.split(/\s+point\s+/i);
+    const value = parseNumberWords(integerPart.split(/[\s-]+/));
+    if (value === null) return match;
+
+    const decimals = decimalPart ? decimalPart.split(/\s+/).map(word => UNITS[word.toLowerCase()]).join('') : '';
+    const followedByUnit = new RegExp(`^\\s+(?:${UNIT_WORDS})${WORD_END}`, 'iu').test(whole.slice(offset + match.length));
+    // Small whole numbers read better as words ("one of them") unless a unit follows
+    if (value < 10 && !decimals && !followedByUnit) return match;
+
+    return before + (decimals ? `${value}.${decimals}` : String(value));
+  });
+
+  return UNIT_FORMATS.reduce((result, { words, format }) => {
+    const pattern = new RegExp(`(\\d+(?:\\.\\d+)?)\\s*(?:${words.map(phrasePattern).join('|')})${WORD_END}`, 'giu');
+    return result.replace(pattern, (_match, value: string) => format(value));
+  }, withDigits);
+};
+
+const applyCapitalization = (text: string, english: boolean): string => {
+  let result = text.replace(/^(\s*)(\p{Ll})/u, (_match, space: string, letter: string) => space + letter.toUpperCase());
+  result = result.replace(
+    /([.?!]\s+|\n\s*)(\p{Ll})/gu,
+    (match: string, before: string, letter: string, offset: number, whole: string) =>
+      (before.startsWith('.') && endsWithAbbreviation(whole.slice(0, offset + 1)) ? match : before + letter.toUpperCase())
+  );
+  if (english) {
+    result = result.replace(/(^|\s)i(?=$|[\s,?!;:]|\.(?!\p{L})|['’](?:m|ve|ll|d)(?![\p{L}\p{N}]))/gu, '$1I');
+  }
+  return result;
+};
+
+const collapseWhitespace = (text: string): string =>
+  text
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
+    .replace(/ ([,.?!;:])/g, '$1')
+    .trim();
+
+// Tidies a recognised transcript before it is sent. The spoken-punctuation and
+// number steps understand English only and are skipped for other languages.
+export const normalizeTranscript = (
+  text: string,
+  options: NormalizerOptions = DEFAULT_NORMALIZER_OPTIONS,
+  lang = 'en'
+): string => {
+  const english = getPrimaryLanguage(lang) === 'en';
+  let result = collapseWhitespace(text);
+
+  result = applyReplacements(result, options.replacements);
+  if (options.spokenPunctuation && english) {
+    result = applySpokenPunctuation(result);
+  }
+  if (options.numbers && english) {
+    result = applyNumbers(result);
+  }
+  result = collapseWhitespace(result);
+  if (options.capitalize) {
+    result = applyCapitalization(result, english);
+  }
+  return result;
+};